@@ -0,0 +1,195 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { createDirectory } from "../common/files";
+import type { TaskTerminal } from "../common/tasks";
+import { type BuildRuntimeContext, archiveApp, exportArchive } from "./runner";
+
+/**
+ * Values of the "method" key in ExportOptions.plist. Xcode 15.3 renamed some of them, the old names
+ * ("app-store", "ad-hoc", "development") are still accepted by xcodebuild
+ */
+export const EXPORT_METHODS = [
+  { method: "app-store-connect", description: "App Store Connect and TestFlight" },
+  { method: "release-testing", description: "Ad Hoc distribution to the registered devices" },
+  { method: "enterprise", description: "In-house distribution" },
+  { method: "debugging", description: "Development build for the registered devices" },
+  { method: "developer-id", description: "macOS app distributed outside of the App Store" },
+  { method: "mac-application", description: "macOS app without re-signing" },
+];
+
+export type ExportOptions = {
+  method: string;
+  teamID?: string;
+  signingStyle?: "automatic" | "manual";
+  // Bundle identifier → provisioning profile name or UUID, required for the manual signing
+  provisioningProfiles?: { [bundleId: string]: string };
+};
+
+export type ExportOptionsSource =
+  | { type: "file"; path: string }
+  | { type: "generated"; options: ExportOptions }
+  // Only archive, without exporting
+  | { type: "none" };
+
+export type ArchiveHistoryEntry = {
+  id: string;
+  scheme: string;
+  configuration: string;
+  xcworkspace: string;
+  createdAt: string;
+  archivePath: string;
+  exportPath: string | null;
+  // .ipa for iOS, .pkg or .app for macOS
+  artifactPaths: string[];
+};
+
+const HISTORY_FILE = "history.json";
+const MAX_HISTORY_ENTRIES = 50;
+const EXPORT_ARTIFACT_EXTENSIONS = [".ipa", ".pkg", ".app"];
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+export function generateExportOptionsPlist(options: ExportOptions): string {
+  const lines = ["\t<key>method</key>", `\t<string>${escapeXml(options.method)}</string>`];
+  if (options.teamID) {
+    lines.push("\t<key>teamID</key>", `\t<string>${escapeXml(options.teamID)}</string>`);
+  }
+  if (options.signingStyle) {
+    lines.push("\t<key>signingStyle</key>", `\t<string>${escapeXml(options.signingStyle)}</string>`);
+  }
+  const profiles = Object.entries(options.provisioningProfiles ?? {});
+  if (profiles.length > 0) {
+    lines.push("\t<key>provisioningProfiles</key>", "\t<dict>");
+    for (const [bundleId, profile] of profiles) {
+      lines.push(`\t\t<key>${escapeXml(bundleId)}</key>`, `\t\t<string>${escapeXml(profile)}</string>`);
+    }
+    lines.push("\t</dict>");
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">',
+    '<plist version="1.0">',
+    "<dict>",
+    ...lines,
+    "</dict>",
+    "</plist>",
+    "",
+  ].join("\n");
+}
+
+export function getArchivesPath(storagePath: string): string {
+  return path.join(storagePath, "archives");
+}
+
+export async function readArchiveHistory(storagePath: string): Promise<ArchiveHistoryEntry[]> {
+  const historyPath = path.join(getArchivesPath(storagePath), HISTORY_FILE);
+  try {
+    const content = await fs.readFile(historyPath, "utf-8");
+    return JSON.parse(content) as ArchiveHistoryEntry[];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+}
+
+async function saveArchiveHistoryEntry(storagePath: string, entry: ArchiveHistoryEntry): Promise<void> {
+  const history = await readArchiveHistory(storagePath);
+  const newHistory = [entry, ...history].slice(0, MAX_HISTORY_ENTRIES);
+
+  const historyPath = path.join(getArchivesPath(storagePath), HISTORY_FILE);
+  await fs.writeFile(historyPath, JSON.stringify(newHistory, null, 2), "utf-8");
+}
+
+async function findExportArtifacts(exportPath: string): Promise<string[]> {
+  const files = await fs.readdir(exportPath, { withFileTypes: true });
+  return files
+    .filter((file) => EXPORT_ARTIFACT_EXTENSIONS.includes(path.extname(file.name)))
+    .map((file) => path.join(exportPath, file.name));
+}
+
+/**
+ * Archive the scheme and export it with the given ExportOptions.plist. Each archive is kept in its
+ * own directory under the storage path, so the previous ones are available from the history.
+ */
+export async function archiveAndExport(
+  runtime: BuildRuntimeContext,
+  terminal: TaskTerminal,
+  options: {
+    scheme: string;
+    configuration: string;
+    xcworkspace: string;
+    destinationRaw: string;
+    exportOptions: ExportOptionsSource;
+  },
+): Promise<ArchiveHistoryEntry> {
+  const createdAt = new Date();
+  // ex: "2024-10-19T12-30-00-000Z", safe to use as the directory name
+  const id = createdAt.toISOString().replace(/[:.]/g, "-");
+  const archiveDir = path.join(getArchivesPath(runtime.storagePath), options.scheme, id);
+  const archivePath = path.join(archiveDir, `${options.scheme}.xcarchive`);
+  const exportPath = options.exportOptions.type === "none" ? null : path.join(archiveDir, "export");
+
+  if (!runtime.dryRun) {
+    await createDirectory(archiveDir);
+  }
+
+  await archiveApp(runtime, terminal, {
+    scheme: options.scheme,
+    configuration: options.configuration,
+    xcworkspace: options.xcworkspace,
+    destinationRaw: options.destinationRaw,
+    archivePath: archivePath,
+  });
+
+  if (exportPath && options.exportOptions.type !== "none") {
+    const exportOptions = options.exportOptions;
+    // Keep the generated file next to the archive to know how exactly it was exported
+    const exportOptionsPath =
+      exportOptions.type === "file" ? exportOptions.path : path.join(archiveDir, "ExportOptions.plist");
+    if (exportOptions.type === "generated") {
+      runtime.updateProgressStatus(`Generating ExportOptions.plist (method: ${exportOptions.options.method})`);
+      if (!runtime.dryRun) {
+        await fs.writeFile(exportOptionsPath, generateExportOptionsPlist(exportOptions.options), "utf-8");
+      }
+    }
+
+    await exportArchive(runtime, terminal, {
+      archivePath: archivePath,
+      exportPath: exportPath,
+      exportOptionsPath: exportOptionsPath,
+    });
+  }
+
+  const entry: ArchiveHistoryEntry = {
+    id: id,
+    scheme: options.scheme,
+    configuration: options.configuration,
+    xcworkspace: options.xcworkspace,
+    createdAt: createdAt.toISOString(),
+    archivePath: archivePath,
+    exportPath: exportPath,
+    artifactPaths: [],
+  };
+  if (runtime.dryRun) {
+    return entry;
+  }
+
+  entry.artifactPaths = exportPath ? await findExportArtifacts(exportPath) : [];
+  await saveArchiveHistoryEntry(runtime.storagePath, entry);
+
+  terminal.write(`Archive: ${archivePath}`, { newLine: true });
+  for (const artifactPath of entry.artifactPaths) {
+    terminal.write(`Exported: ${artifactPath}`, { newLine: true });
+  }
+  return entry;
+}
@@ -0,0 +1,58 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { acquireBuildLock, isBuildLocked } from "./build-lock";
+
+// PID that surely doesn't exist, the maximum on Linux is 2^22
+const EXITED_PID = 2 ** 30;
+
+describe("build lock", () => {
+  let storagePath: string;
+
+  beforeEach(async () => {
+    storagePath = await fs.mkdtemp(path.join(os.tmpdir(), "sweetpad-build-lock-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(storagePath, { recursive: true, force: true });
+  });
+
+  const writeLock = (pid: number) => fs.writeFile(path.join(storagePath, "build.lock"), `${pid}:token`, "utf-8");
+
+  it("should ignore the lock of the exited process and of the own one", async () => {
+    expect(await isBuildLocked(storagePath)).toBe(false);
+    await writeLock(EXITED_PID);
+    expect(await isBuildLocked(storagePath)).toBe(false);
+
+    const release = await acquireBuildLock(storagePath, () => {});
+    expect(await isBuildLocked(storagePath)).toBe(false);
+    await release();
+    expect(await fs.readdir(storagePath)).toEqual([]);
+  });
+
+  it("should wait until the other process releases the lock", async () => {
+    // The parent process of jest is alive during the test
+    await writeLock(process.ppid);
+    expect(await isBuildLocked(storagePath)).toBe(true);
+
+    const onWait = jest.fn();
+    const acquiring = acquireBuildLock(storagePath, onWait);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(onWait).toHaveBeenCalledTimes(1);
+    await fs.rm(path.join(storagePath, "build.lock"));
+
+    const release = await acquiring;
+    const content = await fs.readFile(path.join(storagePath, "build.lock"), "utf-8");
+    expect(content.startsWith(`${process.pid}:`)).toBe(true);
+    await release();
+  });
+
+  it("should keep the lock taken over by the newer build", async () => {
+    const release = await acquireBuildLock(storagePath, () => {});
+    const releaseNewer = await acquireBuildLock(storagePath, () => {});
+    await release();
+    expect(await fs.readdir(storagePath)).toEqual(["build.lock"]);
+    await releaseNewer();
+    expect(await fs.readdir(storagePath)).toEqual([]);
+  });
+});
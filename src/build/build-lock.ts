@@ -0,0 +1,75 @@
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { createDirectory } from "../common/files";
+
+// Polling interval while another process builds
+const WAIT_INTERVAL_MS = 1000;
+
+/**
+ * The builds of the extension, the CLI and the build server share the derived data and the result
+ * bundle of the storage, and xcodebuild fails on the locked build database when they run at once. The
+ * lock file holds "<pid>:<token>" of the process that builds.
+ */
+function getBuildLockPath(storagePath: string): string {
+  return path.join(storagePath, "build.lock");
+}
+
+async function readBuildLock(storagePath: string): Promise<{ pid: number; token: string } | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(getBuildLockPath(storagePath), "utf-8");
+  } catch (error) {
+    return null;
+  }
+  const [pidRaw, token] = content.trim().split(":");
+  const pid = Number.parseInt(pidRaw, 10);
+  return Number.isInteger(pid) && token ? { pid: pid, token: token } : null;
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // The process exists, but belongs to another user
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * Check if another process is building in the storage. The lock of the exited process is ignored
+ */
+export async function isBuildLocked(storagePath: string): Promise<boolean> {
+  const lock = await readBuildLock(storagePath);
+  return !!lock && lock.pid !== process.pid && isProcessAlive(lock.pid);
+}
+
+/**
+ * Wait until the other processes finish building and take the lock, returns the function that releases
+ * it. The builds of the same process are serialized by the task lock, so the lock of the own process is
+ * taken over.
+ */
+export async function acquireBuildLock(storagePath: string, onWait: () => void): Promise<() => Promise<void>> {
+  await createDirectory(storagePath);
+  const lockPath = getBuildLockPath(storagePath);
+  const token = crypto.randomUUID();
+
+  let isWaiting = false;
+  while (await isBuildLocked(storagePath)) {
+    if (!isWaiting) {
+      isWaiting = true;
+      onWait();
+    }
+    await new Promise((resolve) => setTimeout(resolve, WAIT_INTERVAL_MS));
+  }
+  await fs.writeFile(lockPath, `${process.pid}:${token}`, "utf-8");
+
+  return async () => {
+    // The newer build of the same process could take over the lock already
+    const lock = await readBuildLock(storagePath);
+    if (lock?.token === token) {
+      await fs.rm(lockPath, { force: true });
+    }
+  };
+}
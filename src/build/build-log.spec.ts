@@ -0,0 +1,222 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import {
+  getCompileCommandsPath,
+  parseClangCompileCommands,
+  parseCompileCommands,
+  parseSwiftCompileCommands,
+  updateCompileCommands,
+} from "./build-log";
+
+const CLANG = "/Applications/Xcode.app/Contents/Developer/Toolchains/XcodeDefault.xctoolchain/usr/bin/clang";
+const SWIFTC = "/Applications/Xcode.app/Contents/Developer/Toolchains/XcodeDefault.xctoolchain/usr/bin/swiftc";
+
+function compileC(options: { target: string; directory: string; file: string; flags?: string }): string[] {
+  const output = `/Users/user/DerivedData/Objects-normal/arm64/${path.basename(options.file, ".m")}.o`;
+  return [
+    `CompileC ${output} ${options.file} normal arm64 objective-c com.apple.compilers.llvm.clang.1_0.compiler (in target '${options.target}' from project 'App')`,
+    `    cd ${options.directory}`,
+    `    ${CLANG} -x objective-c -target arm64-apple-ios17.0-simulator ${options.flags ?? ""} -c ${options.file} -o ${output}`,
+    "",
+  ];
+}
+
+describe("clang compile commands", () => {
+  it("should parse the CompileC steps", () => {
+    const log = [
+      ...compileC({
+        target: "Core",
+        directory: "/Users/user/App",
+        file: "/Users/user/App/Core/Store.m",
+        flags: "-fmodules",
+      }),
+      // Relative file path, resolved against the escaped "cd" directory
+      ...compileC({
+        target: "App",
+        directory: "/Users/user/My\\ App",
+        file: "Sources/Main.m",
+        flags: "-DNAME=My\\ App",
+      }),
+    ].join("\n");
+    expect(parseClangCompileCommands(log)).toEqual([
+      {
+        directory: "/Users/user/App",
+        file: "/Users/user/App/Core/Store.m",
+        arguments: [
+          CLANG,
+          "-x",
+          "objective-c",
+          "-target",
+          "arm64-apple-ios17.0-simulator",
+          "-fmodules",
+          "-c",
+          "/Users/user/App/Core/Store.m",
+          "-o",
+          "/Users/user/DerivedData/Objects-normal/arm64/Store.o",
+        ],
+        output: "/Users/user/DerivedData/Objects-normal/arm64/Store.o",
+        target: "Core",
+      },
+      {
+        directory: "/Users/user/My App",
+        file: "/Users/user/My App/Sources/Main.m",
+        arguments: [
+          CLANG,
+          "-x",
+          "objective-c",
+          "-target",
+          "arm64-apple-ios17.0-simulator",
+          "-DNAME=My App",
+          "-c",
+          "Sources/Main.m",
+          "-o",
+          "/Users/user/DerivedData/Objects-normal/arm64/Main.o",
+        ],
+        output: "/Users/user/DerivedData/Objects-normal/arm64/Main.o",
+        target: "App",
+      },
+    ]);
+  });
+
+  it("should skip the clang invocations of the other steps", () => {
+    const log = [
+      "ProcessPCH /Users/user/DerivedData/Prefix.pch.gch /Users/user/App/Prefix.pch normal arm64 objective-c com.apple.compilers.llvm.clang.1_0.compiler (in target 'App' from project 'App')",
+      "    cd /Users/user/App",
+      `    ${CLANG} -x objective-c-header -c /Users/user/App/Prefix.pch -o /Users/user/DerivedData/Prefix.pch.gch`,
+      "",
+      // The command without the "cd" line before it
+      "CompileC /Users/user/DerivedData/Main.o /Users/user/App/Main.m normal arm64 objective-c com.apple.compilers.llvm.clang.1_0.compiler (in target 'App' from project 'App')",
+      `    ${CLANG} -x objective-c -c /Users/user/App/Main.m -o /Users/user/DerivedData/Main.o`,
+    ].join("\n");
+    expect(parseClangCompileCommands(log)).toEqual([]);
+  });
+});
+
+describe("swift compile commands", () => {
+  it("should parse the swiftc invocations", () => {
+    const log = [
+      "SwiftDriver App normal arm64 com.apple.xcode.tools.swift.compiler (in target 'App' from project 'App')",
+      "    cd /Users/user/My\\ App",
+      `    builtin-SwiftDriver -- ${SWIFTC} -module-name App -Onone -enforce-exclusivity\\=checked @/Users/user/DerivedData/App.SwiftFileList`,
+      "",
+      // Before Xcode 14
+      "CompileSwiftSources normal arm64 com.apple.xcode.tools.swift.compiler (in target 'Core' from project 'App')",
+      "    cd /Users/user/My\\ App",
+      `    ${SWIFTC} -incremental -module-name Core -Onone`,
+    ].join("\n");
+    expect(parseSwiftCompileCommands(log)).toEqual([
+      {
+        module: "App",
+        target: "App",
+        directory: "/Users/user/My App",
+        arguments: [
+          SWIFTC,
+          "-module-name",
+          "App",
+          "-Onone",
+          "-enforce-exclusivity=checked",
+          "@/Users/user/DerivedData/App.SwiftFileList",
+        ],
+        createdAt: expect.any(String),
+      },
+      {
+        module: "Core",
+        target: "Core",
+        directory: "/Users/user/My App",
+        arguments: [SWIFTC, "-incremental", "-module-name", "Core", "-Onone"],
+        createdAt: expect.any(String),
+      },
+    ]);
+  });
+
+  it("should skip the invocations without the module name", () => {
+    const log = [
+      "SwiftDriver App normal arm64 com.apple.xcode.tools.swift.compiler (in target 'App' from project 'App')",
+      "    cd /Users/user/App",
+      `    builtin-SwiftDriver -- ${SWIFTC} -version`,
+    ].join("\n");
+    expect(parseSwiftCompileCommands(log)).toEqual([]);
+  });
+});
+
+describe("compile commands", () => {
+  it("should parse the swiftc and clang invocations of the same log", () => {
+    const log = [
+      "SwiftDriver App normal arm64 com.apple.xcode.tools.swift.compiler (in target 'App' from project 'App')",
+      "    cd /Users/user/App",
+      `    builtin-SwiftDriver -- ${SWIFTC} -module-name App -Onone`,
+      "",
+      ...compileC({ target: "Core", directory: "/Users/user/App", file: "/Users/user/App/Core/Store.m" }),
+    ].join("\n");
+    const commands = parseCompileCommands(log);
+    expect(commands.swift.map((command) => command.module)).toEqual(["App"]);
+    expect(commands.clang.map((command) => command.file)).toEqual(["/Users/user/App/Core/Store.m"]);
+  });
+});
+
+describe("compile_commands.json", () => {
+  let workspacePath: string;
+
+  beforeEach(async () => {
+    workspacePath = await fs.mkdtemp(path.join(os.tmpdir(), "sweetpad-build-log-"));
+    for (const name of ["Store.m", "Cache.m", "Main.m"]) {
+      await fs.writeFile(path.join(workspacePath, name), "", "utf-8");
+    }
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspacePath, { recursive: true, force: true });
+  });
+
+  it("should merge the incremental builds and drop the removed files", async () => {
+    const filePath = (name: string) => path.join(workspacePath, name);
+    await fs.writeFile(
+      getCompileCommandsPath(workspacePath),
+      JSON.stringify([
+        { directory: workspacePath, file: filePath("Cache.m"), arguments: [CLANG, "-DPREVIOUS"] },
+        { directory: workspacePath, file: filePath("Removed.m"), arguments: [CLANG, "-DPREVIOUS"] },
+        { directory: workspacePath, file: filePath("Store.m"), arguments: [CLANG, "-DPREVIOUS"] },
+      ]),
+      "utf-8",
+    );
+    const fullLog = [
+      ...compileC({ target: "App", directory: workspacePath, file: filePath("Main.m"), flags: "-DFULL" }),
+      ...compileC({ target: "App", directory: workspacePath, file: filePath("Store.m"), flags: "-DFULL" }),
+    ].join("\n");
+    // Only the changed file is recompiled
+    const incrementalLog = compileC({
+      target: "App",
+      directory: workspacePath,
+      file: filePath("Store.m"),
+      flags: "-DINCREMENTAL",
+    }).join("\n");
+
+    const commands = await updateCompileCommands(workspacePath, [
+      ...parseClangCompileCommands(fullLog),
+      ...parseClangCompileCommands(incrementalLog),
+    ]);
+
+    expect(commands.map((command) => command.file)).toEqual([
+      filePath("Cache.m"),
+      filePath("Main.m"),
+      filePath("Store.m"),
+    ]);
+    expect(commands[0].arguments).toContain("-DPREVIOUS");
+    expect(commands[1].arguments).toContain("-DFULL");
+    expect(commands[2].arguments).toContain("-DINCREMENTAL");
+    expect(commands.some((command) => "target" in command)).toBe(false);
+
+    const saved = JSON.parse(await fs.readFile(getCompileCommandsPath(workspacePath), "utf-8"));
+    expect(saved).toEqual(commands);
+  });
+
+  it("should generate the file from scratch when it's broken", async () => {
+    await fs.writeFile(getCompileCommandsPath(workspacePath), "{", "utf-8");
+    const log = compileC({ target: "App", directory: workspacePath, file: "Main.m" }).join("\n");
+
+    const commands = await updateCompileCommands(workspacePath, parseClangCompileCommands(log));
+
+    expect(commands.map((command) => command.file)).toEqual([path.join(workspacePath, "Main.m")]);
+  });
+});
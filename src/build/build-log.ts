@@ -0,0 +1,299 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { parse } from "shell-quote";
+import { createDirectory, isFileExists } from "../common/files";
+
+/**
+ * The swiftc invocation of one module, as xcodebuild printed it in the build log
+ */
+export type SwiftCompileCommand = {
+  module: string;
+  target: string | null;
+  // Working directory of the command, the "cd" line before the command
+  directory: string;
+  // Path to swiftc followed by its arguments
+  arguments: string[];
+  createdAt: string;
+};
+
+/**
+ * Entry of compile_commands.json, the JSON compilation database used by clangd
+ */
+export type ClangCompileCommand = {
+  directory: string;
+  file: string;
+  // Path to clang followed by its arguments
+  arguments: string[];
+  output?: string;
+};
+
+/**
+ * The clang invocation of one file, with the target that compiles it
+ */
+export type ClangFileCommand = ClangCompileCommand & {
+  target: string | null;
+};
+
+const COMMANDS_FILE = "swift-commands.json";
+const CLANG_COMMANDS_FILE = "clang-commands.json";
+const COMPILE_COMMANDS_FILE = "compile_commands.json";
+
+// "SwiftDriver App normal arm64 com.apple.xcode.tools.swift.compiler (in target 'App' from project 'App')"
+const STEP_REGEXP = /^\S+ .*\(in target '(.+?)' from project '.+?'\)$/;
+
+// "    cd /path/to/project"
+const CD_REGEXP = /^\s+cd (.+)$/;
+
+// "    /path/to/clang -x objective-c -target arm64-apple-ios17.0-simulator ... -c /path/to/File.m -o /path/to/File.o"
+const CLANG_REGEXP = /^\s+(\S*\/clang(?:\+\+)? .*)$/;
+
+// "    builtin-SwiftDriver -- /path/to/swiftc -module-name App ..." (Xcode 14+)
+// "    /path/to/swiftc -incremental -module-name App ..." (before Xcode 14)
+const SWIFTC_REGEXP = /^\s+(?:builtin-SwiftDriver -- )?(\S*\/swiftc .*)$/;
+
+export function getBuildLogsPath(storagePath: string): string {
+  return path.join(storagePath, "logs");
+}
+
+/**
+ * Raw xcodebuild output of the last build of the scheme, before it's formatted
+ */
+export function getBuildLogPath(storagePath: string, scheme: string): string {
+  return path.join(getBuildLogsPath(storagePath), `${scheme}.log`);
+}
+
+/**
+ * Arguments are escaped by xcodebuild the same way as in the shell, ex. "-enforce-exclusivity\=checked"
+ */
+export function splitCommandLine(commandLine: string): string[] {
+  return parse(commandLine, (key) => `$${key}`).filter((entry): entry is string => typeof entry === "string");
+}
+
+export type CompileCommands = {
+  swift: SwiftCompileCommand[];
+  clang: ClangFileCommand[];
+};
+
+/**
+ * Parse the swiftc invocations of all modules and the clang invocations of the "CompileC" steps in one
+ * pass over the log. The clang flags are kept as is, so the header maps, module maps and VFS overlays
+ * generated by Xcode are passed to clangd the same way as to the compiler.
+ */
+export function parseCompileCommands(log: string): CompileCommands {
+  const commands: CompileCommands = { swift: [], clang: [] };
+  const createdAt = new Date().toISOString();
+
+  let step: string | null = null;
+  let target: string | null = null;
+  let directory: string | null = null;
+  for (const line of log.split("\n")) {
+    const stepMatch = line.match(STEP_REGEXP);
+    if (stepMatch) {
+      step = line.split(" ")[0];
+      target = stepMatch[1];
+      directory = null;
+      continue;
+    }
+
+    const cdMatch = line.match(CD_REGEXP);
+    if (cdMatch) {
+      directory = splitCommandLine(cdMatch[1])[0] ?? null;
+      continue;
+    }
+    if (!directory) {
+      continue;
+    }
+
+    // Precompiled headers and other clang steps are not the sources
+    const clangMatch = step === "CompileC" ? line.match(CLANG_REGEXP) : null;
+    if (clangMatch) {
+      const args = splitCommandLine(clangMatch[1]);
+      const fileIndex = args.indexOf("-c");
+      if (fileIndex === -1 || !args[fileIndex + 1]) {
+        continue;
+      }
+      const outputIndex = args.indexOf("-o");
+      commands.clang.push({
+        directory: directory,
+        file: path.resolve(directory, args[fileIndex + 1]),
+        arguments: args,
+        output: outputIndex === -1 ? undefined : args[outputIndex + 1],
+        target: target,
+      });
+      continue;
+    }
+
+    const swiftcMatch = line.match(SWIFTC_REGEXP);
+    if (swiftcMatch) {
+      const args = splitCommandLine(swiftcMatch[1]);
+      const moduleIndex = args.indexOf("-module-name");
+      if (moduleIndex === -1 || !args[moduleIndex + 1]) {
+        continue;
+      }
+      commands.swift.push({
+        module: args[moduleIndex + 1],
+        target: target,
+        directory: directory,
+        arguments: args,
+        createdAt: createdAt,
+      });
+    }
+  }
+  return commands;
+}
+
+export function parseClangCompileCommands(log: string): ClangFileCommand[] {
+  return parseCompileCommands(log).clang;
+}
+
+export function parseSwiftCompileCommands(log: string): SwiftCompileCommand[] {
+  return parseCompileCommands(log).swift;
+}
+
+/**
+ * Get the swiftc commands of all modules ever built, keyed by the module name
+ */
+export async function readSwiftCompileCommands(storagePath: string): Promise<Record<string, SwiftCompileCommand>> {
+  const commandsPath = path.join(getBuildLogsPath(storagePath), COMMANDS_FILE);
+  try {
+    const content = await fs.readFile(commandsPath, "utf-8");
+    return JSON.parse(content) as Record<string, SwiftCompileCommand>;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return {};
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get the clang commands of all files ever built, keyed by the file path
+ */
+export async function readClangCompileCommands(storagePath: string): Promise<Record<string, ClangFileCommand>> {
+  const commandsPath = path.join(getBuildLogsPath(storagePath), CLANG_COMMANDS_FILE);
+  try {
+    const content = await fs.readFile(commandsPath, "utf-8");
+    return JSON.parse(content) as Record<string, ClangFileCommand>;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return {};
+    }
+    throw error;
+  }
+}
+
+export async function readBuildLog(storagePath: string, scheme: string): Promise<string | null> {
+  try {
+    return await fs.readFile(getBuildLogPath(storagePath, scheme), "utf-8");
+  } catch (error) {
+    console.debug("Build log is not found", { scheme: scheme, error: error });
+    return null;
+  }
+}
+
+/**
+ * Read the logs of all built schemes and targets, from the oldest to the most recent one
+ */
+export async function readBuildLogs(storagePath: string): Promise<string[]> {
+  const logsPath = getBuildLogsPath(storagePath);
+  let names: string[];
+  try {
+    names = (await fs.readdir(logsPath)).filter((name) => name.endsWith(".log"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  const logs = await Promise.all(
+    names.map(async (name) => {
+      const logPath = path.join(logsPath, name);
+      const [stat, content] = await Promise.all([fs.stat(logPath), fs.readFile(logPath, "utf-8")]);
+      return { modifiedAt: stat.mtimeMs, content: content };
+    }),
+  );
+  return logs.sort((a, b) => a.modifiedAt - b.modifiedAt).map((log) => log.content);
+}
+
+/**
+ * Save the swiftc commands parsed from the build log. The incremental build doesn't print the commands
+ * of the modules that are up to date, so their commands from the previous builds are kept.
+ */
+export async function saveSwiftCompileCommands(storagePath: string, newCommands: SwiftCompileCommand[]): Promise<void> {
+  if (newCommands.length === 0) {
+    return;
+  }
+
+  const commands = await readSwiftCompileCommands(storagePath);
+  for (const command of newCommands) {
+    commands[command.module] = command;
+  }
+
+  const logsPath = getBuildLogsPath(storagePath);
+  await createDirectory(logsPath);
+  await fs.writeFile(path.join(logsPath, COMMANDS_FILE), JSON.stringify(commands), "utf-8");
+}
+
+/**
+ * Same as the swiftc commands, but per file, because clang compiles each file separately
+ */
+export async function saveClangCompileCommands(storagePath: string, newCommands: ClangFileCommand[]): Promise<void> {
+  if (newCommands.length === 0) {
+    return;
+  }
+
+  const commands = await readClangCompileCommands(storagePath);
+  for (const command of newCommands) {
+    commands[command.file] = command;
+  }
+
+  const logsPath = getBuildLogsPath(storagePath);
+  await createDirectory(logsPath);
+  await fs.writeFile(path.join(logsPath, CLANG_COMMANDS_FILE), JSON.stringify(commands), "utf-8");
+}
+
+export function getCompileCommandsPath(workspacePath: string): string {
+  return path.join(workspacePath, COMPILE_COMMANDS_FILE);
+}
+
+async function readCompileCommands(compileCommandsPath: string): Promise<ClangCompileCommand[]> {
+  try {
+    const content = await fs.readFile(compileCommandsPath, "utf-8");
+    const parsed = JSON.parse(content);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    // Missing or broken file is generated from scratch
+    console.debug("Failed to read compile_commands.json", { compileCommandsPath: compileCommandsPath, error: error });
+    return [];
+  }
+}
+
+/**
+ * Update compile_commands.json in the workspace root with the clang invocations parsed from the build
+ * logs. Only the recompiled files are printed by the incremental build, so the entries of the other
+ * files are kept, except the removed ones. The commands are applied in order, so the later ones win.
+ */
+export async function updateCompileCommands(
+  workspacePath: string,
+  newCommands: ClangFileCommand[],
+): Promise<ClangCompileCommand[]> {
+  const compileCommandsPath = getCompileCommandsPath(workspacePath);
+  const commands = new Map<string, ClangCompileCommand>();
+  for (const command of await readCompileCommands(compileCommandsPath)) {
+    commands.set(command.file, command);
+  }
+  for (const { target, ...command } of newCommands) {
+    commands.set(command.file, command);
+  }
+
+  const existing: ClangCompileCommand[] = [];
+  for (const command of commands.values()) {
+    if (await isFileExists(command.file)) {
+      existing.push(command);
+    }
+  }
+  existing.sort((a, b) => a.file.localeCompare(b.file));
+  await fs.writeFile(compileCommandsPath, JSON.stringify(existing, null, 2), "utf-8");
+  return existing;
+}
@@ -0,0 +1,145 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { getSwiftVersionInstalled } from "../common/cli/scripts";
+import { isFileExists, readJsonFile } from "../common/files";
+import type { DestinationType } from "../destination/types";
+import type { BuildRuntimeContext } from "./runner";
+
+export type BuildServerProvider = "sweetpad" | "xcode-build-server";
+
+/**
+ * Options of the last build of the scheme, the build server prepares the targets the same way
+ */
+export type BuildServerBuildOptions = {
+  configuration: string;
+  sdk: string;
+  destination: string;
+  // To apply the same "overrides" blocks as the build
+  destinationType?: DestinationType;
+};
+
+/**
+ * buildServer.json of the built-in build server. "workspace" and "scheme" have the same meaning as
+ * in the xcode-build-server config, so the other tools that read them keep working.
+ */
+export type SweetpadBuildServerConfig = {
+  name: string;
+  version: string;
+  bspVersion: string;
+  languages: string[];
+  argv: string[];
+  workspace: string;
+  scheme: string;
+  // The compiler invocations are read from the logs in this storage
+  storagePath: string;
+  build?: BuildServerBuildOptions;
+};
+
+export const BUILD_SERVER_NAME = "sweetpad";
+const BUILD_SERVER_VERSION = "1.0.0";
+const BSP_VERSION = "2.0.0";
+const BUILD_SERVER_LANGUAGES = ["swift", "objective-c", "objective-cpp", "c", "cpp"];
+
+export function getBuildServerConfigPath(workspacePath: string): string {
+  return path.join(workspacePath, "buildServer.json");
+}
+
+export function getBuildServerProvider(runtime: Pick<BuildRuntimeContext, "getConfigOrDefault">): BuildServerProvider {
+  return runtime.getConfigOrDefault<BuildServerProvider>("xcodebuildserver.provider", "sweetpad");
+}
+
+/**
+ * Read buildServer.json if it's generated for the built-in build server, null otherwise
+ */
+export async function readBuildServerConfig(workspacePath: string): Promise<SweetpadBuildServerConfig | null> {
+  try {
+    const config = await readJsonFile<SweetpadBuildServerConfig>(getBuildServerConfigPath(workspacePath));
+    return config.name === BUILD_SERVER_NAME ? config : null;
+  } catch (error) {
+    console.debug("Failed to read buildServer.json", { workspacePath: workspacePath, error: error });
+    return null;
+  }
+}
+
+/**
+ * Check if the built-in server config can be written without asking: buildServer.json of another
+ * build server (ex. xcode-build-server) is kept unless "xcodebuildserver.overwriteExisting" is enabled,
+ * and the built-in server requires sourcekit-lsp from Swift 6.1 or later
+ */
+export async function canAutogenerateBuildServerConfig(options: {
+  workspacePath: string;
+  overwriteExisting: boolean;
+}): Promise<boolean> {
+  const configPath = getBuildServerConfigPath(options.workspacePath);
+  if (!options.overwriteExisting && (await isFileExists(configPath))) {
+    let name: unknown = null;
+    try {
+      name = (await readJsonFile<{ name?: unknown }>(configPath)).name;
+    } catch (error) {
+      // The broken file is kept too, it's not known whose it is
+    }
+    if (name !== BUILD_SERVER_NAME) {
+      console.debug("buildServer.json of another build server is kept", { configPath: configPath, name: name });
+      return false;
+    }
+  }
+
+  if (!(await isBuildServerSupported())) {
+    console.warn("The built-in build server requires Swift 6.1 or later, buildServer.json is not written");
+    return false;
+  }
+  return true;
+}
+
+/**
+ * sourcekit-lsp supports the build servers with "textDocument/sourceKitOptions" since Swift 6.1
+ */
+export async function isBuildServerSupported(): Promise<boolean> {
+  try {
+    const version = await getSwiftVersionInstalled();
+    return version.major > 6 || (version.major === 6 && version.minor >= 1);
+  } catch (error) {
+    // Without the toolchain sourcekit-lsp won't start anyway, the config is written for the later use
+    console.debug("Failed to get the Swift version", { error: error });
+    return true;
+  }
+}
+
+/**
+ * Command that sourcekit-lsp runs to start the build server: "sweetpad bsp" of the same CLI. The
+ * extension and the CLI are bundled to the same directory, and the extension host is Electron, which
+ * can run the CLI as Node.js only with ELECTRON_RUN_AS_NODE.
+ */
+export async function getBuildServerArgv(workspacePath: string): Promise<string[]> {
+  const args = ["bsp", "--workspace-root", workspacePath];
+  if (process.versions.electron) {
+    return ["/usr/bin/env", "ELECTRON_RUN_AS_NODE=1", process.execPath, path.join(__dirname, "cli.js"), ...args];
+  }
+  // Standalone CLI binary has no script to pass
+  const scriptPath = process.argv[1];
+  if (scriptPath && (await isFileExists(scriptPath))) {
+    return [process.execPath, scriptPath, ...args];
+  }
+  return [process.execPath, ...args];
+}
+
+export async function writeBuildServerConfig(options: {
+  workspacePath: string;
+  storagePath: string;
+  xcworkspace: string;
+  scheme: string;
+  build?: BuildServerBuildOptions;
+}): Promise<void> {
+  const config: SweetpadBuildServerConfig = {
+    name: BUILD_SERVER_NAME,
+    version: BUILD_SERVER_VERSION,
+    bspVersion: BSP_VERSION,
+    languages: BUILD_SERVER_LANGUAGES,
+    argv: await getBuildServerArgv(options.workspacePath),
+    workspace: options.xcworkspace,
+    scheme: options.scheme,
+    storagePath: options.storagePath,
+    build: options.build,
+  };
+  await fs.writeFile(getBuildServerConfigPath(options.workspacePath), JSON.stringify(config, null, 2), "utf-8");
+}
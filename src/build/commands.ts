@@ -10,20 +10,45 @@ import {
   getIsXcodeBuildServerInstalled,
 } from "../common/cli/scripts";
 import type { ExtensionContext } from "../common/commands";
-import { getWorkspaceConfig, updateWorkspaceConfig } from "../common/config";
+import { getScopedWorkspaceConfig, getWorkspaceConfig, updateWorkspaceConfig } from "../common/config";
 import { ExecBaseError, ExtensionError } from "../common/errors";
 import { exec } from "../common/exec";
 import { getWorkspaceRelativePath, isFileExists, removeDirectory } from "../common/files";
-import { showInputBox } from "../common/quick-pick";
-import { runTask } from "../common/tasks";
+import { showInputBox, showQuickPick } from "../common/quick-pick";
+import { type TaskTerminal, runTask } from "../common/tasks";
 import { assertUnreachable } from "../common/types";
+import type { Destination } from "../destination/types";
+import { type ArchiveHistoryEntry, archiveAndExport, readArchiveHistory } from "./archive";
+import { getCompileCommandsPath, parseClangCompileCommands, readBuildLogs, updateCompileCommands } from "./build-log";
+import {
+  getBuildServerConfigPath,
+  isBuildServerSupported,
+  readBuildServerConfig,
+  writeBuildServerConfig,
+} from "./build-server";
 import { DEFAULT_BUILD_PROBLEM_MATCHERS } from "./constants";
-import { buildApp, getXcodeBuildDestinationString, runOnMac, runOniOSDevice, runOniOSSimulator } from "./runner";
+import { DryRunTaskTerminal, createDryRunRuntime } from "./dry-run";
+import type { BuildHistoryAction, BuildHistoryEntry, BuildInvocation } from "./history";
+import type { BuildHistoryTreeItem } from "./history-tree";
+import {
+  buildApp,
+  buildTarget,
+  getXcodeArchiveDestinationString,
+  getXcodeBuildDestinationString,
+  runOnMac,
+  runOniOSDevice,
+  runOniOSSimulator,
+} from "./runner";
 import { createExtensionBuildRuntimeContext } from "./runtime";
+import { type BuildTimingRun, buildWithTiming, readBuildTimingRuns } from "./timing";
+import { BuildTimingPanel } from "./timing-panel";
+import { typecheckFile } from "./typecheck";
 import {
   askConfiguration,
   askDestinationToRunOn,
+  askExportOptions,
   askSchemeForBuild,
+  askTargetForFile,
   askXcodeWorkspacePath,
   detectXcodeWorkspacesPaths,
   getCurrentXcodeWorkspacePath,
@@ -33,6 +58,111 @@ import {
   selectXcodeWorkspace,
 } from "./utils";
 
+const BUILD_TASK_NAMES: Record<BuildHistoryAction, string> = {
+  build: "Build",
+  launch: "Launch",
+  run: "Run",
+  clean: "Clean",
+  test: "Test",
+};
+
+/**
+ * Run the build, launch, run, clean or test task with the already resolved parameters and save it to
+ * the build history. It's shared by the commands and the "Re-run" action of the history entry.
+ */
+async function runBuildInvocation(
+  context: ExtensionContext,
+  options: { invocation: BuildInvocation; destination: Destination },
+) {
+  const { invocation, destination } = options;
+  const { scheme, configuration, xcworkspace, launchArgs, launchEnv, debug } = invocation;
+
+  const runtime = await createExtensionBuildRuntimeContext(context, {
+    configScope: { scheme: scheme, configuration: configuration, destinationType: destination.type },
+  });
+  const destinationRaw = getXcodeBuildDestinationString(runtime, { destination: destination });
+  const sdk = destination.platform;
+
+  const launch = async (terminal: TaskTerminal) => {
+    if (destination.type === "macOS") {
+      await runOnMac(runtime, terminal, {
+        scheme: scheme,
+        xcworkspace: xcworkspace,
+        configuration: configuration,
+        watchMarker: false,
+        launchArgs: launchArgs,
+        launchEnv: launchEnv,
+      });
+    } else if (
+      destination.type === "iOSSimulator" ||
+      destination.type === "watchOSSimulator" ||
+      destination.type === "tvOSSimulator" ||
+      destination.type === "visionOSSimulator"
+    ) {
+      await runOniOSSimulator(runtime, terminal, {
+        scheme: scheme,
+        destination: destination,
+        sdk: sdk,
+        configuration: configuration,
+        xcworkspace: xcworkspace,
+        watchMarker: false,
+        launchArgs: launchArgs,
+        launchEnv: launchEnv,
+        debug: debug,
+      });
+    } else if (
+      destination.type === "iOSDevice" ||
+      destination.type === "watchOSDevice" ||
+      destination.type === "tvOSDevice" ||
+      destination.type === "visionOSDevice"
+    ) {
+      await runOniOSDevice(runtime, terminal, {
+        scheme: scheme,
+        destination: destination,
+        sdk: sdk,
+        configuration: configuration,
+        xcworkspace: xcworkspace,
+        watchMarker: false,
+        launchArgs: launchArgs,
+        launchEnv: launchEnv,
+      });
+    } else {
+      assertUnreachable(destination);
+    }
+  };
+
+  const name = invocation.action === "launch" && debug ? "Debug" : BUILD_TASK_NAMES[invocation.action];
+  await runTask(context, {
+    name: name,
+    lock: "sweetpad.build",
+    terminateLocked: true,
+    problemMatchers: DEFAULT_BUILD_PROBLEM_MATCHERS,
+    callback: async (taskTerminal) => {
+      await context.buildHistoryManager.track(invocation, taskTerminal, async (terminal) => {
+        if (invocation.action === "run") {
+          await launch(terminal);
+          return;
+        }
+
+        await buildApp(runtime, terminal, {
+          scheme: scheme,
+          sdk: sdk,
+          configuration: configuration,
+          shouldBuild: invocation.action === "build" || invocation.action === "launch",
+          shouldClean: invocation.action === "clean",
+          shouldTest: invocation.action === "test",
+          xcworkspace: xcworkspace,
+          destinationRaw: destinationRaw,
+          debug: debug,
+        });
+        if (invocation.action === "launch") {
+          await launch(terminal);
+        }
+      });
+    },
+  });
+}
+
 /**
  * Build app without running
  */
@@ -74,30 +204,189 @@ async function commonBuildCommand(
     sdk: undefined,
     xcworkspace: xcworkspace,
   });
-  const runtime = await createExtensionBuildRuntimeContext(context);
-  const destinationRaw = getXcodeBuildDestinationString(runtime, { destination: destination });
 
-  const sdk = destination.platform;
+  await runBuildInvocation(context, {
+    invocation: {
+      action: "build",
+      debug: options.debug,
+      scheme: scheme,
+      configuration: configuration,
+      xcworkspace: xcworkspace,
+      destination: { id: destination.id, type: destination.type, name: destination.name },
+      launchArgs: [],
+      launchEnv: {},
+    },
+    destination: destination,
+  });
+}
+
+/**
+ * Build only the target that compiles the file of the active editor. If there is a scheme with the
+ * same name as the target, it's built with the scheme, otherwise with "xcodebuild -target"
+ */
+export async function buildCurrentTargetCommand(context: ExtensionContext) {
+  const filePath = vscode.window.activeTextEditor?.document.uri.fsPath;
+  if (!filePath) {
+    throw new ExtensionError("Open the file to build its target");
+  }
+
+  context.updateProgressStatus("Searching for workspace");
+  const xcworkspace = await askXcodeWorkspacePath(context);
+
+  const { target, project } = await askTargetForFile(context, { xcworkspace: xcworkspace, filePath: filePath });
+
+  context.updateProgressStatus("Searching for scheme");
+  const schemes = await context.buildManager.getSchemes();
+  const scheme = schemes.find((scheme) => scheme.name === target)?.name;
+
+  context.updateProgressStatus("Searching for configuration");
+  const configuration = await askConfiguration(context, { xcworkspace: xcworkspace });
 
+  context.updateProgressStatus("Searching for destination");
+  const destination = await askDestinationToRunOn(context, {
+    scheme: scheme,
+    configuration: configuration,
+    sdk: undefined,
+    xcworkspace: xcworkspace,
+  });
+
+  if (scheme) {
+    await runBuildInvocation(context, {
+      invocation: {
+        action: "build",
+        debug: false,
+        scheme: scheme,
+        configuration: configuration,
+        xcworkspace: xcworkspace,
+        destination: { id: destination.id, type: destination.type, name: destination.name },
+        launchArgs: [],
+        launchEnv: {},
+      },
+      destination: destination,
+    });
+    return;
+  }
+
+  const runtime = await createExtensionBuildRuntimeContext(context, {
+    configScope: { configuration: configuration, destinationType: destination.type },
+  });
   await runTask(context, {
-    name: "Build",
+    name: "Build target",
     lock: "sweetpad.build",
     terminateLocked: true,
     problemMatchers: DEFAULT_BUILD_PROBLEM_MATCHERS,
     callback: async (terminal) => {
-      await buildApp(runtime, terminal, {
+      await buildTarget(runtime, terminal, {
+        target: target,
+        project: project,
+        sdk: destination.platform,
+        configuration: configuration,
+      });
+    },
+  });
+}
+
+/**
+ * Type check the module of the active file with the compiler invocation from the last build. It's
+ * much faster than the build, and the errors are shown in the "Problems" panel the same way
+ */
+export async function typecheckCurrentFileCommand(context: ExtensionContext) {
+  const document = vscode.window.activeTextEditor?.document;
+  if (!document || !document.uri.fsPath.endsWith(".swift")) {
+    throw new ExtensionError("Open the Swift file to type check it");
+  }
+  // The compiler reads the file from the disk
+  if (document.isDirty) {
+    await document.save();
+  }
+
+  const filePath = document.uri.fsPath;
+  const storagePath = await prepareStoragePath(context);
+  context.updateProgressStatus(`Type checking "${path.basename(filePath)}"`);
+  const result = await typecheckFile({
+    storagePath: storagePath,
+    workspacePath: getWorkspacePath(),
+    filePath: filePath,
+  });
+  if (!result) {
+    vscode.window
+      .showWarningMessage(
+        "The module of the file has not been built yet, build it once to type check the file without the build",
+        "Build current target",
+      )
+      .then((selected) => {
+        if (selected === "Build current target") {
+          void vscode.commands.executeCommand("sweetpad.build.buildCurrentTarget");
+        }
+      });
+    return;
+  }
+
+  context.buildManager.setTypecheckDiagnostics(result.files, result.diagnostics);
+  const errors = result.diagnostics.filter((diagnostic) => diagnostic.severity === "error").length;
+  const warnings = result.diagnostics.filter((diagnostic) => diagnostic.severity === "warning").length;
+  vscode.window.setStatusBarMessage(
+    `SweetPad: "${result.module}" type checked in ${result.duration.toFixed(1)}s, ${errors} errors, ${warnings} warnings`,
+    5000,
+  );
+}
+
+/**
+ * Build the app with the timing summary and show the slowest targets, files and functions
+ */
+export async function buildWithTimingCommand(context: ExtensionContext, item?: BuildTreeItem) {
+  context.updateProgressStatus("Searching for workspace");
+  const xcworkspace = await askXcodeWorkspacePath(context);
+
+  context.updateProgressStatus("Searching for scheme");
+  const scheme =
+    item?.scheme ?? (await askSchemeForBuild(context, { title: "Select scheme to build", xcworkspace: xcworkspace }));
+
+  context.updateProgressStatus("Searching for configuration");
+  const configuration = await askConfiguration(context, { xcworkspace: xcworkspace });
+
+  context.updateProgressStatus("Searching for destination");
+  const destination = await askDestinationToRunOn(context, {
+    scheme: scheme,
+    configuration: configuration,
+    sdk: undefined,
+    xcworkspace: xcworkspace,
+  });
+  const runtime = await createExtensionBuildRuntimeContext(context, {
+    configScope: { scheme: scheme, configuration: configuration, destinationType: destination.type },
+  });
+  const destinationRaw = getXcodeBuildDestinationString(runtime, { destination: destination });
+
+  let run: BuildTimingRun | null = null;
+  await runTask(context, {
+    name: "Build with timing",
+    lock: "sweetpad.build",
+    terminateLocked: true,
+    problemMatchers: DEFAULT_BUILD_PROBLEM_MATCHERS,
+    callback: async (terminal) => {
+      run = await buildWithTiming(runtime, terminal, {
         scheme: scheme,
-        sdk: sdk,
+        sdk: destination.platform,
         configuration: configuration,
-        shouldBuild: true,
-        shouldClean: false,
-        shouldTest: false,
         xcworkspace: xcworkspace,
         destinationRaw: destinationRaw,
-        debug: options.debug,
       });
     },
   });
+  if (!run) {
+    return;
+  }
+
+  BuildTimingPanel.show(await readBuildTimingRuns(runtime.storagePath));
+}
+
+export async function showBuildTimingCommand(context: ExtensionContext) {
+  const storagePath = await prepareStoragePath(context);
+  const runs = await readBuildTimingRuns(storagePath);
+  if (runs.length === 0) {
+    throw new ExtensionError('No build timing yet. Use "SweetPad: Build with timing report" to collect it');
+  }
+  BuildTimingPanel.show(runs);
 }
 
 /**
@@ -142,79 +431,122 @@ async function commonLaunchCommand(
     xcworkspace: xcworkspace,
   });
 
-  const runtime = await createExtensionBuildRuntimeContext(context);
+  const configScope = { scheme: scheme, configuration: configuration, destinationType: destination.type };
+  const launchArgs = getScopedWorkspaceConfig("build.launchArgs", configScope) ?? [];
+  const launchEnv = getScopedWorkspaceConfig("build.launchEnv", configScope) ?? {};
+
+  await runBuildInvocation(context, {
+    invocation: {
+      action: "launch",
+      debug: options.debug,
+      scheme: scheme,
+      configuration: configuration,
+      xcworkspace: xcworkspace,
+      destination: { id: destination.id, type: destination.type, name: destination.name },
+      launchArgs: launchArgs,
+      launchEnv: launchEnv,
+    },
+    destination: destination,
+  });
+}
+
+/**
+ * Show the commands that "Build & Run" would execute, as a shell script that can be copied to the
+ * terminal or CI. Nothing is built or launched, only the same resolution pipeline is used.
+ */
+export async function showResolvedBuildCommand(context: ExtensionContext, item?: BuildTreeItem) {
+  context.updateProgressStatus("Searching for workspace");
+  const xcworkspace = await askXcodeWorkspacePath(context);
+
+  context.updateProgressStatus("Searching for scheme");
+  const scheme =
+    item?.scheme ?? (await askSchemeForBuild(context, { title: "Select scheme to resolve", xcworkspace: xcworkspace }));
+
+  context.updateProgressStatus("Searching for configuration");
+  const configuration = await askConfiguration(context, { xcworkspace: xcworkspace });
+
+  context.updateProgressStatus("Searching for destination");
+  const destination = await askDestinationToRunOn(context, {
+    scheme: scheme,
+    configuration: configuration,
+    sdk: undefined,
+    xcworkspace: xcworkspace,
+  });
+
+  const terminal = new DryRunTaskTerminal();
+  const configScope = { scheme: scheme, configuration: configuration, destinationType: destination.type };
+  const runtime = createDryRunRuntime(await createExtensionBuildRuntimeContext(context, { configScope }), terminal);
   const destinationRaw = getXcodeBuildDestinationString(runtime, { destination: destination });
 
   const sdk = destination.platform;
 
-  const launchArgs = getWorkspaceConfig("build.launchArgs") ?? [];
-  const launchEnv = getWorkspaceConfig("build.launchEnv") ?? {};
+  const launchArgs = runtime.getConfigOrDefault<string[]>("build.launchArgs", []);
+  const launchEnv = runtime.getConfigOrDefault<Record<string, string>>("build.launchEnv", {});
 
-  await runTask(context, {
-    name: options.debug ? "Debug" : "Launch",
-    lock: "sweetpad.build",
-    terminateLocked: true,
-    problemMatchers: DEFAULT_BUILD_PROBLEM_MATCHERS,
-    callback: async (terminal) => {
-      await buildApp(runtime, terminal, {
-        scheme: scheme,
-        sdk: sdk,
-        configuration: configuration,
-        shouldBuild: true,
-        shouldClean: false,
-        shouldTest: false,
-        xcworkspace: xcworkspace,
-        destinationRaw: destinationRaw,
-        debug: options.debug,
-      });
+  context.updateProgressStatus("Resolving build command");
+  await buildApp(runtime, terminal, {
+    scheme: scheme,
+    sdk: sdk,
+    configuration: configuration,
+    shouldBuild: true,
+    shouldClean: false,
+    shouldTest: false,
+    xcworkspace: xcworkspace,
+    destinationRaw: destinationRaw,
+    debug: false,
+  });
 
-      if (destination.type === "macOS") {
-        await runOnMac(runtime, terminal, {
-          scheme: scheme,
-          xcworkspace: xcworkspace,
-          configuration: configuration,
-          watchMarker: false,
-          launchArgs: launchArgs,
-          launchEnv: launchEnv,
-        });
-      } else if (
-        destination.type === "iOSSimulator" ||
-        destination.type === "watchOSSimulator" ||
-        destination.type === "tvOSSimulator" ||
-        destination.type === "visionOSSimulator"
-      ) {
-        await runOniOSSimulator(runtime, terminal, {
-          scheme: scheme,
-          destination: destination,
-          sdk: sdk,
-          configuration: configuration,
-          xcworkspace: xcworkspace,
-          watchMarker: false,
-          launchArgs: launchArgs,
-          launchEnv: launchEnv,
-          debug: options.debug,
-        });
-      } else if (
-        destination.type === "iOSDevice" ||
-        destination.type === "watchOSDevice" ||
-        destination.type === "tvOSDevice" ||
-        destination.type === "visionOSDevice"
-      ) {
-        await runOniOSDevice(runtime, terminal, {
-          scheme: scheme,
-          destination: destination,
-          sdk: sdk,
-          configuration: configuration,
-          xcworkspace: xcworkspace,
-          watchMarker: false,
-          launchArgs: launchArgs,
-          launchEnv: launchEnv,
-        });
-      } else {
-        assertUnreachable(destination);
-      }
-    },
+  if (destination.type === "macOS") {
+    await runOnMac(runtime, terminal, {
+      scheme: scheme,
+      xcworkspace: xcworkspace,
+      configuration: configuration,
+      watchMarker: false,
+      launchArgs: launchArgs,
+      launchEnv: launchEnv,
+    });
+  } else if (
+    destination.type === "iOSSimulator" ||
+    destination.type === "watchOSSimulator" ||
+    destination.type === "tvOSSimulator" ||
+    destination.type === "visionOSSimulator"
+  ) {
+    await runOniOSSimulator(runtime, terminal, {
+      scheme: scheme,
+      destination: destination,
+      sdk: sdk,
+      configuration: configuration,
+      xcworkspace: xcworkspace,
+      watchMarker: false,
+      launchArgs: launchArgs,
+      launchEnv: launchEnv,
+      debug: false,
+    });
+  } else if (
+    destination.type === "iOSDevice" ||
+    destination.type === "watchOSDevice" ||
+    destination.type === "tvOSDevice" ||
+    destination.type === "visionOSDevice"
+  ) {
+    await runOniOSDevice(runtime, terminal, {
+      scheme: scheme,
+      destination: destination,
+      sdk: sdk,
+      configuration: configuration,
+      xcworkspace: xcworkspace,
+      watchMarker: false,
+      launchArgs: launchArgs,
+      launchEnv: launchEnv,
+    });
+  } else {
+    assertUnreachable(destination);
+  }
+
+  const document = await vscode.workspace.openTextDocument({
+    content: terminal.getScript(),
+    language: "shellscript",
   });
+  await vscode.window.showTextDocument(document);
 }
 
 /**
@@ -260,65 +592,22 @@ async function commonRunCommand(
     xcworkspace: xcworkspace,
   });
 
-  const sdk = destination.platform;
-
-  const launchArgs = getWorkspaceConfig("build.launchArgs") ?? [];
-  const launchEnv = getWorkspaceConfig("build.launchEnv") ?? {};
+  const configScope = { scheme: scheme, configuration: configuration, destinationType: destination.type };
+  const launchArgs = getScopedWorkspaceConfig("build.launchArgs", configScope) ?? [];
+  const launchEnv = getScopedWorkspaceConfig("build.launchEnv", configScope) ?? {};
 
-  const runtime = await createExtensionBuildRuntimeContext(context);
-
-  await runTask(context, {
-    name: "Run",
-    lock: "sweetpad.build",
-    terminateLocked: true,
-    problemMatchers: DEFAULT_BUILD_PROBLEM_MATCHERS,
-    callback: async (terminal) => {
-      if (destination.type === "macOS") {
-        await runOnMac(runtime, terminal, {
-          scheme: scheme,
-          xcworkspace: xcworkspace,
-          configuration: configuration,
-          watchMarker: false,
-          launchArgs: launchArgs,
-          launchEnv: launchEnv,
-        });
-      } else if (
-        destination.type === "iOSSimulator" ||
-        destination.type === "watchOSSimulator" ||
-        destination.type === "visionOSSimulator" ||
-        destination.type === "tvOSSimulator"
-      ) {
-        await runOniOSSimulator(runtime, terminal, {
-          scheme: scheme,
-          destination: destination,
-          sdk: sdk,
-          configuration: configuration,
-          xcworkspace: xcworkspace,
-          watchMarker: false,
-          launchArgs: launchArgs,
-          launchEnv: launchEnv,
-          debug: options.debug,
-        });
-      } else if (
-        destination.type === "iOSDevice" ||
-        destination.type === "watchOSDevice" ||
-        destination.type === "tvOSDevice" ||
-        destination.type === "visionOSDevice"
-      ) {
-        await runOniOSDevice(runtime, terminal, {
-          scheme: scheme,
-          destination: destination,
-          sdk: sdk,
-          configuration: configuration,
-          xcworkspace: xcworkspace,
-          watchMarker: false,
-          launchArgs: launchArgs,
-          launchEnv: launchEnv,
-        });
-      } else {
-        assertUnreachable(destination);
-      }
+  await runBuildInvocation(context, {
+    invocation: {
+      action: "run",
+      debug: options.debug,
+      scheme: scheme,
+      configuration: configuration,
+      xcworkspace: xcworkspace,
+      destination: { id: destination.id, type: destination.type, name: destination.name },
+      launchArgs: launchArgs,
+      launchEnv: launchEnv,
     },
+    destination: destination,
   });
 }
 
@@ -343,29 +632,19 @@ export async function cleanCommand(context: ExtensionContext, item?: BuildTreeIt
     sdk: undefined,
     xcworkspace: xcworkspace,
   });
-  const runtime = await createExtensionBuildRuntimeContext(context);
-  const destinationRaw = getXcodeBuildDestinationString(runtime, { destination: destination });
 
-  const sdk = destination.platform;
-
-  await runTask(context, {
-    name: "Clean",
-    lock: "sweetpad.build",
-    terminateLocked: true,
-    problemMatchers: DEFAULT_BUILD_PROBLEM_MATCHERS,
-    callback: async (terminal) => {
-      await buildApp(runtime, terminal, {
-        scheme: scheme,
-        sdk: sdk,
-        configuration: configuration,
-        shouldBuild: false,
-        shouldClean: true,
-        shouldTest: false,
-        xcworkspace: xcworkspace,
-        destinationRaw: destinationRaw,
-        debug: false,
-      });
+  await runBuildInvocation(context, {
+    invocation: {
+      action: "clean",
+      debug: false,
+      scheme: scheme,
+      configuration: configuration,
+      xcworkspace: xcworkspace,
+      destination: { id: destination.id, type: destination.type, name: destination.name },
+      launchArgs: [],
+      launchEnv: {},
     },
+    destination: destination,
   });
 }
 
@@ -387,30 +666,176 @@ export async function testCommand(context: ExtensionContext, item?: BuildTreeIte
     sdk: undefined,
     xcworkspace: xcworkspace,
   });
-  const runtime = await createExtensionBuildRuntimeContext(context);
-  const destinationRaw = getXcodeBuildDestinationString(runtime, { destination: destination });
 
-  const sdk = destination.platform;
+  await runBuildInvocation(context, {
+    invocation: {
+      action: "test",
+      debug: false,
+      scheme: scheme,
+      configuration: configuration,
+      xcworkspace: xcworkspace,
+      destination: { id: destination.id, type: destination.type, name: destination.name },
+      launchArgs: [],
+      launchEnv: {},
+    },
+    destination: destination,
+  });
+}
 
+/**
+ * Archive the app and export it with ExportOptions.plist (.ipa for iOS, .pkg or .app for macOS)
+ */
+export async function archiveCommand(context: ExtensionContext, item?: BuildTreeItem) {
+  context.updateProgressStatus("Searching for workspace");
+  const xcworkspace = await askXcodeWorkspacePath(context);
+
+  context.updateProgressStatus("Searching for scheme");
+  const scheme =
+    item?.scheme ?? (await askSchemeForBuild(context, { title: "Select scheme to archive", xcworkspace: xcworkspace }));
+
+  context.updateProgressStatus("Searching for configuration");
+  const configuration = await askConfiguration(context, { xcworkspace: xcworkspace });
+
+  // Only the platform of the destination is used, archives are built for the generic device
+  context.updateProgressStatus("Searching for destination");
+  const destination = await askDestinationToRunOn(context, {
+    scheme: scheme,
+    configuration: configuration,
+    sdk: undefined,
+    xcworkspace: xcworkspace,
+  });
+  const destinationRaw = getXcodeArchiveDestinationString({ destination: destination });
+
+  const exportOptions = await askExportOptions(context, {
+    scheme: scheme,
+    configuration: configuration,
+    sdk: destination.platform,
+    xcworkspace: xcworkspace,
+  });
+
+  const runtime = await createExtensionBuildRuntimeContext(context, {
+    configScope: { scheme: scheme, configuration: configuration, destinationType: destination.type },
+  });
+
+  let entry: ArchiveHistoryEntry | undefined;
   await runTask(context, {
-    name: "Test",
+    name: "Archive",
     lock: "sweetpad.build",
     terminateLocked: true,
     problemMatchers: DEFAULT_BUILD_PROBLEM_MATCHERS,
     callback: async (terminal) => {
-      await buildApp(runtime, terminal, {
+      entry = await archiveAndExport(runtime, terminal, {
         scheme: scheme,
-        sdk: sdk,
         configuration: configuration,
-        shouldBuild: false,
-        shouldClean: false,
-        shouldTest: true,
         xcworkspace: xcworkspace,
         destinationRaw: destinationRaw,
-        debug: false,
+        exportOptions: exportOptions,
       });
     },
   });
+  if (!entry) {
+    return;
+  }
+
+  const revealPath = entry.artifactPaths[0] ?? entry.archivePath;
+  vscode.window.showInformationMessage(`Archive is ready: ${revealPath}`, "Reveal in Finder").then((selected) => {
+    if (selected === "Reveal in Finder") {
+      void exec({ command: "open", args: ["-R", revealPath] });
+    }
+  });
+}
+
+/**
+ * Repeat the build from the history with the same scheme, configuration, destination and launch
+ * arguments, without asking anything
+ */
+export async function rerunBuildHistoryEntryCommand(context: ExtensionContext, item?: BuildHistoryTreeItem) {
+  const entry = item?.entry ?? (await askBuildHistoryEntry(context));
+
+  context.updateProgressStatus("Searching for destination");
+  const destination = await context.destinationsManager.findDestination({
+    destinationId: entry.destination.id,
+    type: entry.destination.type,
+  });
+  if (!destination) {
+    throw new ExtensionError(`Destination "${entry.destination.name}" is not available anymore`);
+  }
+
+  await runBuildInvocation(context, {
+    invocation: {
+      action: entry.action,
+      debug: entry.debug,
+      scheme: entry.scheme,
+      configuration: entry.configuration,
+      xcworkspace: entry.xcworkspace,
+      destination: entry.destination,
+      launchArgs: entry.launchArgs,
+      launchEnv: entry.launchEnv,
+    },
+    destination: destination,
+  });
+}
+
+export async function openBuildHistoryLogCommand(context: ExtensionContext, item?: BuildHistoryTreeItem) {
+  const entry = item?.entry ?? (await askBuildHistoryEntry(context));
+  if (!(await isFileExists(entry.logPath))) {
+    throw new ExtensionError("The log of this build is not available anymore");
+  }
+  const document = await vscode.workspace.openTextDocument(vscode.Uri.file(entry.logPath));
+  await vscode.window.showTextDocument(document);
+}
+
+export async function copyBuildHistoryCommandCommand(context: ExtensionContext, item?: BuildHistoryTreeItem) {
+  const entry = item?.entry ?? (await askBuildHistoryEntry(context));
+  if (entry.commands.length === 0) {
+    throw new ExtensionError("No commands were executed in this build");
+  }
+  await vscode.env.clipboard.writeText(entry.commands.join("\n"));
+  vscode.window.showInformationMessage("Command copied to the clipboard");
+}
+
+export async function clearBuildHistoryCommand(context: ExtensionContext) {
+  context.buildHistoryManager.clear();
+}
+
+async function askBuildHistoryEntry(context: ExtensionContext): Promise<BuildHistoryEntry> {
+  const entries = context.buildHistoryManager.getEntries().filter((entry) => entry.status !== "running");
+  if (entries.length === 0) {
+    throw new ExtensionError("The build history is empty");
+  }
+  const selected = await showQuickPick({
+    title: "Select build",
+    items: entries.map((entry) => ({
+      label: `${BUILD_TASK_NAMES[entry.action]} ${entry.scheme}`,
+      description: `${entry.status}, ${new Date(entry.startedAt).toLocaleString()}`,
+      detail: `${entry.configuration}, ${entry.destination.name}`,
+      context: entry,
+    })),
+  });
+  return selected.context;
+}
+
+/**
+ * Show previous archives and reveal the selected one in Finder
+ */
+export async function showArchiveHistoryCommand(context: ExtensionContext) {
+  const storagePath = await prepareStoragePath(context);
+  const history = await readArchiveHistory(storagePath);
+  if (history.length === 0) {
+    throw new ExtensionError('No archives yet. Use "SweetPad: Archive and export" to create one');
+  }
+
+  const selected = await showQuickPick({
+    title: "Select archive to reveal in Finder",
+    items: history.map((entry) => ({
+      label: `${entry.scheme} (${entry.configuration})`,
+      description: new Date(entry.createdAt).toLocaleString(),
+      detail: entry.artifactPaths.length > 0 ? entry.artifactPaths.join(", ") : entry.archivePath,
+      context: entry,
+    })),
+  });
+
+  await exec({ command: "open", args: ["-R", selected.context.artifactPaths[0] ?? selected.context.archivePath] });
 }
 
 export async function resolveDependencies(
@@ -471,16 +896,19 @@ export async function removeBundleDirCommand(context: ExtensionContext) {
 }
 
 /**
- * Generate buildServer.json in the workspace root for xcode-build-server —
- * a tool that enable LSP server to see packages from the Xcode project.
+ * Generate buildServer.json in the workspace root for the built-in build server or xcode-build-server —
+ * they enable LSP server to see packages from the Xcode project.
  */
 export async function generateBuildServerConfigCommand(context: ExtensionContext, item?: BuildTreeItem) {
   context.updateProgressStatus("Starting buildServer.json generation");
 
+  const provider = getWorkspaceConfig("xcodebuildserver.provider") ?? "sweetpad";
   const xcodebuildServerPath = getWorkspaceConfig("xcodebuildserver.path");
-  const isServerInstalled = await getIsXcodeBuildServerInstalled({ xcodebuildServerPath });
-  if (!isServerInstalled) {
-    throw new ExtensionError("xcode-build-server is not installed");
+  if (provider === "xcode-build-server") {
+    const isServerInstalled = await getIsXcodeBuildServerInstalled({ xcodebuildServerPath });
+    if (!isServerInstalled) {
+      throw new ExtensionError("xcode-build-server is not installed");
+    }
   }
 
   context.updateProgressStatus("Searching for workspace");
@@ -495,22 +923,65 @@ export async function generateBuildServerConfigCommand(context: ExtensionContext
     }));
 
   context.updateProgressStatus("Generating buildServer.json");
-  await generateBuildServerConfig({
-    xcworkspace: xcworkspace,
-    scheme: scheme,
-    xcodebuildServerPath,
-  });
+  const workspacePath = getWorkspacePath();
+  if (provider === "sweetpad") {
+    if (!(await isBuildServerSupported())) {
+      vscode.window.showWarningMessage(
+        'The built-in build server requires sourcekit-lsp from Swift 6.1 or later. Set "sweetpad.xcodebuildserver.provider" to "xcode-build-server" to use the external tool instead.',
+      );
+    }
+    const config = await readBuildServerConfig(workspacePath);
+    await writeBuildServerConfig({
+      workspacePath: workspacePath,
+      storagePath: await prepareStoragePath(context),
+      xcworkspace: xcworkspace,
+      scheme: scheme,
+      // Without the build options the server can't build the targets until the app is built once
+      build: config?.scheme === scheme ? config.build : undefined,
+    });
+  } else {
+    await generateBuildServerConfig({
+      xcworkspace: xcworkspace,
+      scheme: scheme,
+      xcodebuildServerPath,
+    });
+  }
   await restartSwiftLSP();
 
   vscode.window.showInformationMessage("buildServer.json generated in workspace root", "Open").then((selected) => {
     if (selected === "Open") {
-      const workspacePath = getWorkspacePath();
-      const buildServerPath = vscode.Uri.file(path.join(workspacePath, "buildServer.json"));
-      vscode.commands.executeCommand("vscode.open", buildServerPath);
+      vscode.commands.executeCommand("vscode.open", vscode.Uri.file(getBuildServerConfigPath(workspacePath)));
     }
   });
 }
 
+/**
+ * Generate compile_commands.json in the workspace root from the clang invocations of the previous
+ * builds, so clangd can resolve the headers and modules of Objective-C and C++ files
+ */
+export async function generateCompileCommandsCommand(context: ExtensionContext) {
+  context.updateProgressStatus("Reading build logs");
+  const storagePath = await prepareStoragePath(context);
+  const logs = await readBuildLogs(storagePath);
+
+  context.updateProgressStatus("Generating compile_commands.json");
+  const workspacePath = getWorkspacePath();
+  const commands = await updateCompileCommands(workspacePath, logs.flatMap(parseClangCompileCommands));
+  if (commands.length === 0) {
+    throw new ExtensionError(
+      "No clang invocations found in the build logs, build the scheme with C-family sources first",
+    );
+  }
+
+  vscode.window
+    .showInformationMessage(`compile_commands.json generated in workspace root (${commands.length} files)`, "Open")
+    .then((selected) => {
+      if (selected === "Open") {
+        vscode.commands.executeCommand("vscode.open", vscode.Uri.file(getCompileCommandsPath(workspacePath)));
+      }
+    });
+}
+
 /**
  *
  * Open current project in Xcode
@@ -0,0 +1,74 @@
+import { quote } from "shell-quote";
+import type { CommandOptions, TaskTerminal } from "../common/tasks";
+import type { BuildRuntimeContext } from "./runner";
+
+/**
+ * Format the command the same way as the task terminal runs it: env variables, the command with
+ * quoted arguments and the pipes. Variables with null value are removed from the environment.
+ */
+export function formatShellCommand(options: CommandOptions): string {
+  const args = (options.args ?? []).filter((arg) => arg !== null) as string[];
+  // "env" expects the options before the assignments
+  const env = Object.entries(options.env ?? {});
+  const envArgs = [
+    ...env.filter(([, value]) => value === null).flatMap(([key]) => ["-u", key]),
+    ...env.filter(([, value]) => value !== null).map(([key, value]) => `${key}=${value}`),
+  ];
+  const prefix = envArgs.length > 0 ? `${quote(["env", ...envArgs])} ` : "";
+  const commands = [
+    `${prefix}${quote([options.command, ...args])}`,
+    ...(options.pipes ?? []).map((pipe) => quote([pipe.command, ...(pipe.args ?? [])])),
+  ];
+  // Subshell, so the next commands are still executed from the workspace root
+  if (options.cwd) {
+    return `(cd ${quote([options.cwd])} && ${commands.join(" | ")})`;
+  }
+  return commands.join(" | ");
+}
+
+/**
+ * Terminal that records the commands instead of running them, used to show what exactly
+ * SweetPad would execute for the build, run or test
+ */
+export class DryRunTaskTerminal implements TaskTerminal {
+  commands: CommandOptions[] = [];
+  private lines: string[] = [];
+
+  async execute(options: CommandOptions): Promise<void> {
+    this.commands.push(options);
+    this.lines.push(formatShellCommand(options));
+  }
+
+  write(): void {
+    // Messages like watch markers are not commands, so they are not the part of the script
+  }
+
+  comment(message: string): void {
+    this.lines.push("", `# ${message}`);
+  }
+
+  /**
+   * Copy-pasteable script. "pipefail" is needed for the xcbeautify pipe, otherwise build errors
+   * are hidden by the successful exit code of xcbeautify.
+   */
+  getScript(): string {
+    return ["#!/bin/bash", "set -euo pipefail", ...this.lines, ""].join("\n");
+  }
+}
+
+/**
+ * Runtime that doesn't change anything: the progress is written as comments to the script, and
+ * the callbacks with side effects (refreshing the simulators, restarting LSP, etc.) are dropped
+ */
+export function createDryRunRuntime(runtime: BuildRuntimeContext, terminal: DryRunTaskTerminal): BuildRuntimeContext {
+  return {
+    workspacePath: runtime.workspacePath,
+    storagePath: runtime.storagePath,
+    dryRun: true,
+    configScope: runtime.configScope,
+    updateProgressStatus: (message) => terminal.comment(message),
+    getConfig: (key) => runtime.getConfig(key),
+    getConfigOrDefault: (key, fallback) => runtime.getConfigOrDefault(key, fallback),
+    getSimulatorByUdid: (udid) => runtime.getSimulatorByUdid(udid),
+  };
+}
@@ -0,0 +1,130 @@
+import * as vscode from "vscode";
+import type { BuildHistoryEntry, BuildHistoryManager } from "./history";
+
+type EventData = BuildHistoryTreeItem | undefined | null | undefined;
+
+const ACTION_LABELS: Record<BuildHistoryEntry["action"], string> = {
+  build: "Build",
+  launch: "Launch",
+  run: "Run",
+  clean: "Clean",
+  test: "Test",
+};
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds.toFixed(1)}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${Math.round(seconds % 60)}s`;
+}
+
+function getEntryIcon(entry: BuildHistoryEntry): vscode.ThemeIcon {
+  switch (entry.status) {
+    case "running":
+      return new vscode.ThemeIcon("loading~spin");
+    case "succeeded":
+      return new vscode.ThemeIcon("pass", new vscode.ThemeColor("testing.iconPassed"));
+    case "failed":
+      return new vscode.ThemeIcon("error", new vscode.ThemeColor("testing.iconFailed"));
+  }
+}
+
+/**
+ * Build, run or test invocation at the root level of the "Build history" view
+ */
+export class BuildHistoryTreeItem extends vscode.TreeItem {
+  entry: BuildHistoryEntry;
+
+  constructor(options: { entry: BuildHistoryEntry }) {
+    const entry = options.entry;
+    const action = entry.debug ? `${ACTION_LABELS[entry.action]} (debug)` : ACTION_LABELS[entry.action];
+    super(`${action} ${entry.scheme}`, vscode.TreeItemCollapsibleState.Collapsed);
+    this.entry = entry;
+    this.id = entry.id;
+    this.iconPath = getEntryIcon(entry);
+
+    const startedAt = new Date(entry.startedAt).toLocaleTimeString();
+    const duration = entry.duration === null ? "running" : formatDuration(entry.duration);
+    this.description = `${duration} · ${startedAt}`;
+
+    // - build-history-entry-running
+    // - build-history-entry-succeeded
+    // - build-history-entry-failed
+    this.contextValue = `build-history-entry-${entry.status}`;
+
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendMarkdown(`**${action} ${entry.scheme}** (${entry.status})\n\n`);
+    tooltip.appendMarkdown(`Configuration: ${entry.configuration}  \nDestination: ${entry.destination.name}\n\n`);
+    if (entry.commands.length > 0) {
+      tooltip.appendCodeblock(entry.commands.join("\n"), "shellscript");
+    }
+    if (entry.excerpt.length > 0) {
+      tooltip.appendCodeblock(entry.excerpt.join("\n"), "log");
+    }
+    this.tooltip = tooltip;
+  }
+}
+
+/**
+ * Details of the invocation: parameters, commands and the log excerpt
+ */
+class BuildHistoryDetailTreeItem extends vscode.TreeItem {
+  constructor(options: { label: string; description?: string; icon: string; tooltip?: string }) {
+    super(options.label, vscode.TreeItemCollapsibleState.None);
+    this.description = options.description;
+    this.iconPath = new vscode.ThemeIcon(options.icon);
+    this.tooltip = options.tooltip;
+    this.contextValue = "build-history-detail";
+  }
+}
+
+export class BuildHistoryTreeProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+  private _onDidChangeTreeData = new vscode.EventEmitter<EventData>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+  private manager: BuildHistoryManager;
+
+  constructor(options: { manager: BuildHistoryManager }) {
+    this.manager = options.manager;
+    this.manager.on("updated", () => {
+      this._onDidChangeTreeData.fire(null);
+    });
+  }
+
+  async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
+    if (!element) {
+      return this.manager.getEntries().map((entry) => new BuildHistoryTreeItem({ entry: entry }));
+    }
+    if (element instanceof BuildHistoryTreeItem) {
+      return this.getDetails(element.entry);
+    }
+    return [];
+  }
+
+  async getTreeItem(element: vscode.TreeItem): Promise<vscode.TreeItem> {
+    return element;
+  }
+
+  private getDetails(entry: BuildHistoryEntry): vscode.TreeItem[] {
+    const items: vscode.TreeItem[] = [
+      new BuildHistoryDetailTreeItem({ label: "Configuration", description: entry.configuration, icon: "settings" }),
+      new BuildHistoryDetailTreeItem({
+        label: "Destination",
+        description: entry.destination.name,
+        icon: "device-mobile",
+      }),
+      new BuildHistoryDetailTreeItem({
+        label: "Started",
+        description: new Date(entry.startedAt).toLocaleString(),
+        icon: "clock",
+      }),
+    ];
+    for (const command of entry.commands) {
+      items.push(new BuildHistoryDetailTreeItem({ label: command, icon: "terminal", tooltip: command }));
+    }
+    for (const line of entry.excerpt) {
+      items.push(new BuildHistoryDetailTreeItem({ label: line.trim(), icon: "output", tooltip: line }));
+    }
+    return items;
+  }
+}
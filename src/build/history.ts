@@ -0,0 +1,243 @@
+import events from "node:events";
+import fs from "node:fs";
+import path from "node:path";
+import readline from "node:readline";
+import type { ExtensionContext } from "../common/commands";
+import { createDirectory } from "../common/files";
+import { commonLogger } from "../common/logger";
+import type { CommandOptions, TaskTerminal } from "../common/tasks";
+import type { DestinationType } from "../destination/types";
+import { formatShellCommand } from "./dry-run";
+
+export type BuildHistoryAction = "build" | "launch" | "run" | "clean" | "test";
+
+export type BuildHistoryStatus = "running" | "succeeded" | "failed";
+
+/**
+ * Everything needed to repeat the build exactly: the resolved scheme, configuration, destination
+ * and launch arguments, not the pickers
+ */
+export type BuildInvocation = {
+  action: BuildHistoryAction;
+  debug: boolean;
+  scheme: string;
+  configuration: string;
+  xcworkspace: string;
+  destination: { id: string; type: DestinationType; name: string };
+  launchArgs: string[];
+  launchEnv: { [key: string]: string };
+};
+
+export type BuildHistoryEntry = BuildInvocation & {
+  id: string;
+  status: BuildHistoryStatus;
+  startedAt: string;
+  duration: number | null;
+  // Commands as they would be typed in the shell, ex. "xcodebuild -scheme App ... | xcbeautify"
+  commands: string[];
+  logPath: string;
+  // Errors of the failed build or the last lines of the output
+  excerpt: string[];
+};
+
+type IEventMap = {
+  updated: [];
+};
+type IEventKey = keyof IEventMap;
+
+const MAX_ENTRIES = 50;
+const EXCERPT_LINES = 20;
+const ERROR_LINE_REGEXP = /\berror:|^❌/;
+
+/**
+ * Wraps the task terminal to save the executed commands and their output to the log file. The output
+ * is written to the log by the terminal itself, so it's recorded the same way by all task executors.
+ */
+class RecordingTaskTerminal implements TaskTerminal {
+  commands: string[] = [];
+  // Only the lines for the excerpt are kept in memory, the full output is in the log file
+  private errors: string[] = [];
+  private tail: string[] = [];
+  private terminal: TaskTerminal;
+  private logPath: string;
+
+  constructor(terminal: TaskTerminal, logPath: string) {
+    this.terminal = terminal;
+    this.logPath = logPath;
+  }
+
+  async open(): Promise<void> {
+    await fs.promises.writeFile(this.logPath, "", "utf-8");
+  }
+
+  async execute(options: CommandOptions): Promise<void> {
+    const command = formatShellCommand(options);
+    this.commands.push(command);
+    await fs.promises.appendFile(this.logPath, `$ ${command}\n`, "utf-8");
+    const { size: outputStart } = await fs.promises.stat(this.logPath);
+
+    try {
+      await this.terminal.execute({ ...options, outputLogPath: this.logPath });
+    } finally {
+      await this.readOutput(outputStart);
+    }
+  }
+
+  write(data: string, options?: Parameters<TaskTerminal["write"]>[1]): void {
+    this.terminal.write(data, options);
+  }
+
+  /**
+   * Collect the excerpt from the output of the last command, without loading the whole log to memory
+   */
+  private async readOutput(start: number): Promise<void> {
+    try {
+      const lines = readline.createInterface({
+        input: fs.createReadStream(this.logPath, { start: start, encoding: "utf-8" }),
+        crlfDelay: Number.POSITIVE_INFINITY,
+      });
+      for await (const line of lines) {
+        this.addLine(line);
+      }
+    } catch (error) {
+      commonLogger.error("Failed to read build log", { error: error, logPath: this.logPath });
+    }
+  }
+
+  private addLine(line: string): void {
+    if (!line.trim()) {
+      return;
+    }
+    if (ERROR_LINE_REGEXP.test(line) && this.errors.length < EXCERPT_LINES) {
+      this.errors.push(line);
+    }
+    this.tail.push(line);
+    if (this.tail.length > EXCERPT_LINES) {
+      this.tail.shift();
+    }
+  }
+
+  getExcerpt(status: BuildHistoryStatus): string[] {
+    if (status === "failed" && this.errors.length > 0) {
+      return this.errors;
+    }
+    return this.tail;
+  }
+}
+
+/**
+ * Remembers the build, run and test commands: which parameters were used, how long it took, whether
+ * it failed and the full output, so the same build can be repeated from the "Build history" view.
+ */
+export class BuildHistoryManager {
+  private emitter = new events.EventEmitter<IEventMap>();
+  // Running entries are kept only in memory, so the entry of the interrupted build is not stuck
+  // in the "running" state after the reload
+  private running = new Map<string, BuildHistoryEntry>();
+  public _context: ExtensionContext | undefined = undefined;
+
+  on<K extends IEventKey>(event: K, listener: (...args: IEventMap[K]) => void): void {
+    this.emitter.on(event, listener as any); // todo: fix this any
+  }
+
+  set context(context: ExtensionContext) {
+    this._context = context;
+  }
+
+  get context(): ExtensionContext {
+    if (!this._context) {
+      throw new Error("Context is not set");
+    }
+    return this._context;
+  }
+
+  getEntries(): BuildHistoryEntry[] {
+    const saved = this.context.getWorkspaceState("build.history") ?? [];
+    return [...this.running.values(), ...saved].sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  getEntry(id: string): BuildHistoryEntry | undefined {
+    return this.getEntries().find((entry) => entry.id === id);
+  }
+
+  private getLogsPath(): string | undefined {
+    const storagePath = this.context.storageUri?.fsPath;
+    return storagePath ? path.join(storagePath, "history") : undefined;
+  }
+
+  private saveEntry(entry: BuildHistoryEntry): void {
+    const entries = this.context.getWorkspaceState("build.history") ?? [];
+    const newEntries = [entry, ...entries];
+    this.context.updateWorkspaceState("build.history", newEntries.slice(0, MAX_ENTRIES));
+
+    for (const removed of newEntries.slice(MAX_ENTRIES)) {
+      fs.promises.rm(removed.logPath, { force: true }).catch((error) => {
+        commonLogger.error("Failed to remove build log", { error: error, logPath: removed.logPath });
+      });
+    }
+    this.emitter.emit("updated");
+  }
+
+  /**
+   * Run the callback with the terminal that records the commands and the output, and save the result
+   * to the history. The error of the callback is rethrown after the entry is saved.
+   */
+  async track(
+    invocation: BuildInvocation,
+    terminal: TaskTerminal,
+    callback: (terminal: TaskTerminal) => Promise<void>,
+  ): Promise<void> {
+    const logsPath = this.getLogsPath();
+    if (!logsPath) {
+      // No workspace is opened, nothing to attach the history to
+      await callback(terminal);
+      return;
+    }
+    await createDirectory(logsPath);
+
+    const startedAt = new Date();
+    const id = `${startedAt.getTime()}`;
+    const logPath = path.join(logsPath, `${id}.log`);
+    const recorder = new RecordingTaskTerminal(terminal, logPath);
+    await recorder.open();
+    const entry: BuildHistoryEntry = {
+      ...invocation,
+      id: id,
+      status: "running",
+      startedAt: startedAt.toISOString(),
+      duration: null,
+      commands: [],
+      logPath: logPath,
+      excerpt: [],
+    };
+    this.running.set(id, entry);
+    this.emitter.emit("updated");
+
+    const finish = async (status: BuildHistoryStatus) => {
+      this.running.delete(id);
+      this.saveEntry({
+        ...entry,
+        status: status,
+        duration: (Date.now() - startedAt.getTime()) / 1000,
+        commands: recorder.commands,
+        excerpt: recorder.getExcerpt(status),
+      });
+    };
+
+    try {
+      await callback(recorder);
+    } catch (error) {
+      await finish("failed");
+      throw error;
+    }
+    await finish("succeeded");
+  }
+
+  clear(): void {
+    for (const entry of this.context.getWorkspaceState("build.history") ?? []) {
+      fs.promises.rm(entry.logPath, { force: true }).catch(() => {});
+    }
+    this.context.updateWorkspaceState("build.history", undefined);
+    this.emitter.emit("updated");
+  }
+}
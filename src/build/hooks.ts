@@ -0,0 +1,101 @@
+import path from "node:path";
+import type { TaskTerminal } from "../common/tasks";
+import type { BuildRuntimeContext } from "./runner";
+
+export type BuildHookStage = "preBuild" | "postBuild" | "preLaunch" | "postLaunch";
+
+export type BuildHookCommand = {
+  command: string;
+  args?: string[];
+  env?: { [key: string]: string | null };
+  // Relative to the workspace root, the workspace root by default
+  cwd?: string;
+  // Don't stop the build when the command fails
+  continueOnFailure?: boolean;
+};
+
+/**
+ * Values exposed to the hook commands as SWEETPAD_* environment variables. The app path and the
+ * bundle id are known only after the build.
+ */
+export type BuildHookVariables = {
+  scheme: string;
+  configuration: string;
+  sdk: string;
+  xcworkspace: string;
+  destinationRaw?: string;
+  destinationId?: string;
+  destinationName?: string;
+  destinationType?: string;
+  appPath?: string;
+  bundleId?: string;
+};
+
+export function getBuildHooks(
+  runtime: Pick<BuildRuntimeContext, "getConfig" | "skipHooks">,
+  stage: BuildHookStage,
+): BuildHookCommand[] {
+  if (runtime.skipHooks) {
+    return [];
+  }
+  return runtime.getConfig<BuildHookCommand[]>(`build.hooks.${stage}`) ?? [];
+}
+
+function getBuildHookEnv(
+  runtime: BuildRuntimeContext,
+  stage: BuildHookStage,
+  variables: BuildHookVariables,
+): Record<string, string> {
+  const env: Record<string, string | undefined> = {
+    SWEETPAD_HOOK: stage,
+    SWEETPAD_WORKSPACE_PATH: runtime.workspacePath,
+    SWEETPAD_XCWORKSPACE: variables.xcworkspace,
+    SWEETPAD_SCHEME: variables.scheme,
+    SWEETPAD_CONFIGURATION: variables.configuration,
+    SWEETPAD_SDK: variables.sdk,
+    // "-destination" value, ex. "platform=iOS Simulator,id=..."
+    SWEETPAD_DESTINATION_RAW: variables.destinationRaw,
+    SWEETPAD_DESTINATION_ID: variables.destinationId,
+    SWEETPAD_DESTINATION_NAME: variables.destinationName,
+    SWEETPAD_DESTINATION_TYPE: variables.destinationType,
+    SWEETPAD_APP_PATH: variables.appPath,
+    SWEETPAD_BUNDLE_ID: variables.bundleId,
+  };
+  return Object.fromEntries(Object.entries(env).filter(([, value]) => value !== undefined)) as Record<string, string>;
+}
+
+/**
+ * Run the hook commands of the stage one by one in the same terminal as the build, so their output
+ * is shown inline. The failed command stops the build unless "continueOnFailure" is set.
+ */
+export async function runBuildHooks(
+  runtime: BuildRuntimeContext,
+  terminal: TaskTerminal,
+  options: { stage: BuildHookStage; variables: BuildHookVariables },
+): Promise<void> {
+  const hooks = getBuildHooks(runtime, options.stage);
+  if (hooks.length === 0) {
+    return;
+  }
+
+  const hookEnv = getBuildHookEnv(runtime, options.stage, options.variables);
+  for (const hook of hooks) {
+    runtime.updateProgressStatus(`Running ${options.stage} hook "${hook.command}"`);
+    try {
+      await terminal.execute({
+        command: hook.command,
+        args: hook.args ?? [],
+        env: { ...hookEnv, ...hook.env },
+        cwd: hook.cwd ? path.resolve(runtime.workspacePath, hook.cwd) : undefined,
+      });
+    } catch (error) {
+      if (!hook.continueOnFailure) {
+        throw error;
+      }
+      terminal.write(`SweetPad: ${options.stage} hook "${hook.command}" failed, continuing`, {
+        color: "yellow",
+        newLine: true,
+      });
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import path from "node:path";
+import { XcodeBuildSettings } from "../common/cli/scripts";
+import { type XcodeProject, XcodeScheme } from "../common/xcode/project";
+import { XcodeWorkspace } from "../common/xcode/workspace";
+import { getLaunchOptions } from "./launch";
+
+const SCHEME_PATH = path.join(process.cwd(), "tests", "scheme-data", "App.xcscheme");
+
+const buildSettings = new XcodeBuildSettings({
+  settings: { SRCROOT: "/Users/user/App", PRODUCT_NAME: "App" },
+  target: "App",
+});
+
+function mockScheme(schemePath: string) {
+  const scheme = XcodeScheme.fromFile({ schemePath: schemePath, project: {} as XcodeProject });
+  jest.spyOn(XcodeWorkspace, "parseWorkspace").mockResolvedValue({
+    getScheme: async () => scheme,
+  } as unknown as XcodeWorkspace);
+}
+
+describe("build settings variables", () => {
+  it("should expand the parentheses and braces references", () => {
+    expect(buildSettings.expandVariables("$(SRCROOT)/Fixtures")).toBe("/Users/user/App/Fixtures");
+    expect(buildSettings.expandVariables("${PRODUCT_NAME}.app")).toBe("App.app");
+  });
+
+  it("should replace the unknown settings with an empty string", () => {
+    expect(buildSettings.expandVariables("$(UNKNOWN)/Fixtures")).toBe("/Fixtures");
+  });
+
+  it("should keep the references without parentheses", () => {
+    expect(buildSettings.expandVariables("$SRCROOT/Fixtures")).toBe("$SRCROOT/Fixtures");
+  });
+});
+
+describe("scheme launch options", () => {
+  it("should read the arguments and variables of the Run action, including the disabled ones", async () => {
+    const scheme = XcodeScheme.fromFile({ schemePath: SCHEME_PATH, project: {} as XcodeProject });
+    expect(await scheme.getLaunchArguments()).toEqual([
+      { argument: "-FIRDebugEnabled 1", isEnabled: true },
+      { argument: "-com.apple.CoreData.SQLDebug 1", isEnabled: false },
+      { argument: '-FixturesPath "$(SRCROOT)/Test Fixtures"', isEnabled: true },
+    ]);
+    expect(await scheme.getLaunchEnvironment()).toEqual([
+      { key: "API_URL", value: "https://staging.example.com", isEnabled: true },
+      { key: "APP_NAME", value: "${PRODUCT_NAME}", isEnabled: true },
+      { key: "OS_ACTIVITY_MODE", value: "disable", isEnabled: false },
+    ]);
+  });
+});
+
+describe("launch options", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should append the settings to the enabled scheme options", async () => {
+    mockScheme(SCHEME_PATH);
+    const options = await getLaunchOptions({
+      scheme: "App",
+      xcworkspace: "/Users/user/App/App.xcworkspace",
+      buildSettings: buildSettings,
+      launchArgs: ["-FIRDebugEnabled", "0"],
+      launchEnv: { API_URL: "http://localhost:8080" },
+    });
+    expect(options).toEqual({
+      args: ["-FIRDebugEnabled", "1", "-FixturesPath", "/Users/user/App/Test Fixtures", "-FIRDebugEnabled", "0"],
+      env: { API_URL: "http://localhost:8080", APP_NAME: "App" },
+    });
+  });
+
+  it("should use only the settings when the scheme can't be read", async () => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    mockScheme(path.join(process.cwd(), "tests", "scheme-data", "Missing.xcscheme"));
+    const options = await getLaunchOptions({
+      scheme: "App",
+      xcworkspace: "/Users/user/App/App.xcworkspace",
+      buildSettings: buildSettings,
+      launchArgs: ["-FIRDebugEnabled", "0"],
+      launchEnv: {},
+    });
+    expect(options).toEqual({ args: ["-FIRDebugEnabled", "0"], env: {} });
+  });
+});
@@ -0,0 +1,82 @@
+import { parse, quote } from "shell-quote";
+import type { XcodeBuildSettings } from "../common/cli/scripts";
+import type { TaskTerminal } from "../common/tasks";
+import { XcodeWorkspace } from "../common/xcode/workspace";
+
+export type LaunchOptions = {
+  args: string[];
+  env: Record<string, string>;
+};
+
+/**
+ * Xcode splits each scheme argument the same way as the shell, so "-FIRDebugEnabled 1" is passed
+ * as two arguments and the quoted values are kept together
+ */
+function splitSchemeArgument(argument: string): string[] {
+  // "$VAR" without the parentheses is not expanded by Xcode, so it's kept as is
+  return parse(argument, (key) => `$${key}`).filter((entry): entry is string => typeof entry === "string");
+}
+
+async function getSchemeLaunchOptions(options: {
+  scheme: string;
+  xcworkspace: string;
+  buildSettings: XcodeBuildSettings;
+}): Promise<LaunchOptions> {
+  const workspace = await XcodeWorkspace.parseWorkspace(options.xcworkspace);
+  const scheme = await workspace.getScheme({ name: options.scheme });
+  if (!scheme) {
+    return { args: [], env: {} };
+  }
+
+  const args = (await scheme.getLaunchArguments())
+    .filter((argument) => argument.isEnabled)
+    .flatMap((argument) => splitSchemeArgument(options.buildSettings.expandVariables(argument.argument)));
+  const env = Object.fromEntries(
+    (await scheme.getLaunchEnvironment())
+      .filter((variable) => variable.isEnabled)
+      .map((variable) => [variable.key, options.buildSettings.expandVariables(variable.value)]),
+  );
+  return { args: args, env: env };
+}
+
+/**
+ * Merge the enabled arguments and environment variables of the scheme "Run" action with the
+ * "build.launchArgs" and "build.launchEnv" settings. Scheme arguments go first and the settings
+ * arguments are appended after them, settings variables override the scheme variables with the
+ * same name.
+ */
+export async function getLaunchOptions(options: {
+  scheme: string;
+  xcworkspace: string;
+  buildSettings: XcodeBuildSettings;
+  launchArgs: string[];
+  launchEnv: Record<string, string>;
+}): Promise<LaunchOptions> {
+  let schemeOptions: LaunchOptions = { args: [], env: {} };
+  try {
+    schemeOptions = await getSchemeLaunchOptions(options);
+  } catch (error) {
+    // The app still can be launched with the settings only, so the broken scheme file is not fatal
+    console.warn("Failed to read launch options from the scheme", { scheme: options.scheme, error: error });
+  }
+
+  return {
+    args: [...schemeOptions.args, ...options.launchArgs],
+    env: { ...schemeOptions.env, ...options.launchEnv },
+  };
+}
+
+/**
+ * Show what exactly is passed to the app, because the values come both from the scheme and the settings
+ */
+export function writeLaunchOptions(terminal: TaskTerminal, options: LaunchOptions): void {
+  if (options.args.length > 0) {
+    terminal.write(`SweetPad: launch arguments: ${quote(options.args)}`, { newLine: true });
+  }
+  const env = Object.entries(options.env);
+  if (env.length > 0) {
+    terminal.write(`SweetPad: launch environment: ${env.map(([key, value]) => `${key}=${quote([value])}`).join(" ")}`, {
+      newLine: true,
+    });
+  }
+}
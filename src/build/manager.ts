@@ -1,5 +1,4 @@
 import events from "node:events";
-import * as path from "node:path";
 import * as vscode from "vscode";
 import {
   type XcodeScheme,
@@ -12,7 +11,20 @@ import { BaseExecutionScope, type ExtensionContext } from "../common/commands";
 import { getWorkspaceConfig } from "../common/config";
 import { isFileExists } from "../common/files";
 import { commonLogger } from "../common/logger";
-import { askXcodeWorkspacePath, getCurrentXcodeWorkspacePath, getWorkspacePath, restartSwiftLSP } from "./utils";
+import {
+  canAutogenerateBuildServerConfig,
+  getBuildServerConfigPath,
+  readBuildServerConfig,
+  writeBuildServerConfig,
+} from "./build-server";
+import type { XcodebuildDiagnostic } from "./output-parser";
+import {
+  askXcodeWorkspacePath,
+  getCurrentXcodeWorkspacePath,
+  getWorkspacePath,
+  prepareStoragePath,
+  restartSwiftLSP,
+} from "./utils";
 
 type IEventMap = {
   refreshSchemesStarted: [];
@@ -27,6 +39,7 @@ type IEventKey = keyof IEventMap;
 export class BuildManager {
   private cache: XcodeScheme[] | undefined = undefined;
   private emitter = new events.EventEmitter<IEventMap>();
+  private diagnostics = vscode.languages.createDiagnosticCollection("sweetpad");
   public _context: ExtensionContext | undefined = undefined;
 
   constructor() {
@@ -138,25 +151,52 @@ export class BuildManager {
       return;
     }
 
-    const buildServerJsonPath = path.join(getWorkspacePath(), "buildServer.json");
+    const workspacePath = getWorkspacePath();
+    const buildServerJsonPath = getBuildServerConfigPath(workspacePath);
     const isBuildServerJsonExists = await isFileExists(buildServerJsonPath);
     if (!isBuildServerJsonExists) {
       return;
     }
 
-    const xcodebuildServerPath = getWorkspaceConfig("xcodebuildserver.path");
-    const isServerInstalled = await getIsXcodeBuildServerInstalled({ xcodebuildServerPath });
-    if (!isServerInstalled) {
-      return;
-    }
+    const provider = getWorkspaceConfig("xcodebuildserver.provider") ?? "sweetpad";
+    if (provider === "sweetpad") {
+      const canGenerate = await canAutogenerateBuildServerConfig({
+        workspacePath: workspacePath,
+        overwriteExisting: getWorkspaceConfig("xcodebuildserver.overwriteExisting") ?? false,
+      });
+      if (!canGenerate) {
+        return;
+      }
+      const config = await readBuildServerConfig(workspacePath);
+      const xcworkspace = await askXcodeWorkspacePath(this.context);
+      // The build options of the previous scheme are kept, the destination and the configuration
+      // usually are the same for all schemes
+      await writeBuildServerConfig({
+        workspacePath: workspacePath,
+        storagePath: config?.storagePath ?? (await prepareStoragePath(this.context)),
+        xcworkspace: xcworkspace,
+        scheme: options.scheme,
+        build: config?.build,
+      });
+      // The running built-in server follows the file, but the other server has to be replaced
+      if (!config) {
+        await restartSwiftLSP();
+      }
+    } else {
+      const xcodebuildServerPath = getWorkspaceConfig("xcodebuildserver.path");
+      const isServerInstalled = await getIsXcodeBuildServerInstalled({ xcodebuildServerPath });
+      if (!isServerInstalled) {
+        return;
+      }
 
-    const xcworkspace = await askXcodeWorkspacePath(this.context);
-    await generateBuildServerConfig({
-      xcworkspace: xcworkspace,
-      scheme: options.scheme,
-      xcodebuildServerPath,
-    });
-    await restartSwiftLSP();
+      const xcworkspace = await askXcodeWorkspacePath(this.context);
+      await generateBuildServerConfig({
+        xcworkspace: xcworkspace,
+        scheme: options.scheme,
+        xcodebuildServerPath,
+      });
+      await restartSwiftLSP();
+    }
 
     const isShown = this.context.getWorkspaceState("build.xcodeBuildServerAutogenreateInfoShown") ?? false;
     if (!isShown) {
@@ -168,6 +208,58 @@ export class BuildManager {
     }
   }
 
+  /**
+   * Show the compiler diagnostics of the last build in the "Problems" panel
+   */
+  setBuildDiagnostics(diagnostics: XcodebuildDiagnostic[]): void {
+    this.diagnostics.clear();
+    for (const [file, fileDiagnostics] of this.groupDiagnostics(diagnostics, "xcodebuild")) {
+      this.diagnostics.set(vscode.Uri.file(file), fileDiagnostics);
+    }
+  }
+
+  /**
+   * Replace the diagnostics of the type checked module files, the diagnostics of the other modules
+   * from the last build are kept
+   */
+  setTypecheckDiagnostics(files: string[], diagnostics: XcodebuildDiagnostic[]): void {
+    for (const file of files) {
+      this.diagnostics.delete(vscode.Uri.file(file));
+    }
+    for (const [file, fileDiagnostics] of this.groupDiagnostics(diagnostics, "swiftc")) {
+      this.diagnostics.set(vscode.Uri.file(file), fileDiagnostics);
+    }
+  }
+
+  private groupDiagnostics(diagnostics: XcodebuildDiagnostic[], source: string): Map<string, vscode.Diagnostic[]> {
+    const byFile = new Map<string, vscode.Diagnostic[]>();
+    for (const diagnostic of diagnostics) {
+      // xcodebuild lines and columns are 1-based
+      const line = Math.max(diagnostic.line - 1, 0);
+      const column = Math.max((diagnostic.column ?? 1) - 1, 0);
+      const message = diagnostic.fixIt ? `${diagnostic.message}\nFix-it: ${diagnostic.fixIt}` : diagnostic.message;
+      const item = new vscode.Diagnostic(
+        new vscode.Range(line, column, line, column),
+        message,
+        diagnostic.severity === "error"
+          ? vscode.DiagnosticSeverity.Error
+          : diagnostic.severity === "warning"
+            ? vscode.DiagnosticSeverity.Warning
+            : vscode.DiagnosticSeverity.Information,
+      );
+      item.source = source;
+
+      const fileDiagnostics = byFile.get(diagnostic.file) ?? [];
+      fileDiagnostics.push(item);
+      byFile.set(diagnostic.file, fileDiagnostics);
+    }
+    return byFile;
+  }
+
+  dispose(): void {
+    this.diagnostics.dispose();
+  }
+
   /**
    * Validates that the current default schemes still exist in the refreshed schemes list.
    * If a default scheme no longer exists, it will be cleared.
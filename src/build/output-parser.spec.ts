@@ -0,0 +1,115 @@
+import { XcodebuildOutputParser } from "./output-parser";
+
+function format(lines: string[]) {
+  const parser = new XcodebuildOutputParser({ workspacePath: "/Users/user/App" });
+  const output = lines.map((line) => parser.formatLine(line));
+  parser.flush();
+  return { output: output, diagnostics: parser.getDiagnostics() };
+}
+
+describe("xcodebuild output parser", () => {
+  it("should report the error, warning and note lines", () => {
+    const { output, diagnostics } = format([
+      "/Users/user/App/Sources/ContentView.swift:10:5: error: cannot find 'foo' in scope",
+      "/Users/user/App/Sources/ContentView.swift:12:9: warning: variable 'bar' was never used",
+      "/Users/user/App/Sources/Model.swift:3: note: 'Model' declared here",
+    ]);
+    expect(output).toEqual([
+      { text: "❌ Sources/ContentView.swift:10:5 cannot find 'foo' in scope", color: "red" },
+      { text: "⚠️ Sources/ContentView.swift:12:9 variable 'bar' was never used", color: "yellow" },
+      { text: "💡 Sources/Model.swift:3 'Model' declared here", color: "cyan" },
+    ]);
+    expect(diagnostics.map(({ severity, file, line, column }) => ({ severity, file, line, column }))).toEqual([
+      { severity: "error", file: "/Users/user/App/Sources/ContentView.swift", line: 10, column: 5 },
+      { severity: "warning", file: "/Users/user/App/Sources/ContentView.swift", line: 12, column: 9 },
+      { severity: "note", file: "/Users/user/App/Sources/Model.swift", line: 3, column: null },
+    ]);
+  });
+
+  it("should report the same diagnostic once", () => {
+    const line = "/Users/user/App/Sources/ContentView.swift:12:9: warning: variable 'bar' was never used";
+    const { output, diagnostics } = format([
+      line,
+      "        let bar = 1",
+      "            ^",
+      // The same warning for the second architecture
+      line,
+      "        let bar = 1",
+      "            ^",
+      // The other message at the same location is not a duplicate
+      "/Users/user/App/Sources/ContentView.swift:12:9: error: expected expression",
+    ]);
+    expect(output.slice(3, 6)).toEqual([null, null, null]);
+    expect(diagnostics.map((diagnostic) => diagnostic.message)).toEqual([
+      "variable 'bar' was never used",
+      "expected expression",
+    ]);
+    expect(diagnostics[0].details).toEqual(["        let bar = 1", "            ^"]);
+  });
+
+  it("should extract the fix-it after the caret line", () => {
+    const { output, diagnostics } = format([
+      "/Users/user/App/Sources/ContentView.swift:10:5: error: cannot find 'fooo' in scope; did you mean 'foo'?",
+      "    fooo()",
+      "    ^~~~",
+      "    foo",
+      "** BUILD FAILED **",
+    ]);
+    expect(output.slice(1, 4)).toEqual([{ text: "    fooo()" }, { text: "    ^~~~" }, { text: "    foo" }]);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].fixIt).toBe("foo");
+    expect(diagnostics[0].details).toEqual(["    fooo()", "    ^~~~", "    foo"]);
+  });
+
+  it("should not take the source line for the fix-it", () => {
+    const { diagnostics } = format([
+      "/Users/user/App/Sources/ContentView.swift:10:5: error: missing return in closure",
+      "    let value = { }",
+      "                  ^",
+    ]);
+    expect(diagnostics[0].fixIt).toBeNull();
+  });
+
+  it("should shorten the build steps and hide the tool invocations", () => {
+    const { output } = format([
+      "CompileSwift normal arm64 /Users/user/App/Sources/ContentView.swift (in target 'App' from project 'App')",
+      "    cd /Users/user/App",
+      "    /Applications/Xcode.app/Contents/Developer/usr/bin/swiftc -module-name App",
+      "Ld /Users/user/DerivedData/App/Build/Products/Debug-iphonesimulator/App.app/App normal (in target 'App' from project 'App')",
+      "note: Building targets in parallel",
+      "** BUILD SUCCEEDED **",
+    ]);
+    expect(output).toEqual([
+      { text: "▸ Compiling ContentView.swift (App)" },
+      null,
+      null,
+      { text: "▸ Linking App (App)" },
+      null,
+      { text: "✅ Build succeeded", color: "green" },
+    ]);
+  });
+
+  it("should pass the unrecognized lines through", () => {
+    const { output, diagnostics } = format([
+      "Resolve Package Graph",
+      "Fetching from https://github.com/apple/swift-collections",
+      'xcodebuild: error: The project named "App" does not contain a scheme named "Other".',
+    ]);
+    expect(output).toEqual([
+      { text: "Resolve Package Graph" },
+      { text: "Fetching from https://github.com/apple/swift-collections" },
+      { text: '❌ xcodebuild: The project named "App" does not contain a scheme named "Other".', color: "red" },
+    ]);
+    expect(diagnostics).toEqual([]);
+  });
+
+  it("should notify about the collected diagnostics", () => {
+    const onDiagnostics = jest.fn();
+    const parser = new XcodebuildOutputParser({ workspacePath: "/Users/user/App", onDiagnostics: onDiagnostics });
+    parser.formatLine("/Users/user/App/Sources/ContentView.swift:10:5: error: cannot find 'foo' in scope");
+    expect(onDiagnostics).not.toHaveBeenCalled();
+    parser.flush();
+    expect(onDiagnostics).toHaveBeenCalledTimes(1);
+    expect(onDiagnostics.mock.calls[0][0]).toHaveLength(1);
+  });
+});
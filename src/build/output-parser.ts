@@ -0,0 +1,269 @@
+import path from "node:path";
+import type { FormattedOutputLine, OutputFormatter } from "../common/tasks";
+
+export type XcodebuildDiagnostic = {
+  severity: "error" | "warning" | "note";
+  file: string;
+  line: number;
+  column: number | null;
+  message: string;
+  // Source snippet and caret lines printed by the compiler after the diagnostic
+  details: string[];
+  // Replacement suggested by the compiler, ex. "bar" for "did you mean 'bar'?"
+  fixIt: string | null;
+};
+
+// "/path/to/File.swift:10:5: error: cannot find 'foo' in scope"
+const DIAGNOSTIC_REGEXP = /^(\/.+?):(\d+):(?:(\d+):)? (error|warning|note): (.*)$/;
+
+// "error: Signing for "App" requires a development team", "ld: warning: ...", "xcodebuild: error: ..."
+const GENERAL_DIAGNOSTIC_REGEXP = /^(?:([\w.-]+): )?(error|warning): (.*)$/;
+
+// Source snippet after the diagnostic: indented lines (clang, swiftc) or "12 | foo()" (swiftc 6)
+const DETAIL_REGEXP = /^(?:\s|\d+ \|)/;
+
+// "        ^~~~~~" under the source line
+const CARET_REGEXP = /^\s*[~^]+\s*$/;
+
+// "** BUILD SUCCEEDED **", "** TEST FAILED **", "** ARCHIVE SUCCEEDED **"
+const RESULT_REGEXP = /^\*\* ([A-Z -]+) (SUCCEEDED|FAILED|INTERRUPTED) \*\*/;
+
+// "Test Case '-[AppTests.LoginTests testLogin]' passed (0.002 seconds)."
+const TEST_CASE_REGEXP = /^Test Case '-\[(\S+) (\S+)\]' (passed|failed|skipped) \((\d+\.\d+) seconds\)/;
+
+// "(in target 'App' from project 'App')"
+const TARGET_REGEXP = /\(in target '(.+?)' from project '.+?'\)/;
+
+// "-debug-time-function-bodies" and "-debug-time-expression-type-checking" output:
+// "12.34ms\t/path/to/File.swift:10:17\tinstance method foo()"
+export const TYPE_CHECK_LINE_REGEXP = /^(\d+(?:\.\d+)?)ms\t(\/[^\t]+?):(\d+):(\d+)(?:\t(.*))?$/;
+
+// Build steps printed by xcodebuild before the command invocation, ex.
+// "CompileSwift normal arm64 /path/to/File.swift (in target 'App' from project 'App')"
+const BUILD_STEPS: { regexp: RegExp; format: (match: RegExpMatchArray) => string }[] = [
+  {
+    regexp: /^(?:CompileSwift|SwiftCompile) \S+ \S+ .*?((?:\/(?:\\ |[^ ])+)\.swift)\b/,
+    format: (match) => `Compiling ${basename(match[1])}`,
+  },
+  {
+    regexp: /^CompileC \S+ ((?:\/(?:\\ |[^ ])+)\.\w+) /,
+    format: (match) => `Compiling ${basename(match[1])}`,
+  },
+  {
+    regexp:
+      /^(?:CompileStoryboard|CompileXIB|CompileAssetCatalog\S*) .*?((?:\/(?:\\ |[^ ])+)\.(?:storyboard|xib|xcassets))/,
+    format: (match) => `Compiling ${basename(match[1])}`,
+  },
+  {
+    regexp: /^Ld ((?:\/(?:\\ |[^ ])+)) /,
+    format: (match) => `Linking ${basename(match[1])}`,
+  },
+  {
+    regexp: /^CodeSign ((?:\/(?:\\ |[^ ])+))/,
+    format: (match) => `Signing ${basename(match[1])}`,
+  },
+  {
+    regexp: /^ProcessInfoPlistFile \S+ ((?:\/(?:\\ |[^ ])+))/,
+    format: (match) => `Processing ${basename(match[1])}`,
+  },
+  {
+    regexp: /^PhaseScriptExecution ((?:\\ |[^ ])+) /,
+    format: (match) => `Running script "${unescapePath(match[1])}"`,
+  },
+  {
+    regexp: /^GenerateDSYMFile ((?:\/(?:\\ |[^ ])+))/,
+    format: (match) => `Generating ${basename(match[1])}`,
+  },
+];
+
+function unescapePath(value: string): string {
+  return value.replace(/\\ /g, " ");
+}
+
+function basename(filePath: string): string {
+  return path.basename(unescapePath(filePath));
+}
+
+/**
+ * Streaming formatter for the raw xcodebuild output, the built-in replacement for xcbeautify.
+ *
+ * The build steps are printed as one short line, the invocations of the compiler and other tools
+ * are hidden, and the compiler diagnostics are collected. The same diagnostic is printed for each
+ * architecture, so only the first one is printed and reported.
+ */
+export class XcodebuildOutputParser implements OutputFormatter {
+  private workspacePath: string;
+  private onDiagnostics?: (diagnostics: XcodebuildDiagnostic[]) => void;
+
+  private diagnostics: XcodebuildDiagnostic[] = [];
+  private seenDiagnostics = new Set<string>();
+  // Diagnostic which details (source snippet, caret, fix-it) are being read
+  private current: { diagnostic: XcodebuildDiagnostic; isDuplicate: boolean } | null = null;
+  private isFailedCommandsList = false;
+
+  constructor(options: {
+    workspacePath: string;
+    onDiagnostics?: (diagnostics: XcodebuildDiagnostic[]) => void;
+  }) {
+    this.workspacePath = options.workspacePath;
+    this.onDiagnostics = options.onDiagnostics;
+  }
+
+  getDiagnostics(): XcodebuildDiagnostic[] {
+    return [...this.diagnostics];
+  }
+
+  formatLine(line: string): FormattedOutputLine | null {
+    // Details of the diagnostic end on the first line that doesn't look like the snippet
+    if (this.current) {
+      if (line.trim() && DETAIL_REGEXP.test(line)) {
+        return this.addDetail(line);
+      }
+      this.finishDiagnostic();
+    }
+
+    if (this.isFailedCommandsList) {
+      if (/^\s/.test(line)) {
+        return { text: `  ${line.trim()}`, color: "red" };
+      }
+      this.isFailedCommandsList = false;
+    }
+
+    const diagnosticMatch = line.match(DIAGNOSTIC_REGEXP);
+    if (diagnosticMatch) {
+      const [, file, lineNumber, column, severity, message] = diagnosticMatch;
+      return this.startDiagnostic({
+        severity: severity as XcodebuildDiagnostic["severity"],
+        file: file,
+        line: Number.parseInt(lineNumber, 10),
+        column: column ? Number.parseInt(column, 10) : null,
+        message: message,
+        details: [],
+        fixIt: null,
+      });
+    }
+
+    // Type checking time of each function, printed only when the build timing is collected
+    if (TYPE_CHECK_LINE_REGEXP.test(line)) {
+      return null;
+    }
+
+    // Invocations of the tools ("cd ...", "export ...", "/usr/bin/swiftc ...") are indented
+    if (!line.trim() || /^\s/.test(line)) {
+      return null;
+    }
+
+    for (const step of BUILD_STEPS) {
+      const match = line.match(step.regexp);
+      if (match) {
+        const target = line.match(TARGET_REGEXP)?.[1];
+        return { text: `▸ ${step.format(match)}${target ? ` (${target})` : ""}` };
+      }
+    }
+
+    const resultMatch = line.match(RESULT_REGEXP);
+    if (resultMatch) {
+      const [, action, status] = resultMatch;
+      const title = `${action.charAt(0)}${action.slice(1).toLowerCase()} ${status.toLowerCase()}`;
+      return status === "SUCCEEDED" ? { text: `✅ ${title}`, color: "green" } : { text: `❌ ${title}`, color: "red" };
+    }
+
+    const testMatch = line.match(TEST_CASE_REGEXP);
+    if (testMatch) {
+      const [, testClass, testName, status, duration] = testMatch;
+      const name = `${testClass.split(".").pop()}.${testName}`;
+      if (status === "passed") {
+        return { text: `  ✔ ${name} (${duration}s)`, color: "green" };
+      }
+      if (status === "failed") {
+        return { text: `  ✖ ${name} (${duration}s)`, color: "red" };
+      }
+      return { text: `  ⊘ ${name} (skipped)`, color: "yellow" };
+    }
+
+    if (line.startsWith("The following build commands failed:")) {
+      this.isFailedCommandsList = true;
+      return { text: line, color: "red" };
+    }
+
+    const generalMatch = line.match(GENERAL_DIAGNOSTIC_REGEXP);
+    if (generalMatch) {
+      const [, tool, severity, message] = generalMatch;
+      const text = tool ? `${tool}: ${message}` : message;
+      return severity === "error" ? { text: `❌ ${text}`, color: "red" } : { text: `⚠️ ${text}`, color: "yellow" };
+    }
+
+    // Noise, like "note: Building targets in parallel" or the step without a known format
+    if (line.startsWith("note: ") || /^[A-Z][A-Za-z]+ .*\(in target '.+?' from project '.+?'\)$/.test(line)) {
+      return null;
+    }
+    if (line.startsWith("Command line invocation:") || line.startsWith("Build settings from command line:")) {
+      return null;
+    }
+    return { text: line };
+  }
+
+  /**
+   * Call when the command is finished, the last diagnostic might still wait for the details
+   */
+  flush(): void {
+    if (this.current) {
+      this.finishDiagnostic();
+    }
+  }
+
+  private startDiagnostic(diagnostic: XcodebuildDiagnostic): FormattedOutputLine | null {
+    const key = [diagnostic.severity, diagnostic.file, diagnostic.line, diagnostic.column, diagnostic.message].join(
+      ":",
+    );
+    const isDuplicate = this.seenDiagnostics.has(key);
+    this.seenDiagnostics.add(key);
+    this.current = { diagnostic: diagnostic, isDuplicate: isDuplicate };
+    if (isDuplicate) {
+      return null;
+    }
+
+    // No colon after the location, otherwise the problem matchers report it the second time
+    const location = `${this.formatPath(diagnostic.file)}:${diagnostic.line}${diagnostic.column ? `:${diagnostic.column}` : ""}`;
+    switch (diagnostic.severity) {
+      case "error":
+        return { text: `❌ ${location} ${diagnostic.message}`, color: "red" };
+      case "warning":
+        return { text: `⚠️ ${location} ${diagnostic.message}`, color: "yellow" };
+      case "note":
+        return { text: `💡 ${location} ${diagnostic.message}`, color: "cyan" };
+    }
+  }
+
+  private addDetail(line: string): FormattedOutputLine | null {
+    if (!this.current || this.current.isDuplicate) {
+      return null;
+    }
+    const details = this.current.diagnostic.details;
+    // The line after the caret is the fix-it: the text to insert or replace with
+    const previous = details[details.length - 1];
+    if (previous && CARET_REGEXP.test(previous) && !CARET_REGEXP.test(line) && !this.current.diagnostic.fixIt) {
+      this.current.diagnostic.fixIt = line.trim();
+    }
+    details.push(line);
+    return { text: line };
+  }
+
+  private finishDiagnostic(): void {
+    const current = this.current;
+    this.current = null;
+    if (!current || current.isDuplicate) {
+      return;
+    }
+    this.diagnostics.push(current.diagnostic);
+    this.onDiagnostics?.(this.getDiagnostics());
+  }
+
+  private formatPath(filePath: string): string {
+    const relativePath = path.relative(this.workspacePath, filePath);
+    if (relativePath.startsWith("..") || path.isAbsolute(relativePath)) {
+      return filePath;
+    }
+    return relativePath;
+  }
+}
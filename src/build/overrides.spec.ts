@@ -0,0 +1,33 @@
+import { type ConfigOverride, getConfigOverride } from "./overrides";
+
+describe("config overrides", () => {
+  const overrides: ConfigOverride[] = [
+    { "build.args": ["-quiet"] },
+    { when: { scheme: "Watch", destinationType: "watchOSSimulator" }, "build.args": ["-skipMacroValidation"] },
+    { when: { configuration: ["Debug", "Staging"] }, "build.launchEnv": { API_URL: "staging" } },
+  ];
+
+  it("should apply the last matching block", () => {
+    const value = getConfigOverride(overrides, { scheme: "Watch", destinationType: "watchOSSimulator" }, "build.args");
+    expect(value).toEqual(["-skipMacroValidation"]);
+  });
+
+  it("should require all conditions to match", () => {
+    expect(getConfigOverride(overrides, { scheme: "Watch", destinationType: "iOSSimulator" }, "build.args")).toEqual([
+      "-quiet",
+    ]);
+    expect(getConfigOverride(overrides, { scheme: "Watch" }, "build.args")).toEqual(["-quiet"]);
+  });
+
+  it("should match any value of the list", () => {
+    expect(getConfigOverride(overrides, { configuration: "Staging" }, "build.launchEnv")).toEqual({
+      API_URL: "staging",
+    });
+    expect(getConfigOverride(overrides, { configuration: "Release" }, "build.launchEnv")).toBeUndefined();
+  });
+
+  it("should ignore the settings that can't be overridden", () => {
+    const value = getConfigOverride([{ "build.configuration": "Release" }], {}, "build.configuration");
+    expect(value).toBeUndefined();
+  });
+});
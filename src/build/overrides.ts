@@ -0,0 +1,61 @@
+import type { DestinationType } from "../destination/types";
+
+/**
+ * Settings that can be changed by the "overrides" blocks
+ */
+const OVERRIDABLE_KEYS = ["build.args", "build.env", "build.launchArgs", "build.launchEnv", "build.arch"];
+
+/**
+ * What the current build is for. The "overrides" blocks are matched against it.
+ */
+export type ConfigScope = {
+  scheme?: string;
+  configuration?: string;
+  destinationType?: DestinationType;
+};
+
+/**
+ * Block of the "sweetpad.overrides" setting: the settings in it replace the global ones when all
+ * conditions of "when" match, ex. { "when": { "scheme": "Watch" }, "build.args": ["-quiet"] }
+ */
+export type ConfigOverride = {
+  when?: { [K in keyof ConfigScope]?: string | string[] };
+  [key: string]: unknown;
+};
+
+function isOverrideMatched(override: ConfigOverride, scope: ConfigScope): boolean {
+  for (const [key, expected] of Object.entries(override.when ?? {})) {
+    const actual: string | undefined = scope[key as keyof ConfigScope];
+    // The block for the specific scheme doesn't apply when the scheme is not known yet
+    if (actual === undefined) {
+      return false;
+    }
+    const values = Array.isArray(expected) ? expected : [expected];
+    if (!values.includes(actual)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Value of the setting from the "overrides" blocks that match the scope, undefined when none of them
+ * sets it. Blocks are applied in order, so the last matching one wins, and the value is replaced as a
+ * whole, ex. "build.env" is not merged with the global one.
+ */
+export function getConfigOverride<T>(
+  overrides: ConfigOverride[] | undefined,
+  scope: ConfigScope | undefined,
+  key: string,
+): T | undefined {
+  if (!OVERRIDABLE_KEYS.includes(key)) {
+    return undefined;
+  }
+  let value: T | undefined = undefined;
+  for (const override of overrides ?? []) {
+    if (key in override && isOverrideMatched(override, scope ?? {})) {
+      value = override[key] as T;
+    }
+  }
+  return value;
+}
@@ -1,6 +1,6 @@
+import path from "node:path";
 import * as vscode from "vscode";
 import { type ExtensionContext, TaskExecutionScope } from "../common/commands";
-import { getWorkspaceConfig } from "../common/config";
 import { errorReporting } from "../common/error-reporting";
 import {
   type TaskTerminal,
@@ -12,11 +12,26 @@ import {
 } from "../common/tasks";
 import { assertUnreachable } from "../common/types";
 import type { Destination } from "../destination/types";
+import { type ExportOptionsSource, archiveAndExport } from "./archive";
 import { resolveDependencies } from "./commands";
 import { DEFAULT_BUILD_PROBLEM_MATCHERS } from "./constants";
-import { buildApp, getXcodeBuildDestinationString, runOnMac, runOniOSDevice, runOniOSSimulator } from "./runner";
+import {
+  buildApp,
+  getXcodeArchiveDestinationString,
+  getXcodeBuildDestinationString,
+  runOnMac,
+  runOniOSDevice,
+  runOniOSSimulator,
+} from "./runner";
 import { createExtensionBuildRuntimeContext } from "./runtime";
-import { askConfiguration, askDestinationToRunOn, askSchemeForBuild, askXcodeWorkspacePath } from "./utils";
+import {
+  askConfiguration,
+  askDestinationToRunOn,
+  askExportOptions,
+  askSchemeForBuild,
+  askXcodeWorkspacePath,
+  getWorkspacePath,
+} from "./utils";
 
 interface TaskDefinition extends vscode.TaskDefinition {
   type: string;
@@ -29,6 +44,7 @@ interface TaskDefinition extends vscode.TaskDefinition {
   destination?: string; // ex: "platform=iOS Simulator,id=00000000-0000-0000-0000-000000000000"
   launchArgs?: string[]; // ex: ["-arg1", "-arg2"]
   launchEnv?: { [key: string]: string }; // ex: { "MY_ENV": "value" }
+  exportOptionsPath?: string; // ex: "./ExportOptions.plist"
 }
 
 class ActionDispatcher {
@@ -69,6 +85,9 @@ class ActionDispatcher {
       case "resolve-dependencies":
         await this.resolveDependenciesCallback(terminal, definition);
         break;
+      case "archive":
+        await this.archiveCallback(terminal, definition);
+        break;
       default:
         throw new Error(`Action ${action} is not supported`);
     }
@@ -175,14 +194,17 @@ class ActionDispatcher {
       xcworkspace: xcworkspace,
     });
 
-    const runtime = await createExtensionBuildRuntimeContext(this.context);
+    const runtime = await createExtensionBuildRuntimeContext(this.context, {
+      configScope: { scheme: scheme, configuration: configuration, destinationType: destination.type },
+    });
     const destinationRaw =
       definition.destination ?? getXcodeBuildDestinationString(runtime, { destination: destination });
 
     const sdk = destination.platform;
 
-    const launchArgs: string[] = definition.launchArgs ?? getWorkspaceConfig("build.launchArgs") ?? [];
-    const launchEnv: { [key: string]: string } = definition.launchEnv ?? getWorkspaceConfig("build.launchEnv") ?? {};
+    const launchArgs: string[] = definition.launchArgs ?? runtime.getConfigOrDefault<string[]>("build.launchArgs", []);
+    const launchEnv: { [key: string]: string } =
+      definition.launchEnv ?? runtime.getConfigOrDefault<Record<string, string>>("build.launchEnv", {});
 
     await buildApp(runtime, terminal, {
       scheme: scheme,
@@ -280,7 +302,9 @@ class ActionDispatcher {
       xcworkspace: xcworkspace,
     });
 
-    const runtime = await createExtensionBuildRuntimeContext(this.context);
+    const runtime = await createExtensionBuildRuntimeContext(this.context, {
+      configScope: { scheme: scheme, configuration: configuration, destinationType: destination.type },
+    });
     const destinationRaw =
       definition.destination ?? getXcodeBuildDestinationString(runtime, { destination: destination });
 
@@ -336,11 +360,16 @@ class ActionDispatcher {
       xcworkspace: xcworkspace,
     });
 
+    const runtime = await createExtensionBuildRuntimeContext(this.context, {
+      configScope: { scheme: scheme, configuration: configuration, destinationType: destination.type },
+    });
+
     const sdk = destination.platform;
 
     // Launch arguments and envs have higher priority than the workspace configuration
-    const launchArgs: string[] = definition.launchArgs ?? getWorkspaceConfig("build.launchArgs") ?? [];
-    const launchEnv: { [key: string]: string } = definition.launchEnv ?? getWorkspaceConfig("build.launchEnv") ?? {};
+    const launchArgs: string[] = definition.launchArgs ?? runtime.getConfigOrDefault<string[]>("build.launchArgs", []);
+    const launchEnv: { [key: string]: string } =
+      definition.launchEnv ?? runtime.getConfigOrDefault<Record<string, string>>("build.launchEnv", {});
 
     if (destination.type === "macOS") {
       await runOnMac(runtime, terminal, {
@@ -414,7 +443,9 @@ class ActionDispatcher {
       xcworkspace: xcworkspace,
     });
 
-    const runtime = await createExtensionBuildRuntimeContext(this.context);
+    const runtime = await createExtensionBuildRuntimeContext(this.context, {
+      configScope: { scheme: scheme, configuration: configuration, destinationType: destination.type },
+    });
     const destinationRaw =
       definition.destination ?? getXcodeBuildDestinationString(runtime, { destination: destination });
 
@@ -456,7 +487,9 @@ class ActionDispatcher {
       xcworkspace: xcworkspace,
     });
 
-    const runtime = await createExtensionBuildRuntimeContext(this.context);
+    const runtime = await createExtensionBuildRuntimeContext(this.context, {
+      configScope: { scheme: scheme, configuration: configuration, destinationType: destination.type },
+    });
     const destinationRaw =
       definition.destination ?? getXcodeBuildDestinationString(runtime, { destination: destination });
 
@@ -475,6 +508,55 @@ class ActionDispatcher {
     });
   }
 
+  private async archiveCallback(terminal: TaskTerminal, definition: TaskDefinition) {
+    this.context.updateProgressStatus("Searching for workspace");
+    const xcworkspace = await askXcodeWorkspacePath(this.context);
+
+    this.context.updateProgressStatus("Searching for scheme");
+    const scheme =
+      definition.scheme ??
+      (await askSchemeForBuild(this.context, {
+        title: "Select scheme to archive",
+        xcworkspace: xcworkspace,
+      }));
+
+    this.context.updateProgressStatus("Searching for configuration");
+    const configuration =
+      definition.configuration ??
+      (await askConfiguration(this.context, {
+        xcworkspace: xcworkspace,
+      }));
+
+    const destination = await this.getDestination({
+      definition: definition,
+      scheme: scheme,
+      configuration: configuration,
+      xcworkspace: xcworkspace,
+    });
+    const destinationRaw = definition.destination ?? getXcodeArchiveDestinationString({ destination: destination });
+
+    const exportOptions: ExportOptionsSource = definition.exportOptionsPath
+      ? { type: "file", path: path.resolve(getWorkspacePath(), definition.exportOptionsPath) }
+      : await askExportOptions(this.context, {
+          scheme: scheme,
+          configuration: configuration,
+          sdk: destination.platform,
+          xcworkspace: xcworkspace,
+        });
+
+    const runtime = await createExtensionBuildRuntimeContext(this.context, {
+      configScope: { scheme: scheme, configuration: configuration, destinationType: destination.type },
+    });
+
+    await archiveAndExport(runtime, terminal, {
+      scheme: scheme,
+      configuration: configuration,
+      xcworkspace: xcworkspace,
+      destinationRaw: destinationRaw,
+      exportOptions: exportOptions,
+    });
+  }
+
   private async resolveDependenciesCallback(terminal: TaskTerminal, definition: TaskDefinition) {
     this.context.updateProgressStatus("Searching for workspace");
     const xcworkspacePath = definition.workspace ?? (await askXcodeWorkspacePath(this.context));
@@ -548,6 +630,14 @@ export class XcodeBuildTaskProvider implements vscode.TaskProvider {
           action: "resolve-dependencies",
         },
       }),
+      this.getTask({
+        name: "archive",
+        details: "Archive and export the app",
+        defintion: {
+          type: this.type,
+          action: "archive",
+        },
+      }),
       this.getTask({
         name: "debugging-launch",
         details: "Build and Launch the app (for debugging)",
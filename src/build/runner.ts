@@ -10,11 +10,32 @@ import {
 } from "../common/cli/scripts";
 import { ExtensionError } from "../common/errors";
 import { createDirectory, isFileExists, readJsonFile, removeDirectory, tempFilePathInDirectory } from "../common/files";
-import type { Command, TaskTerminal } from "../common/tasks";
+import type { Command, CommandOptions, TaskTerminal } from "../common/tasks";
 import { assertUnreachable } from "../common/types";
 import type { Destination } from "../destination/types";
 import type { DeviceDestination } from "../devices/types";
 import type { SimulatorDestination } from "../simulators/types";
+import { acquireBuildLock } from "./build-lock";
+import {
+  getBuildLogPath,
+  parseCompileCommands,
+  readBuildLog,
+  saveClangCompileCommands,
+  saveSwiftCompileCommands,
+  updateCompileCommands,
+} from "./build-log";
+import {
+  type BuildServerBuildOptions,
+  canAutogenerateBuildServerConfig,
+  getBuildServerArgv,
+  getBuildServerProvider,
+  readBuildServerConfig,
+  writeBuildServerConfig,
+} from "./build-server";
+import { type BuildHookVariables, getBuildHooks, runBuildHooks } from "./hooks";
+import { getLaunchOptions, writeLaunchOptions } from "./launch";
+import { type XcodebuildDiagnostic, XcodebuildOutputParser } from "./output-parser";
+import type { ConfigScope } from "./overrides";
 
 export type BuildRuntimeContext = {
   workspacePath: string;
@@ -26,17 +47,64 @@ export type BuildRuntimeContext = {
   getSimulatorByUdid(udid: string): Promise<SimulatorDestination>;
   onSimulatorBooted?: () => Promise<void> | void;
   onBuildCompleted?: () => Promise<void> | void;
+  onAppLaunched?: (options: { pid: number }) => void;
+  // All unique compiler diagnostics of the current build, called again on each new one. The empty
+  // list is passed when the build starts
+  onBuildDiagnostics?: (diagnostics: XcodebuildDiagnostic[]) => void;
+  // Only pass the commands to the terminal: skip the steps with side effects, like removing the
+  // previous result bundle or generating buildServer.json, and don't require the built app
+  dryRun?: boolean;
+  // Scheme, configuration and destination of the current build, "getConfig" applies the "overrides"
+  // blocks that match them
+  configScope?: ConfigScope;
+  // Ignore the "build.hooks" settings, for the builds that the user didn't start
+  skipHooks?: boolean;
 };
 
+/**
+ * The "postLaunch" hooks run once the app process has started, while the launch command keeps printing
+ * the app output. Call "start" when the start is detected and "wait" after the launch command returns:
+ * it runs the hooks if they haven't started yet (dry run, or the start wasn't reported) and rethrows
+ * their error
+ */
+function preparePostLaunchHooks(runtime: BuildRuntimeContext, terminal: TaskTerminal, variables: BuildHookVariables) {
+  let promise: Promise<{ error: unknown } | null> | null = null;
+  const start = () => {
+    if (!promise) {
+      // Keep the error until "wait", the launch command is still running at this point
+      promise = runBuildHooks(runtime, terminal, { stage: "postLaunch", variables: variables }).then(
+        () => null,
+        (error) => ({ error: error }),
+      );
+    }
+    return promise;
+  };
+  return {
+    isEnabled: getBuildHooks(runtime, "postLaunch").length > 0,
+    start: () => {
+      void start();
+    },
+    wait: async () => {
+      const result = await start();
+      if (result) {
+        throw result.error;
+      }
+    },
+  };
+}
+
 function writeWatchMarkers(terminal: TaskTerminal) {
   terminal.write("🍭 SweetPad: watch marker (start)\n");
   terminal.write("🍩 SweetPad: watch marker (end)\n\n");
 }
 
-async function ensureAppPathExists(appPath: string | undefined): Promise<string> {
+async function ensureAppPathExists(runtime: BuildRuntimeContext, appPath: string | undefined): Promise<string> {
   if (!appPath) {
     throw new ExtensionError("App path is empty. Something went wrong.");
   }
+  if (runtime.dryRun) {
+    return appPath;
+  }
 
   const isExists = await isFileExists(appPath);
   if (!isExists) {
@@ -58,13 +126,22 @@ function prepareDerivedDataPath(runtime: BuildRuntimeContext): string | null {
   return path.join(runtime.workspacePath, configPath);
 }
 
+/**
+ * Result bundle of the last build of the scheme, xcodebuild adds ".xcresult" to the "-resultBundlePath"
+ */
+export function getResultBundlePath(runtime: Pick<BuildRuntimeContext, "storagePath">, scheme: string): string {
+  return path.join(runtime.storagePath, "bundle", `${scheme}.xcresult`);
+}
+
 async function prepareBundleDir(runtime: BuildRuntimeContext, scheme: string): Promise<string> {
-  await createDirectory(runtime.storagePath);
   const bundleDir = path.join(runtime.storagePath, "bundle", scheme);
+  if (runtime.dryRun) {
+    return bundleDir;
+  }
+  await createDirectory(runtime.storagePath);
 
   await removeDirectory(bundleDir);
-  const xcresult = path.join(runtime.storagePath, "bundle", `${scheme}.xcresult`);
-  await removeDirectory(xcresult);
+  await removeDirectory(getResultBundlePath(runtime, scheme));
 
   return bundleDir;
 }
@@ -74,10 +151,46 @@ async function prepareBundleDir(runtime: BuildRuntimeContext, scheme: string): P
  */
 async function generateBuildServerConfigOnBuild(
   runtime: BuildRuntimeContext,
-  options: { scheme: string; xcworkspace: string },
+  options: { scheme: string; xcworkspace: string; configuration: string; sdk: string; destinationRaw: string },
 ) {
   const isEnabled = runtime.getConfigOrDefault("xcodebuildserver.autogenerate", true);
-  if (!isEnabled) {
+  if (!isEnabled || runtime.dryRun) {
+    return;
+  }
+
+  if (getBuildServerProvider(runtime) === "sweetpad") {
+    const build: BuildServerBuildOptions = {
+      configuration: options.configuration,
+      sdk: options.sdk,
+      destination: options.destinationRaw,
+      destinationType: runtime.configScope?.destinationType,
+    };
+    const sweetpadConfig = await readBuildServerConfig(runtime.workspacePath);
+    // The CLI path in "argv" changes with each update of the extension
+    const isSweetpadConfigValid =
+      sweetpadConfig &&
+      sweetpadConfig.scheme === options.scheme &&
+      sweetpadConfig.workspace === options.xcworkspace &&
+      sweetpadConfig.storagePath === runtime.storagePath &&
+      JSON.stringify(sweetpadConfig.argv) === JSON.stringify(await getBuildServerArgv(runtime.workspacePath)) &&
+      JSON.stringify(sweetpadConfig.build) === JSON.stringify(build);
+
+    // The running build server picks up the changes of the file, sourcekit-lsp doesn't have to be restarted
+    if (
+      !isSweetpadConfigValid &&
+      (await canAutogenerateBuildServerConfig({
+        workspacePath: runtime.workspacePath,
+        overwriteExisting: runtime.getConfigOrDefault("xcodebuildserver.overwriteExisting", false),
+      }))
+    ) {
+      await writeBuildServerConfig({
+        workspacePath: runtime.workspacePath,
+        storagePath: runtime.storagePath,
+        xcworkspace: options.xcworkspace,
+        scheme: options.scheme,
+        build: build,
+      });
+    }
     return;
   }
 
@@ -132,22 +245,51 @@ export async function runOnMac(
     derivedDataPath: prepareDerivedDataPath(runtime),
   });
 
-  const executablePath = await ensureAppPathExists(buildSettings.executablePath);
+  const executablePath = await ensureAppPathExists(runtime, buildSettings.executablePath);
 
   runtime.updateWorkspaceState?.("build.lastLaunchedApp", {
     type: "macos",
     appPath: executablePath,
   });
+
+  const hookVariables: BuildHookVariables = {
+    scheme: options.scheme,
+    configuration: options.configuration,
+    sdk: "macosx",
+    xcworkspace: options.xcworkspace,
+    destinationType: "macOS",
+    appPath: buildSettings.appPath,
+    bundleId: buildSettings.bundleIdentifier,
+  };
+  await runBuildHooks(runtime, terminal, { stage: "preLaunch", variables: hookVariables });
+
   if (options.watchMarker) {
     writeWatchMarkers(terminal);
   }
 
+  const launchOptions = await getLaunchOptions({
+    scheme: options.scheme,
+    xcworkspace: options.xcworkspace,
+    buildSettings: buildSettings,
+    launchArgs: options.launchArgs,
+    launchEnv: options.launchEnv,
+  });
+  writeLaunchOptions(terminal, launchOptions);
+
+  const postLaunchHooks = preparePostLaunchHooks(runtime, terminal, hookVariables);
+
   runtime.updateProgressStatus(`Running "${options.scheme}" on Mac`);
   await terminal.execute({
     command: executablePath,
-    env: options.launchEnv,
-    args: options.launchArgs,
+    env: launchOptions.env,
+    args: launchOptions.args,
+    onProcessStart: (pid) => {
+      runtime.onAppLaunched?.({ pid: pid });
+      postLaunchHooks.start();
+    },
   });
+
+  await postLaunchHooks.wait();
 }
 
 export async function runOniOSSimulator(
@@ -175,7 +317,7 @@ export async function runOniOSSimulator(
     xcworkspace: options.xcworkspace,
     derivedDataPath: prepareDerivedDataPath(runtime),
   });
-  const appPath = await ensureAppPathExists(buildSettings.appPath);
+  const appPath = await ensureAppPathExists(runtime, buildSettings.appPath);
   const bundlerId = buildSettings.bundleIdentifier;
 
   // Get simulator with fresh state
@@ -213,10 +355,33 @@ export async function runOniOSSimulator(
     type: "simulator",
     appPath: appPath,
   });
+
+  const hookVariables: BuildHookVariables = {
+    scheme: options.scheme,
+    configuration: options.configuration,
+    sdk: options.sdk,
+    xcworkspace: options.xcworkspace,
+    destinationId: simulator.udid,
+    destinationName: simulator.name,
+    destinationType: options.destination.type,
+    appPath: appPath,
+    bundleId: bundlerId,
+  };
+  await runBuildHooks(runtime, terminal, { stage: "preLaunch", variables: hookVariables });
+
   if (options.watchMarker) {
     writeWatchMarkers(terminal);
   }
 
+  const launchOptions = await getLaunchOptions({
+    scheme: options.scheme,
+    xcworkspace: options.xcworkspace,
+    buildSettings: buildSettings,
+    launchArgs: options.launchArgs,
+    launchEnv: options.launchEnv,
+  });
+  writeLaunchOptions(terminal, launchOptions);
+
   const launchArgs = [
     "simctl",
     "launch",
@@ -225,18 +390,40 @@ export async function runOniOSSimulator(
     "--terminate-running-process",
     simulator.udid,
     bundlerId,
-    ...options.launchArgs,
+    ...launchOptions.args,
   ];
 
+  // "simctl launch" prints "<bundle id>: <pid>" before the app output
+  let isLaunchReported = false;
+  const launchedRegexp = new RegExp(`^${escapeRegExp(bundlerId)}: (\\d+)$`);
+
+  const postLaunchHooks = preparePostLaunchHooks(runtime, terminal, hookVariables);
+
   // Run app
   runtime.updateProgressStatus(`Running "${options.scheme}" on "${simulator.name}"`);
   await terminal.execute({
     command: "xcrun",
     args: launchArgs,
-    env: Object.fromEntries(Object.entries(options.launchEnv).map(([key, value]) => [`SIMCTL_CHILD_${key}`, value])),
+    env: Object.fromEntries(Object.entries(launchOptions.env).map(([key, value]) => [`SIMCTL_CHILD_${key}`, value])),
+    onOutputLine:
+      runtime.onAppLaunched || postLaunchHooks.isEnabled
+        ? async ({ value }) => {
+            const match = !isLaunchReported ? value.trim().match(launchedRegexp) : null;
+            if (match) {
+              isLaunchReported = true;
+              runtime.onAppLaunched?.({ pid: Number.parseInt(match[1], 10) });
+              postLaunchHooks.start();
+            }
+          }
+        : undefined,
   });
+
+  await postLaunchHooks.wait();
 }
 
+// "Launched application with com.example.app bundle identifier."
+const DEVICECTL_LAUNCHED_REGEXP = /^Launched application with .+ bundle identifier\.?$/;
+
 export async function runOniOSDevice(
   runtime: BuildRuntimeContext,
   terminal: TaskTerminal,
@@ -263,7 +450,7 @@ export async function runOniOSDevice(
     derivedDataPath: prepareDerivedDataPath(runtime),
   });
 
-  const targetPath = await ensureAppPathExists(buildSettings.appPath);
+  const targetPath = await ensureAppPathExists(runtime, buildSettings.appPath);
   const bundlerId = buildSettings.bundleIdentifier;
 
   // Install app on device
@@ -281,6 +468,19 @@ export async function runOniOSDevice(
     destinationType: destinationType,
   });
 
+  const hookVariables: BuildHookVariables = {
+    scheme: scheme,
+    configuration: configuration,
+    sdk: option.sdk,
+    xcworkspace: option.xcworkspace,
+    destinationId: deviceId,
+    destinationName: destinationName,
+    destinationType: destinationType,
+    appPath: targetPath,
+    bundleId: bundlerId,
+  };
+  await runBuildHooks(runtime, terminal, { stage: "preLaunch", variables: hookVariables });
+
   await using jsonOuputPath = await tempFilePathInDirectory(runtime.storagePath, {
     prefix: "json",
   });
@@ -293,6 +493,15 @@ export async function runOniOSDevice(
     writeWatchMarkers(terminal);
   }
 
+  const launchOptions = await getLaunchOptions({
+    scheme: scheme,
+    xcworkspace: option.xcworkspace,
+    buildSettings: buildSettings,
+    launchArgs: option.launchArgs,
+    launchEnv: option.launchEnv,
+  });
+  writeLaunchOptions(terminal, launchOptions);
+
   const launchArgs = [
     "devicectl",
     "device",
@@ -305,20 +514,38 @@ export async function runOniOSDevice(
     "--device",
     deviceId,
     bundlerId,
-    ...option.launchArgs,
+    ...launchOptions.args,
   ].filter((arg) => arg !== null);
 
+  const postLaunchHooks = preparePostLaunchHooks(runtime, terminal, hookVariables);
+
   runtime.updateProgressStatus(`Running "${option.scheme}" on "${option.destination.name}"`);
   await terminal.execute({
     command: "xcrun",
     args: launchArgs,
-    env: Object.fromEntries(Object.entries(option.launchEnv).map(([key, value]) => [`DEVICECTL_CHILD_${key}`, value])),
+    env: Object.fromEntries(Object.entries(launchOptions.env).map(([key, value]) => [`DEVICECTL_CHILD_${key}`, value])),
+    // With "--console" devicectl prints the app output until it exits, the launch is reported first.
+    // Without it the command returns once the app is launched
+    onOutputLine:
+      isConsoleOptionSupported && postLaunchHooks.isEnabled
+        ? async ({ value }) => {
+            if (DEVICECTL_LAUNCHED_REGEXP.test(value.trim())) {
+              postLaunchHooks.start();
+            }
+          }
+        : undefined,
   });
+  if (runtime.dryRun) {
+    await postLaunchHooks.wait();
+    return;
+  }
 
   let jsonOutput: any;
   try {
     jsonOutput = await readJsonFile(jsonOuputPath.path);
   } catch (e) {
+    // The launch command succeeded, so the app is running even without its PID
+    await postLaunchHooks.wait();
     throw new ExtensionError("Error reading json output");
   }
 
@@ -331,13 +558,92 @@ export async function runOniOSDevice(
     });
     return;
   }
-  terminal.write(`App launched on device with PID: ${jsonOutput.result.process.processIdentifier}`, {
+  const pid = jsonOutput.result.process.processIdentifier;
+  runtime.onAppLaunched?.({ pid: pid });
+  terminal.write(`App launched on device with PID: ${pid}`, {
     newLine: true,
   });
+
+  await postLaunchHooks.wait();
 }
 
-export function isXcbeautifyEnabled(runtime: BuildRuntimeContext) {
-  return runtime.getConfigOrDefault("build.xcbeautifyEnabled", true);
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export type BuildOutputFormatter = "sweetpad" | "xcbeautify" | "raw";
+
+export function getBuildOutputFormatter(
+  runtime: Pick<BuildRuntimeContext, "getConfig" | "getConfigOrDefault">,
+): BuildOutputFormatter {
+  const formatter = runtime.getConfig<BuildOutputFormatter>("build.outputFormatter");
+  if (formatter) {
+    return formatter;
+  }
+  // Before the built-in formatter, disabling xcbeautify was the way to see the raw output
+  return runtime.getConfigOrDefault("build.xcbeautifyEnabled", true) ? "sweetpad" : "raw";
+}
+
+/**
+ * The xcodebuild output is either piped to xcbeautify or formatted by the built-in parser, which
+ * also reports the compiler diagnostics. If xcbeautify is not installed, the built-in parser is used.
+ *
+ * When the log path is passed, the raw output is also saved there with "tee" before it's formatted,
+ * the compiler invocations are extracted from it later.
+ */
+async function prepareBuildOutput(
+  runtime: BuildRuntimeContext,
+  options?: { logPath?: string },
+): Promise<{ pipes: Command[] | undefined; outputFormatter: XcodebuildOutputParser | undefined }> {
+  const formatter = getBuildOutputFormatter(runtime);
+  const useXcbeautify = formatter === "xcbeautify" && (await getIsXcbeautifyInstalled());
+  const formatterPipes: Command[] = useXcbeautify ? [{ command: "xcbeautify", args: [] }] : [];
+
+  // Dry run only prints the commands: the log is not saved and the diagnostics of the previous build are kept
+  if (runtime.dryRun) {
+    return { pipes: formatterPipes.length > 0 ? formatterPipes : undefined, outputFormatter: undefined };
+  }
+
+  runtime.onBuildDiagnostics?.([]);
+
+  const pipes: Command[] = [];
+  if (options?.logPath) {
+    await createDirectory(path.dirname(options.logPath));
+    pipes.push({ command: "tee", args: [options.logPath] });
+  }
+  pipes.push(...formatterPipes);
+
+  const outputFormatter =
+    formatter === "raw" || useXcbeautify
+      ? undefined
+      : new XcodebuildOutputParser({
+          workspacePath: runtime.workspacePath,
+          onDiagnostics: (diagnostics) => runtime.onBuildDiagnostics?.(diagnostics),
+        });
+  return { pipes: pipes.length > 0 ? pipes : undefined, outputFormatter: outputFormatter };
+}
+
+/**
+ * Extract the compiler invocations from the saved build log for the type checking and the build server
+ * and, when "build.compileCommands.autogenerate" is enabled, update compile_commands.json
+ */
+async function processBuildLog(runtime: BuildRuntimeContext, logName: string): Promise<void> {
+  try {
+    const log = await readBuildLog(runtime.storagePath, logName);
+    if (!log) {
+      return;
+    }
+    const commands = parseCompileCommands(log);
+    await saveSwiftCompileCommands(runtime.storagePath, commands.swift);
+    await saveClangCompileCommands(runtime.storagePath, commands.clang);
+    if (runtime.getConfigOrDefault("build.compileCommands.autogenerate", false)) {
+      runtime.updateProgressStatus("Updating compile_commands.json");
+      await updateCompileCommands(runtime.workspacePath, commands.clang);
+    }
+  } catch (error) {
+    // The result of the build doesn't depend on it, so the error of xcodebuild is not replaced
+    console.warn("Failed to process the build log", { logName: logName, error: error });
+  }
 }
 
 function buildDestinationString(options: { platform: string; id?: string; arch?: string }): string {
@@ -402,6 +708,32 @@ export function getXcodeBuildDestinationString(
   return assertUnreachable(destination);
 }
 
+/**
+ * Archives are always built for the generic device of the platform, even if the simulator is
+ * selected as the destination
+ */
+export function getXcodeArchiveDestinationString(options: { destination: Destination }): string {
+  const destination = options.destination;
+  switch (destination.type) {
+    case "iOSSimulator":
+    case "iOSDevice":
+      return "generic/platform=iOS";
+    case "watchOSSimulator":
+    case "watchOSDevice":
+      return "generic/platform=watchOS";
+    case "tvOSSimulator":
+    case "tvOSDevice":
+      return "generic/platform=tvOS";
+    case "visionOSSimulator":
+    case "visionOSDevice":
+      return "generic/platform=visionOS";
+    case "macOS":
+      return "generic/platform=macOS";
+    default:
+      return assertUnreachable(destination);
+  }
+}
+
 class XcodeCommandBuilder {
   NO_VALUE = "__NO_VALUE__";
 
@@ -463,7 +795,9 @@ class XcodeCommandBuilder {
           key: arg,
           value: value,
         });
-      } else if (["clean", "build", "test"].includes(current)) {
+      } else if (
+        ["clean", "build", "test", "build-for-testing", "test-without-building", "archive"].includes(current)
+      ) {
         this.actions.push(current);
       } else {
         console.warn("Unknown argument", {
@@ -530,22 +864,44 @@ class XcodeCommandBuilder {
   }
 }
 
-export async function buildApp(
-  runtime: BuildRuntimeContext,
-  terminal: TaskTerminal,
-  options: {
-    scheme: string;
-    sdk: string;
-    configuration: string;
-    shouldBuild: boolean;
-    shouldClean: boolean;
-    shouldTest: boolean;
-    xcworkspace: string;
-    destinationRaw: string;
-    debug: boolean;
-  },
-) {
-  const useXcbeatify = isXcbeautifyEnabled(runtime) && (await getIsXcbeautifyInstalled());
+type BuildAppOptions = {
+  scheme: string;
+  sdk: string;
+  configuration: string;
+  shouldBuild: boolean;
+  shouldClean: boolean;
+  shouldTest: boolean;
+  shouldBuildForTesting?: boolean;
+  shouldTestWithoutBuilding?: boolean;
+  onlyTesting?: string[];
+  skipTesting?: string[];
+  xcworkspace: string;
+  destinationRaw: string;
+  debug: boolean;
+  // Print the build timing summary and the type checking time of the Swift functions
+  timing?: boolean;
+  onOutputLine?: CommandOptions["onOutputLine"];
+};
+
+/**
+ * Only one process builds in the storage at a time: the extension, the CLI and the build server wait
+ * for each other before removing the result bundle and running xcodebuild
+ */
+export async function buildApp(runtime: BuildRuntimeContext, terminal: TaskTerminal, options: BuildAppOptions) {
+  if (runtime.dryRun) {
+    return await runBuildApp(runtime, terminal, options);
+  }
+  const releaseBuildLock = await acquireBuildLock(runtime.storagePath, () => {
+    runtime.updateProgressStatus("Waiting for the other build to finish");
+  });
+  try {
+    return await runBuildApp(runtime, terminal, options);
+  } finally {
+    await releaseBuildLock();
+  }
+}
+
+async function runBuildApp(runtime: BuildRuntimeContext, terminal: TaskTerminal, options: BuildAppOptions) {
   const bundlePath = await prepareBundleDir(runtime, options.scheme);
   const derivedDataPath = prepareDerivedDataPath(runtime);
 
@@ -567,6 +923,16 @@ export async function buildApp(
     command.addBuildSettings("ONLY_ACTIVE_ARCH", "YES");
   }
 
+  if (options.timing) {
+    // Changing the Swift flags makes xcodebuild recompile the Swift sources, which is what we want
+    // to measure anyway
+    command.addBuildSettings(
+      "OTHER_SWIFT_FLAGS",
+      "$(inherited) -Xfrontend -debug-time-function-bodies -Xfrontend -debug-time-expression-type-checking",
+    );
+    command.addOption("-showBuildTimingSummary");
+  }
+
   command.addParameters("-scheme", options.scheme);
   command.addParameters("-configuration", options.configuration);
   command.addParameters("-workspace", options.xcworkspace);
@@ -588,33 +954,229 @@ export async function buildApp(
   if (options.shouldTest) {
     command.addAction("test");
   }
+  if (options.shouldBuildForTesting) {
+    command.addAction("build-for-testing");
+  }
+  if (options.shouldTestWithoutBuilding) {
+    command.addAction("test-without-building");
+  }
+  // Test selectors, ex: "MyAppTests/LoginTests/testLogin"
+  for (const identifier of options.onlyTesting ?? []) {
+    command.addOption(`-only-testing:${identifier}`);
+  }
+  for (const identifier of options.skipTesting ?? []) {
+    command.addOption(`-skip-testing:${identifier}`);
+  }
   command.addAdditionalArgs(additionalArgs);
 
   const commandParts = command.build();
-  let pipes: Command[] | undefined = undefined;
-  if (useXcbeatify) {
-    pipes = [{ command: "xcbeautify", args: [] }];
-  }
+  const { pipes, outputFormatter } = await prepareBuildOutput(runtime, {
+    logPath: getBuildLogPath(runtime.storagePath, options.scheme),
+  });
 
   if (options.shouldClean) {
     runtime.updateProgressStatus(`Cleaning "${options.scheme}"`);
   } else if (options.shouldBuild) {
     runtime.updateProgressStatus(`Building "${options.scheme}"`);
-  } else if (options.shouldTest) {
+  } else if (options.shouldTest || options.shouldBuildForTesting) {
     runtime.updateProgressStatus(`Building "${options.scheme}"`);
+  } else if (options.shouldTestWithoutBuilding) {
+    runtime.updateProgressStatus(`Testing "${options.scheme}"`);
   }
 
   await generateBuildServerConfigOnBuild(runtime, {
     scheme: options.scheme,
     xcworkspace: options.xcworkspace,
+    configuration: options.configuration,
+    sdk: options.sdk,
+    destinationRaw: options.destinationRaw,
   });
 
+  // Clean or running the already built tests are not the builds
+  const isBuild = options.shouldBuild || options.shouldTest || !!options.shouldBuildForTesting;
+  const hookVariables: BuildHookVariables = {
+    scheme: options.scheme,
+    configuration: options.configuration,
+    sdk: options.sdk,
+    xcworkspace: options.xcworkspace,
+    destinationRaw: options.destinationRaw,
+  };
+  if (isBuild) {
+    await runBuildHooks(runtime, terminal, { stage: "preBuild", variables: hookVariables });
+  }
+
+  try {
+    await terminal.execute({
+      command: commandParts[0],
+      args: commandParts.slice(1),
+      pipes: pipes,
+      env: env,
+      outputFormatter: outputFormatter,
+      onOutputLine: options.onOutputLine,
+    });
+  } finally {
+    // The modules compiled before the build failed can still be type checked
+    if (isBuild && !runtime.dryRun) {
+      await processBuildLog(runtime, options.scheme);
+    }
+  }
+
+  if (isBuild && getBuildHooks(runtime, "postBuild").length > 0) {
+    runtime.updateProgressStatus("Extracting build settings");
+    const buildSettings = await getBuildSettingsToLaunch({
+      scheme: options.scheme,
+      configuration: options.configuration,
+      sdk: options.sdk,
+      xcworkspace: options.xcworkspace,
+      derivedDataPath: derivedDataPath,
+    });
+    await runBuildHooks(runtime, terminal, {
+      stage: "postBuild",
+      variables: {
+        ...hookVariables,
+        appPath: buildSettings.appPath,
+        bundleId: buildSettings.bundleIdentifier,
+      },
+    });
+  }
+
+  await runtime.onBuildCompleted?.();
+}
+
+/**
+ * Build a single target of the project with "-target", without the scheme. Unlike the scheme build,
+ * it doesn't build the other targets of the scheme, but it also can't use the workspace, so the targets
+ * that depend on the other projects of the workspace (like CocoaPods) should be built with the scheme.
+ */
+export async function buildTarget(
+  runtime: BuildRuntimeContext,
+  terminal: TaskTerminal,
+  options: {
+    target: string;
+    // path to .xcodeproj
+    project: string;
+    sdk: string;
+    configuration: string;
+  },
+) {
+  const derivedDataPath = prepareDerivedDataPath(runtime);
+  const allowProvisioningUpdates = runtime.getConfigOrDefault("build.allowProvisioningUpdates", true);
+
+  const additionalArgs: string[] = runtime.getConfig("build.args") || [];
+  const env: Record<string, string | null> = runtime.getConfig("build.env") || {};
+
+  const command = new XcodeCommandBuilder();
+  // "-derivedDataPath" requires the scheme, so the same layout is set with the build settings
+  // to reuse the products and intermediates of the scheme builds
+  if (derivedDataPath) {
+    command.addBuildSettings("SYMROOT", path.join(derivedDataPath, "Build", "Products"));
+    command.addBuildSettings("OBJROOT", path.join(derivedDataPath, "Build", "Intermediates.noindex"));
+  }
+  command.addParameters("-project", options.project);
+  command.addParameters("-target", options.target);
+  command.addParameters("-configuration", options.configuration);
+  command.addParameters("-sdk", options.sdk);
+  if (allowProvisioningUpdates) {
+    command.addOption("-allowProvisioningUpdates");
+  }
+  command.addAction("build");
+  command.addAdditionalArgs(additionalArgs);
+
+  const commandParts = command.build();
+  const logPath = getBuildLogPath(runtime.storagePath, options.target);
+  const { pipes, outputFormatter } = await prepareBuildOutput(runtime, { logPath: logPath });
+
+  runtime.updateProgressStatus(`Building target "${options.target}"`);
+  try {
+    await terminal.execute({
+      command: commandParts[0],
+      args: commandParts.slice(1),
+      pipes: pipes,
+      env: env,
+      outputFormatter: outputFormatter,
+    });
+  } finally {
+    if (!runtime.dryRun) {
+      await processBuildLog(runtime, options.target);
+    }
+  }
+
+  await runtime.onBuildCompleted?.();
+}
+
+export async function archiveApp(
+  runtime: BuildRuntimeContext,
+  terminal: TaskTerminal,
+  options: {
+    scheme: string;
+    configuration: string;
+    xcworkspace: string;
+    destinationRaw: string;
+    archivePath: string;
+  },
+) {
+  const derivedDataPath = prepareDerivedDataPath(runtime);
+  const allowProvisioningUpdates = runtime.getConfigOrDefault("build.allowProvisioningUpdates", true);
+
+  const additionalArgs: string[] = runtime.getConfig("build.args") || [];
+  const env: Record<string, string | null> = runtime.getConfig("build.env") || {};
+
+  const command = new XcodeCommandBuilder();
+  command.addParameters("-scheme", options.scheme);
+  command.addParameters("-configuration", options.configuration);
+  command.addParameters("-workspace", options.xcworkspace);
+  command.addParameters("-destination", options.destinationRaw);
+  command.addParameters("-archivePath", options.archivePath);
+  if (derivedDataPath) {
+    command.addParameters("-derivedDataPath", derivedDataPath);
+  }
+  if (allowProvisioningUpdates) {
+    command.addOption("-allowProvisioningUpdates");
+  }
+  command.addAction("archive");
+  command.addAdditionalArgs(additionalArgs);
+
+  const commandParts = command.build();
+  const { pipes, outputFormatter } = await prepareBuildOutput(runtime);
+
+  runtime.updateProgressStatus(`Archiving "${options.scheme}"`);
   await terminal.execute({
     command: commandParts[0],
     args: commandParts.slice(1),
     pipes: pipes,
     env: env,
+    outputFormatter: outputFormatter,
   });
+}
 
-  await runtime.onBuildCompleted?.();
+export async function exportArchive(
+  runtime: BuildRuntimeContext,
+  terminal: TaskTerminal,
+  options: {
+    archivePath: string;
+    exportPath: string;
+    exportOptionsPath: string;
+  },
+) {
+  const allowProvisioningUpdates = runtime.getConfigOrDefault("build.allowProvisioningUpdates", true);
+  const env: Record<string, string | null> = runtime.getConfig("build.env") || {};
+
+  // "build.args" are not added here: "-exportArchive" rejects most of the build options
+  const command = new XcodeCommandBuilder();
+  command.addOption("-exportArchive");
+  command.addParameters("-archivePath", options.archivePath);
+  command.addParameters("-exportPath", options.exportPath);
+  command.addParameters("-exportOptionsPlist", options.exportOptionsPath);
+  if (allowProvisioningUpdates) {
+    command.addOption("-allowProvisioningUpdates");
+  }
+
+  const commandParts = command.build();
+
+  runtime.updateProgressStatus("Exporting archive");
+  await terminal.execute({
+    command: commandParts[0],
+    args: commandParts.slice(1),
+    env: env,
+  });
 }
@@ -1,22 +1,32 @@
 import type { ExtensionContext } from "../common/commands";
-import { getWorkspaceConfig } from "../common/config";
+import { getScopedWorkspaceConfig } from "../common/config";
 import { getSimulatorByUdid } from "../simulators/utils";
+import type { ConfigScope } from "./overrides";
 import type { BuildRuntimeContext } from "./runner";
 import { getWorkspacePath, prepareStoragePath, restartSwiftLSP } from "./utils";
 
-export async function createExtensionBuildRuntimeContext(context: ExtensionContext): Promise<BuildRuntimeContext> {
+export async function createExtensionBuildRuntimeContext(
+  context: ExtensionContext,
+  options?: { configScope?: ConfigScope },
+): Promise<BuildRuntimeContext> {
   const storagePath = await prepareStoragePath(context);
   const workspacePath = getWorkspacePath();
+  const configScope = options?.configScope;
+
+  const getConfig = <T>(key: string): T | undefined =>
+    getScopedWorkspaceConfig(key as any, configScope) as T | undefined;
 
   return {
     workspacePath,
     storagePath,
+    configScope,
     updateProgressStatus: (message) => context.updateProgressStatus(message),
     updateWorkspaceState: (key, value) => context.updateWorkspaceState(key as any, value as any),
-    getConfig: (key) => getWorkspaceConfig(key as any),
-    getConfigOrDefault: (key, fallback) => getWorkspaceConfig(key as any) ?? fallback,
+    getConfig: getConfig,
+    getConfigOrDefault: (key, fallback) => getConfig(key) ?? fallback,
     getSimulatorByUdid: async (udid) => getSimulatorByUdid(context, { udid }),
     onSimulatorBooted: () => context.destinationsManager.refreshSimulators(),
     onBuildCompleted: () => restartSwiftLSP(),
+    onBuildDiagnostics: (diagnostics) => context.buildManager.setBuildDiagnostics(diagnostics),
   };
 }
@@ -0,0 +1,286 @@
+import * as vscode from "vscode";
+import type { BuildTimingRun } from "./timing";
+
+function getNonce(): string {
+  const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+  let nonce = "";
+  for (let i = 0; i < 32; i++) {
+    nonce += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return nonce;
+}
+
+/**
+ * Webview with the slowest targets, files and type checked functions of the build. The runs are
+ * passed to the page as JSON, the tables are rendered and sorted by the page script, and each run
+ * can be compared with one of the previous runs.
+ */
+export class BuildTimingPanel {
+  private static current: BuildTimingPanel | undefined;
+  private panel: vscode.WebviewPanel;
+
+  private constructor(panel: vscode.WebviewPanel) {
+    this.panel = panel;
+    this.panel.onDidDispose(() => {
+      BuildTimingPanel.current = undefined;
+    });
+    this.panel.webview.onDidReceiveMessage((message: { type: string; file: string; line: number }) => {
+      if (message.type === "open") {
+        const position = new vscode.Position(Math.max(message.line - 1, 0), 0);
+        void vscode.window.showTextDocument(vscode.Uri.file(message.file), {
+          selection: new vscode.Range(position, position),
+        });
+      }
+    });
+  }
+
+  static show(runs: BuildTimingRun[]): void {
+    if (!BuildTimingPanel.current) {
+      const panel = vscode.window.createWebviewPanel(
+        "sweetpad.build.timing",
+        "Build timing",
+        vscode.ViewColumn.Active,
+        { enableScripts: true, retainContextWhenHidden: true },
+      );
+      BuildTimingPanel.current = new BuildTimingPanel(panel);
+    }
+    BuildTimingPanel.current.update(runs);
+    BuildTimingPanel.current.panel.reveal();
+  }
+
+  private update(runs: BuildTimingRun[]): void {
+    const nonce = getNonce();
+    // "<" is escaped to not close the script tag from the file names or function signatures
+    const data = JSON.stringify(runs).replace(/</g, "\\u003c");
+    this.panel.webview.html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <title>Build timing</title>
+  <style>
+    body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); }
+    h2 { margin-top: 24px; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { text-align: left; padding: 2px 8px; border-bottom: 1px solid var(--vscode-panel-border); }
+    th { cursor: pointer; user-select: none; }
+    td.number { text-align: right; font-variant-numeric: tabular-nums; }
+    .slower { color: var(--vscode-errorForeground); }
+    .faster { color: var(--vscode-testing-iconPassed); }
+    a { color: var(--vscode-textLink-foreground); cursor: pointer; }
+    select { margin-right: 16px; }
+  </style>
+</head>
+<body>
+  <div>
+    <label>Run <select id="run"></select></label>
+    <label>Compare with <select id="baseline"></select></label>
+  </div>
+  <div id="content"></div>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const runs = ${data};
+    const sorting = {};
+
+    const runSelect = document.getElementById("run");
+    const baselineSelect = document.getElementById("baseline");
+    const content = document.getElementById("content");
+
+    function runLabel(run) {
+      return run.scheme + " (" + run.configuration + "), " + new Date(run.createdAt).toLocaleString();
+    }
+
+    runs.forEach((run, index) => {
+      runSelect.add(new Option(runLabel(run), String(index)));
+    });
+    baselineSelect.add(new Option("None", ""));
+    runs.forEach((run, index) => {
+      baselineSelect.add(new Option(runLabel(run), String(index)));
+    });
+    // Compare with the previous run of the same scheme by default
+    const previousIndex = runs.findIndex((run, index) => index > 0 && run.scheme === runs[0]?.scheme);
+    baselineSelect.value = previousIndex === -1 ? "" : String(previousIndex);
+
+    function seconds(value) {
+      return value === null || value === undefined ? "" : value.toFixed(3) + "s";
+    }
+
+    function delta(value, baseline) {
+      if (baseline === undefined) {
+        return { text: "", className: "" };
+      }
+      const diff = value - baseline;
+      const text = (diff > 0 ? "+" : "") + diff.toFixed(3) + "s";
+      return { text: text, className: diff > 0.001 ? "slower" : diff < -0.001 ? "faster" : "" };
+    }
+
+    function renderTable(id, title, columns, rows) {
+      const section = document.createElement("section");
+      const heading = document.createElement("h2");
+      heading.textContent = title;
+      section.appendChild(heading);
+      if (rows.length === 0) {
+        const empty = document.createElement("p");
+        empty.textContent = "No data";
+        section.appendChild(empty);
+        return section;
+      }
+
+      const sort = sorting[id] ?? { column: "duration", descending: true };
+      const sortColumn = columns.find((column) => column.key === sort.column) ?? columns[0];
+      const sortedRows = [...rows].sort((a, b) => {
+        const left = sortColumn.value(a);
+        const right = sortColumn.value(b);
+        const result = typeof left === "number" && typeof right === "number"
+          ? left - right
+          : String(left).localeCompare(String(right));
+        return sort.descending ? -result : result;
+      });
+
+      const table = document.createElement("table");
+      const headerRow = table.createTHead().insertRow();
+      for (const column of columns) {
+        const th = document.createElement("th");
+        th.textContent = column.title + (column.key === sortColumn.key ? (sort.descending ? " ▼" : " ▲") : "");
+        th.addEventListener("click", () => {
+          const descending = column.key === sortColumn.key ? !sort.descending : true;
+          sorting[id] = { column: column.key, descending: descending };
+          render();
+        });
+        headerRow.appendChild(th);
+      }
+      const body = table.createTBody();
+      for (const row of sortedRows) {
+        const tr = body.insertRow();
+        for (const column of columns) {
+          const td = tr.insertCell();
+          column.render(td, row);
+        }
+      }
+      section.appendChild(table);
+      return section;
+    }
+
+    function textColumn(key, title, value) {
+      return { key: key, title: title, value: value, render: (td, row) => { td.textContent = value(row) ?? ""; } };
+    }
+
+    function durationColumn(key, title, value) {
+      return {
+        key: key,
+        title: title,
+        value: (row) => value(row) ?? 0,
+        render: (td, row) => { td.className = "number"; td.textContent = seconds(value(row)); },
+      };
+    }
+
+    function deltaColumn(value) {
+      return {
+        key: "delta",
+        title: "Change",
+        value: (row) => (row.baseline === undefined ? 0 : value(row) - row.baseline),
+        render: (td, row) => {
+          const result = delta(value(row), row.baseline);
+          td.className = "number " + result.className;
+          td.textContent = result.text;
+        },
+      };
+    }
+
+    function linkColumn(key, title, value) {
+      return {
+        key: key,
+        title: title,
+        value: value,
+        render: (td, row) => {
+          const link = document.createElement("a");
+          link.textContent = value(row);
+          link.title = row.file ?? row.path;
+          link.addEventListener("click", () => {
+            vscode.postMessage({ type: "open", file: row.file ?? row.path, line: row.line ?? 1 });
+          });
+          td.appendChild(link);
+        },
+      };
+    }
+
+    function withBaseline(rows, baselineRows, key) {
+      const baselineByKey = new Map((baselineRows ?? []).map((row) => [key(row), row.duration]));
+      return rows.map((row) => ({ ...row, baseline: baselineRows ? baselineByKey.get(key(row)) : undefined }));
+    }
+
+    function fileName(filePath) {
+      return filePath.split("/").pop();
+    }
+
+    function render() {
+      const run = runs[Number(runSelect.value)];
+      const baseline = baselineSelect.value === "" ? undefined : runs[Number(baselineSelect.value)];
+      content.replaceChildren();
+      if (!run) {
+        return;
+      }
+
+      const total = document.createElement("p");
+      const totalDelta = baseline ? delta(run.duration ?? 0, baseline.duration ?? 0).text : "";
+      total.textContent = "Total: " + seconds(run.duration) + (totalDelta ? " (" + totalDelta + ")" : "");
+      content.appendChild(total);
+
+      const duration = (row) => row.duration;
+      content.appendChild(
+        renderTable(
+          "summary",
+          "Build timing summary",
+          [
+            textColumn("name", "Task", (row) => row.name),
+            { ...textColumn("count", "Count", (row) => row.count), value: (row) => row.count },
+            durationColumn("duration", "Duration", duration),
+            deltaColumn(duration),
+          ],
+          withBaseline(run.summary, baseline?.summary, (row) => row.name),
+        ),
+      );
+      content.appendChild(
+        renderTable(
+          "targets",
+          "Slowest targets",
+          [textColumn("name", "Target", (row) => row.name), durationColumn("duration", "Duration", duration), deltaColumn(duration)],
+          withBaseline(run.targets, baseline?.targets, (row) => row.name),
+        ),
+      );
+      content.appendChild(
+        renderTable(
+          "files",
+          "Slowest files",
+          [
+            linkColumn("path", "File", (row) => fileName(row.path)),
+            textColumn("target", "Target", (row) => row.target),
+            durationColumn("duration", "Duration", duration),
+            deltaColumn(duration),
+          ],
+          withBaseline(run.files, baseline?.files, (row) => row.path),
+        ),
+      );
+      content.appendChild(
+        renderTable(
+          "typeChecks",
+          "Swift type checking hotspots",
+          [
+            linkColumn("location", "Location", (row) => fileName(row.file) + ":" + row.line + ":" + row.column),
+            textColumn("name", "Function", (row) => row.name ?? "(expression)"),
+            durationColumn("duration", "Duration", duration),
+            deltaColumn(duration),
+          ],
+          withBaseline(run.typeChecks, baseline?.typeChecks, (row) => row.file + ":" + row.line + ":" + row.column + ":" + row.name),
+        ),
+      );
+    }
+
+    runSelect.addEventListener("change", render);
+    baselineSelect.addEventListener("change", render);
+    render();
+  </script>
+</body>
+</html>`;
+  }
+}
@@ -0,0 +1,180 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import {
+  type BuildTimingRun,
+  BuildTimingSummaryParser,
+  parseBuildLog,
+  parseTypeCheckLines,
+  readBuildTimingRuns,
+  saveBuildTimingRun,
+} from "./timing";
+
+describe("build timing summary", () => {
+  it("should parse the summary printed by -showBuildTimingSummary", () => {
+    const parser = new BuildTimingSummaryParser();
+    const output = [
+      "** BUILD SUCCEEDED ** [41.218 sec]",
+      "",
+      "Build Timing Summary",
+      "",
+      "SwiftCompile (128 tasks) | 35.123 seconds",
+      "",
+      "PhaseScriptExecution (2 tasks) | 4.910 seconds",
+      "",
+      "Ld (1 task) | 0.512 seconds",
+      "",
+      "CodeSign (1 task) | 0.101 seconds",
+    ];
+    for (const line of output) {
+      parser.parseLine(line);
+    }
+    expect(parser.items).toEqual([
+      { name: "SwiftCompile", count: 128, duration: 35.123 },
+      { name: "PhaseScriptExecution", count: 2, duration: 4.91 },
+      { name: "Ld", count: 1, duration: 0.512 },
+      { name: "CodeSign", count: 1, duration: 0.101 },
+    ]);
+  });
+});
+
+describe("type check timing", () => {
+  it("should parse -debug-time-function-bodies and -debug-time-expression-type-checking lines", () => {
+    const output = [
+      "12.34ms\t/Users/user/App/Sources/ContentView.swift:10:17\tgetter body",
+      "0.05ms\t/Users/user/App/Sources/Model.swift:3:10\tinstance method load(from:)",
+      "145.20ms\t/Users/user/App/Sources/Model.swift:21:24",
+      "SwiftCompile normal arm64 Compiling\\ Model.swift /Users/user/App/Sources/Model.swift",
+    ].join("\n");
+    expect(parseTypeCheckLines(output)).toEqual([
+      {
+        file: "/Users/user/App/Sources/ContentView.swift",
+        line: 10,
+        column: 17,
+        name: "getter body",
+        duration: 0.01234,
+      },
+      {
+        file: "/Users/user/App/Sources/Model.swift",
+        line: 3,
+        column: 10,
+        name: "instance method load(from:)",
+        duration: 0.00005,
+      },
+      { file: "/Users/user/App/Sources/Model.swift", line: 21, column: 24, name: null, duration: 0.1452 },
+    ]);
+  });
+});
+
+describe("build log", () => {
+  it("should collect the targets, files and type checks", () => {
+    const log = {
+      title: "Build App",
+      duration: 42.5,
+      subsections: [
+        {
+          title: "Build target Core of project App with configuration Debug",
+          duration: 10,
+          subsections: [
+            { title: "Compile /Users/user/App/Core/Store.swift (arm64)", duration: 3 },
+            { title: "Compile /Users/user/App/Core/Store.swift (x86_64)", duration: 2 },
+            { title: "Compiling Cache.swift, Store.swift", duration: 4 },
+          ],
+        },
+        {
+          title: "Build target App of project App with configuration Debug",
+          duration: 30,
+          subsections: [
+            {
+              title: "Compiling ContentView.swift",
+              duration: 6,
+              location: { url: "file:///Users/user/App/Sources/ContentView.swift#EndingLineNumber=0" },
+              emittedOutput: [
+                "12.34ms\t/Users/user/App/Sources/ContentView.swift:10:17\tgetter body",
+                "20.00ms\t/Users/user/App/Sources/ContentView.swift:10:17\tgetter body",
+              ].join("\n"),
+            },
+          ],
+        },
+      ],
+    };
+    const parsed = parseBuildLog(log);
+    expect(parsed.duration).toBe(42.5);
+    expect(parsed.targets).toEqual([
+      { name: "App", duration: 30 },
+      { name: "Core", duration: 10 },
+    ]);
+    expect(parsed.files).toEqual([
+      { path: "/Users/user/App/Sources/ContentView.swift", target: "App", duration: 6 },
+      { path: "/Users/user/App/Core/Store.swift", target: "Core", duration: 5 },
+    ]);
+    // The same function type checked for each architecture is counted once, with the slowest time
+    expect(parsed.typeChecks).toEqual([
+      {
+        file: "/Users/user/App/Sources/ContentView.swift",
+        line: 10,
+        column: 17,
+        name: "getter body",
+        duration: 0.02,
+      },
+    ]);
+  });
+
+  it("should unwrap the legacy format of the result bundle", () => {
+    const log = {
+      title: { _value: "Build App" },
+      duration: { _value: "12.5" },
+      subsections: {
+        _values: [
+          {
+            title: { _value: "Build target App" },
+            duration: { _value: "12" },
+            subsections: {
+              _values: [{ title: { _value: "Compile /Users/user/App/main.m" }, duration: { _value: "1" } }],
+            },
+          },
+        ],
+      },
+    };
+    const parsed = parseBuildLog(log);
+    expect(parsed.duration).toBe(12.5);
+    expect(parsed.targets).toEqual([{ name: "App", duration: 12 }]);
+    expect(parsed.files).toEqual([{ path: "/Users/user/App/main.m", target: "App", duration: 1 }]);
+  });
+});
+
+describe("build timing runs", () => {
+  let storagePath: string;
+
+  beforeEach(async () => {
+    storagePath = await fs.mkdtemp(path.join(os.tmpdir(), "sweetpad-timing-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(storagePath, { recursive: true, force: true });
+  });
+
+  it("should keep only the latest 20 runs", async () => {
+    expect(await readBuildTimingRuns(storagePath)).toEqual([]);
+
+    for (let index = 0; index < 25; index++) {
+      const run: BuildTimingRun = {
+        id: `run-${index}`,
+        scheme: "App",
+        configuration: "Debug",
+        createdAt: new Date(index * 1000).toISOString(),
+        duration: index,
+        summary: [],
+        targets: [],
+        files: [],
+        typeChecks: [],
+      };
+      await saveBuildTimingRun(storagePath, run);
+    }
+
+    const runs = await readBuildTimingRuns(storagePath);
+    expect(runs).toHaveLength(20);
+    expect(runs[0].id).toBe("run-24");
+    expect(runs[19].id).toBe("run-5");
+  });
+});
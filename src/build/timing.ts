@@ -0,0 +1,306 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { exec } from "../common/exec";
+import { createDirectory } from "../common/files";
+import type { TaskTerminal } from "../common/tasks";
+import { TYPE_CHECK_LINE_REGEXP } from "./output-parser";
+import { type BuildRuntimeContext, buildApp, getResultBundlePath } from "./runner";
+
+export type BuildTimingSummaryItem = {
+  // ex: "CompileSwiftSources", "Ld", "PhaseScriptExecution"
+  name: string;
+  count: number;
+  duration: number;
+};
+
+export type BuildTimingTarget = {
+  name: string;
+  duration: number;
+};
+
+export type BuildTimingFile = {
+  path: string;
+  target: string | null;
+  // Sum for all architectures
+  duration: number;
+};
+
+export type BuildTimingTypeCheck = {
+  file: string;
+  line: number;
+  column: number;
+  // ex: "instance method foo()", null for the expressions
+  name: string | null;
+  duration: number;
+};
+
+/**
+ * One build with "-showBuildTimingSummary", durations are in seconds
+ */
+export type BuildTimingRun = {
+  id: string;
+  scheme: string;
+  configuration: string;
+  createdAt: string;
+  duration: number | null;
+  summary: BuildTimingSummaryItem[];
+  targets: BuildTimingTarget[];
+  files: BuildTimingFile[];
+  typeChecks: BuildTimingTypeCheck[];
+};
+
+const RUNS_FILE = "runs.json";
+const MAX_RUNS = 20;
+// Large projects have thousands of files and functions, only the slowest are interesting
+const MAX_FILES = 300;
+const MAX_TYPE_CHECKS = 300;
+
+// "CompileSwiftSources (12 tasks) | 35.123 seconds"
+const SUMMARY_LINE_REGEXP = /^(\S.*?) \((\d+) tasks?\) \| (\d+(?:\.\d+)?) seconds$/;
+
+// "Build target App of project App with configuration Debug", "Build target App"
+const TARGET_TITLE_REGEXP = /^Build target (.+?)(?: of project .*| with configuration .*)?$/;
+
+// "Compile /path/to/File.swift (arm64)", "Compiling File.swift"
+const COMPILE_TITLE_REGEXP = /^Compil(?:e|ing) (\S.*?\.(?:swift|m|mm|c|cc|cpp))(?: \(.+\))?$/;
+
+export function getBuildTimingPath(storagePath: string): string {
+  return path.join(storagePath, "timing");
+}
+
+/**
+ * Collects the "Build Timing Summary" printed at the end of the xcodebuild output
+ */
+export class BuildTimingSummaryParser {
+  items: BuildTimingSummaryItem[] = [];
+
+  parseLine(line: string): void {
+    const match = line.trim().match(SUMMARY_LINE_REGEXP);
+    if (!match) {
+      return;
+    }
+    const [, name, count, duration] = match;
+    this.items.push({
+      name: name,
+      count: Number.parseInt(count, 10),
+      duration: Number.parseFloat(duration),
+    });
+  }
+}
+
+// Xcode 16 "get log" returns plain JSON, the legacy format wraps every value as { _value } or { _values }
+type LogNode = { [key: string]: any };
+
+function unwrapValue(value: any): any {
+  if (value && typeof value === "object" && "_value" in value) {
+    return value._value;
+  }
+  return value;
+}
+
+function unwrapArray(value: any): LogNode[] {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  if (value && typeof value === "object" && Array.isArray(value._values)) {
+    return value._values;
+  }
+  return [];
+}
+
+/**
+ * Get the build log from the result bundle: the tree of sections with the title, duration and the
+ * output of each build step
+ */
+async function getBuildLog(resultBundlePath: string): Promise<LogNode> {
+  try {
+    const output = await exec({
+      command: "xcrun",
+      args: ["xcresulttool", "get", "log", "--type", "build", "--path", resultBundlePath],
+    });
+    return JSON.parse(output);
+  } catch (error) {
+    // Before Xcode 16 the log is available only by the reference from the root object
+    console.debug("Failed to get build log, trying legacy format", { error: error });
+  }
+
+  const rootOutput = await exec({
+    command: "xcrun",
+    args: ["xcresulttool", "get", "--format", "json", "--path", resultBundlePath],
+  });
+  const root = JSON.parse(rootOutput);
+  const action = unwrapArray(root.actions)[0];
+  const logId = unwrapValue(action?.buildResult?.logRef?.id);
+  if (!logId) {
+    return {};
+  }
+  const logOutput = await exec({
+    command: "xcrun",
+    args: ["xcresulttool", "get", "--format", "json", "--path", resultBundlePath, "--id", logId],
+  });
+  return JSON.parse(logOutput);
+}
+
+function getFilePath(node: LogNode, title: string): string | null {
+  const url: string | undefined = unwrapValue(node.location?.url) ?? unwrapValue(node.url);
+  if (url?.startsWith("file://")) {
+    return decodeURIComponent(url.slice("file://".length).replace(/#.*$/, ""));
+  }
+  const match = title.match(COMPILE_TITLE_REGEXP);
+  // Batch mode compiles several files in one step: "Compiling A.swift, B.swift"
+  if (!match || match[1].includes(", ")) {
+    return null;
+  }
+  return match[1];
+}
+
+export function parseTypeCheckLines(output: string): BuildTimingTypeCheck[] {
+  const typeChecks: BuildTimingTypeCheck[] = [];
+  for (const line of output.split("\n")) {
+    const match = line.match(TYPE_CHECK_LINE_REGEXP);
+    if (!match) {
+      continue;
+    }
+    const [, duration, file, lineNumber, column, name] = match;
+    typeChecks.push({
+      file: file,
+      line: Number.parseInt(lineNumber, 10),
+      column: Number.parseInt(column, 10),
+      name: name?.trim() || null,
+      duration: Number.parseFloat(duration) / 1000,
+    });
+  }
+  return typeChecks;
+}
+
+/**
+ * Walk the build log and collect the duration of each target, compiled file and type checked
+ * function. The same function is type checked for each architecture, so only the slowest is kept.
+ */
+export function parseBuildLog(log: LogNode): Pick<BuildTimingRun, "duration" | "targets" | "files" | "typeChecks"> {
+  const targets = new Map<string, number>();
+  const files = new Map<string, BuildTimingFile>();
+  const typeChecks = new Map<string, BuildTimingTypeCheck>();
+
+  const visit = (node: LogNode, target: string | null) => {
+    const title: string = unwrapValue(node.title) ?? "";
+    const duration = Number(unwrapValue(node.duration) ?? 0);
+
+    let currentTarget = target;
+    const targetMatch = title.match(TARGET_TITLE_REGEXP);
+    if (targetMatch) {
+      currentTarget = targetMatch[1];
+      targets.set(currentTarget, (targets.get(currentTarget) ?? 0) + duration);
+    }
+
+    if (title.startsWith("Compil")) {
+      const filePath = getFilePath(node, title);
+      if (filePath) {
+        const file = files.get(filePath) ?? { path: filePath, target: currentTarget, duration: 0 };
+        file.duration += duration;
+        files.set(filePath, file);
+      }
+    }
+
+    const emittedOutput: string | undefined = unwrapValue(node.emittedOutput);
+    if (emittedOutput) {
+      for (const typeCheck of parseTypeCheckLines(emittedOutput)) {
+        const key = `${typeCheck.file}:${typeCheck.line}:${typeCheck.column}:${typeCheck.name}`;
+        const existing = typeChecks.get(key);
+        if (!existing || existing.duration < typeCheck.duration) {
+          typeChecks.set(key, typeCheck);
+        }
+      }
+    }
+
+    for (const subsection of unwrapArray(node.subsections)) {
+      visit(subsection, currentTarget);
+    }
+  };
+  visit(log, null);
+
+  const rootDuration = unwrapValue(log.duration);
+  return {
+    duration: rootDuration === undefined ? null : Number(rootDuration),
+    targets: [...targets.entries()]
+      .map(([name, duration]) => ({ name: name, duration: duration }))
+      .sort((a, b) => b.duration - a.duration),
+    files: [...files.values()].sort((a, b) => b.duration - a.duration).slice(0, MAX_FILES),
+    typeChecks: [...typeChecks.values()].sort((a, b) => b.duration - a.duration).slice(0, MAX_TYPE_CHECKS),
+  };
+}
+
+export async function readBuildTimingRuns(storagePath: string): Promise<BuildTimingRun[]> {
+  const runsPath = path.join(getBuildTimingPath(storagePath), RUNS_FILE);
+  try {
+    const content = await fs.readFile(runsPath, "utf-8");
+    return JSON.parse(content) as BuildTimingRun[];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+}
+
+export async function saveBuildTimingRun(storagePath: string, run: BuildTimingRun): Promise<void> {
+  const runs = await readBuildTimingRuns(storagePath);
+  const newRuns = [run, ...runs].slice(0, MAX_RUNS);
+
+  const timingPath = getBuildTimingPath(storagePath);
+  await createDirectory(timingPath);
+  await fs.writeFile(path.join(timingPath, RUNS_FILE), JSON.stringify(newRuns), "utf-8");
+}
+
+/**
+ * Build the scheme with the timing enabled, then parse the result bundle and save the run to the
+ * timing history, so the next builds can be compared with it
+ */
+export async function buildWithTiming(
+  runtime: BuildRuntimeContext,
+  terminal: TaskTerminal,
+  options: {
+    scheme: string;
+    sdk: string;
+    configuration: string;
+    xcworkspace: string;
+    destinationRaw: string;
+  },
+): Promise<BuildTimingRun | null> {
+  const summaryParser = new BuildTimingSummaryParser();
+  await buildApp(runtime, terminal, {
+    scheme: options.scheme,
+    sdk: options.sdk,
+    configuration: options.configuration,
+    shouldBuild: true,
+    shouldClean: false,
+    shouldTest: false,
+    xcworkspace: options.xcworkspace,
+    destinationRaw: options.destinationRaw,
+    debug: false,
+    timing: true,
+    onOutputLine: async ({ value }) => summaryParser.parseLine(value),
+  });
+  if (runtime.dryRun) {
+    return null;
+  }
+
+  runtime.updateProgressStatus("Parsing build timing");
+  const log = await getBuildLog(getResultBundlePath(runtime, options.scheme));
+  const parsed = parseBuildLog(log);
+
+  const createdAt = new Date();
+  const run: BuildTimingRun = {
+    id: createdAt.toISOString(),
+    scheme: options.scheme,
+    configuration: options.configuration,
+    createdAt: createdAt.toISOString(),
+    duration: parsed.duration,
+    summary: [...summaryParser.items].sort((a, b) => b.duration - a.duration),
+    targets: parsed.targets,
+    files: parsed.files,
+    typeChecks: parsed.typeChecks,
+  };
+  await saveBuildTimingRun(runtime.storagePath, run);
+  return run;
+}
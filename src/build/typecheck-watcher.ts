@@ -0,0 +1,80 @@
+import * as vscode from "vscode";
+import type { ExtensionContext } from "../common/commands";
+import { getWorkspaceConfig } from "../common/config";
+import { commonLogger } from "../common/logger";
+import { typecheckFile } from "./typecheck";
+import { getWorkspacePath } from "./utils";
+
+/**
+ * Type check the module of the saved Swift file when "build.typecheckOnSave" is enabled. Only the last
+ * save matters, so the previous type checking is cancelled.
+ */
+class TypecheckOnSaveWatcher {
+  private disposable: vscode.Disposable;
+  private abortController: AbortController | null = null;
+
+  constructor(private extension: ExtensionContext) {
+    this.disposable = vscode.workspace.onDidSaveTextDocument((document) => this.handleSave(document));
+  }
+
+  private handleSave(document: vscode.TextDocument) {
+    // Checked on each save, so the setting can be toggled without reloading the window
+    const isEnabled = getWorkspaceConfig("build.typecheckOnSave") ?? false;
+    if (!isEnabled || document.languageId !== "swift") {
+      return;
+    }
+
+    const storagePath = this.extension.storageUri?.fsPath;
+    if (!storagePath) {
+      return;
+    }
+
+    this.abortController?.abort();
+    const abortController = new AbortController();
+    this.abortController = abortController;
+
+    typecheckFile({
+      storagePath: storagePath,
+      workspacePath: getWorkspacePath(),
+      filePath: document.uri.fsPath,
+      signal: abortController.signal,
+    })
+      .then((result) => {
+        if (!result) {
+          // The module has not been built yet, the next build will show the errors anyway
+          commonLogger.debug("No compiler invocation to type check the saved file", {
+            file: document.uri.fsPath,
+          });
+          return;
+        }
+        if (abortController.signal.aborted) {
+          return;
+        }
+        this.extension.buildManager.setTypecheckDiagnostics(result.files, result.diagnostics);
+      })
+      .catch((error) => {
+        if (abortController.signal.aborted) {
+          return;
+        }
+        commonLogger.error("Failed to type check the saved file", {
+          file: document.uri.fsPath,
+          error: error,
+        });
+      })
+      .finally(() => {
+        if (this.abortController === abortController) {
+          this.abortController = null;
+        }
+      });
+  }
+
+  dispose() {
+    this.abortController?.abort();
+    this.abortController = null;
+    this.disposable.dispose();
+  }
+}
+
+export function createTypecheckOnSaveWatcher(extension: ExtensionContext): vscode.Disposable {
+  return new TypecheckOnSaveWatcher(extension);
+}
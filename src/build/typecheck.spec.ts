@@ -0,0 +1,127 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { parseSwiftCompileCommands } from "./build-log";
+import { getSourceFiles, getTypecheckArguments, removeOutputArguments } from "./typecheck";
+
+const DERIVED_DATA = "/Users/user/Library/Developer/Xcode/DerivedData/App-abcdef";
+const OBJECTS = `${DERIVED_DATA}/Build/Intermediates.noindex/App.build/Debug-iphonesimulator/App.build/Objects-normal/arm64`;
+
+// The swiftc invocation printed by Xcode 16 for an iOS app target
+const XCODE_16_LOG = [
+  "SwiftDriver App normal arm64 com.apple.xcode.tools.swift.compiler (in target 'App' from project 'App')",
+  "    cd /Users/user/App",
+  [
+    "    builtin-SwiftDriver --",
+    "/Applications/Xcode.app/Contents/Developer/Toolchains/XcodeDefault.xctoolchain/usr/bin/swiftc",
+    "-module-name App -Onone -enforce-exclusivity\\=checked",
+    `@${OBJECTS}/App.SwiftFileList`,
+    "-DDEBUG -enable-bare-slash-regex",
+    "-sdk /Applications/Xcode.app/Contents/Developer/Platforms/iPhoneSimulator.platform/Developer/SDKs/iPhoneSimulator18.0.sdk",
+    "-target arm64-apple-ios17.0-simulator -g",
+    `-module-cache-path ${DERIVED_DATA}/../ModuleCache.noindex`,
+    "-Xfrontend -serialize-debugging-options -enable-testing",
+    `-index-store-path ${DERIVED_DATA}/Index.noindex/DataStore`,
+    "-swift-version 5",
+    `-I ${DERIVED_DATA}/Build/Products/Debug-iphonesimulator`,
+    "-c -j10 -enable-batch-mode -incremental",
+    `-output-file-map ${OBJECTS}/App-OutputFileMap.json`,
+    "-use-frontend-parseable-output -save-temps -no-color-diagnostics -serialize-diagnostics",
+    "-emit-dependencies -emit-module",
+    `-emit-module-path ${OBJECTS}/App.swiftmodule`,
+    "-emit-const-values",
+    `-Xfrontend -const-gather-protocols-file -Xfrontend ${OBJECTS}/App_const_extract_protocols.json`,
+    "-emit-objc-header",
+    `-emit-objc-header-path ${OBJECTS}/App-Swift.h`,
+    "-working-directory /Users/user/App -experimental-emit-module-separately -disable-cmo",
+  ].join(" "),
+].join("\n");
+
+describe("type check arguments", () => {
+  it("should keep only the flags, search paths and SDK of the Xcode build", () => {
+    const [command] = parseSwiftCompileCommands(XCODE_16_LOG);
+    expect(getTypecheckArguments(command)).toEqual([
+      "-module-name",
+      "App",
+      "-Onone",
+      "-enforce-exclusivity=checked",
+      `@${OBJECTS}/App.SwiftFileList`,
+      "-DDEBUG",
+      "-enable-bare-slash-regex",
+      "-sdk",
+      "/Applications/Xcode.app/Contents/Developer/Platforms/iPhoneSimulator.platform/Developer/SDKs/iPhoneSimulator18.0.sdk",
+      "-target",
+      "arm64-apple-ios17.0-simulator",
+      "-g",
+      "-module-cache-path",
+      `${DERIVED_DATA}/../ModuleCache.noindex`,
+      "-Xfrontend",
+      "-serialize-debugging-options",
+      "-enable-testing",
+      "-swift-version",
+      "5",
+      "-I",
+      `${DERIVED_DATA}/Build/Products/Debug-iphonesimulator`,
+      "-j10",
+      "-no-color-diagnostics",
+      "-working-directory",
+      "/Users/user/App",
+      "-disable-cmo",
+      "-typecheck",
+    ]);
+  });
+
+  it("should remove all -emit-* options, including the ones added by the newer Xcode", () => {
+    const args = removeOutputArguments([
+      "-module-name",
+      "App",
+      "-emit-module-source-info-path",
+      "/tmp/App.swiftsourceinfo",
+      "-emit-module-doc-path",
+      "/tmp/App.swiftdoc",
+      "-emit-dependencies-path",
+      "/tmp/App.d",
+      "-emit-symbol-graph",
+      "-emit-symbol-graph-dir",
+      "/tmp/symbol-graph",
+      "-Xfrontend",
+      "-emit-reference-dependencies",
+      "-swift-version",
+      "6",
+    ]);
+    expect(args).toEqual(["-module-name", "App", "-swift-version", "6"]);
+  });
+});
+
+describe("module source files", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "sweetpad-typecheck-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("should read the files passed directly, with @file and with -filelist", async () => {
+    const fileList = path.join(directory, "App.SwiftFileList");
+    await fs.writeFile(fileList, "/Users/user/App/Sources/Content\\ View.swift\n/Users/user/App/Sources/Model.swift\n");
+    const otherFileList = path.join(directory, "Other.SwiftFileList");
+    await fs.writeFile(otherFileList, "Sources/Store.swift\n");
+
+    const files = await getSourceFiles({
+      module: "App",
+      target: "App",
+      directory: "/Users/user/App",
+      arguments: ["swiftc", "-module-name", "App", `@${fileList}`, "-filelist", otherFileList, "Sources/Main.swift"],
+      createdAt: new Date().toISOString(),
+    });
+    expect(files).toEqual([
+      "/Users/user/App/Sources/Content View.swift",
+      "/Users/user/App/Sources/Model.swift",
+      "/Users/user/App/Sources/Store.swift",
+      "/Users/user/App/Sources/Main.swift",
+    ]);
+  });
+});
@@ -0,0 +1,206 @@
+import { spawn } from "node:child_process";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { type SwiftCompileCommand, readSwiftCompileCommands } from "./build-log";
+import { type XcodebuildDiagnostic, XcodebuildOutputParser } from "./output-parser";
+
+export type TypecheckResult = {
+  module: string;
+  target: string | null;
+  // Source files of the module
+  files: string[];
+  diagnostics: XcodebuildDiagnostic[];
+  // Seconds
+  duration: number;
+};
+
+// Driver options that produce the build outputs: object files, the module, headers, the index, etc.
+// Type checking doesn't produce any of them, and some are rejected with "-typecheck". All "-emit-*"
+// options are outputs too, they are matched by the prefix because the list grows with each Xcode
+const OUTPUT_OPTIONS = new Set([
+  "-c",
+  "-incremental",
+  "-enable-batch-mode",
+  "-parseable-output",
+  "-use-frontend-parseable-output",
+  "-save-temps",
+  "-serialize-diagnostics",
+  "-experimental-emit-module-separately",
+]);
+const OUTPUT_OPTIONS_WITH_VALUE = new Set([
+  "-o",
+  "-output-file-map",
+  "-supplementary-output-file-map",
+  "-const-gather-protocols-file",
+  "-index-store-path",
+]);
+
+// "-emit-module-path <path>", "-emit-symbol-graph-dir <dir>"
+const EMIT_OPTION_WITH_VALUE_REGEXP = /^-emit-.+-(?:path|dir)$/;
+
+// "-emit-module", "-emit-objc-header", "-emit-dependencies"
+const EMIT_OPTION_REGEXP = /^-emit-/;
+
+function isOutputOptionWithValue(arg: string): boolean {
+  return OUTPUT_OPTIONS_WITH_VALUE.has(arg) || EMIT_OPTION_WITH_VALUE_REGEXP.test(arg);
+}
+
+function isOutputOption(arg: string): boolean {
+  return OUTPUT_OPTIONS.has(arg) || EMIT_OPTION_REGEXP.test(arg);
+}
+
+/**
+ * ".SwiftFileList" has one path per line, spaces are escaped with backslash
+ */
+async function readFileList(listPath: string): Promise<string[]> {
+  try {
+    const content = await fs.readFile(listPath, "utf-8");
+    return content
+      .split("\n")
+      .map((line) => line.trim().replace(/\\(.)/g, "$1"))
+      .filter((line) => !!line);
+  } catch (error) {
+    // The list is removed with the derived data
+    console.debug("Failed to read file list", { listPath: listPath, error: error });
+    return [];
+  }
+}
+
+/**
+ * Get the source files of the module: passed directly, with "@file" or with "-filelist file"
+ */
+export async function getSourceFiles(command: SwiftCompileCommand): Promise<string[]> {
+  const files: string[] = [];
+  const args = command.arguments.slice(1);
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg.startsWith("@")) {
+      files.push(...(await readFileList(arg.slice(1))));
+    } else if (arg === "-filelist" && args[i + 1]) {
+      files.push(...(await readFileList(args[i + 1])));
+      i++;
+    } else if (arg.endsWith(".swift") && !arg.startsWith("-")) {
+      files.push(arg);
+    }
+  }
+  return files.map((file) => path.resolve(command.directory, file));
+}
+
+/**
+ * Find the module that compiles the file, starting from the most recently built one
+ */
+export async function findSwiftCompileCommand(
+  storagePath: string,
+  filePath: string,
+): Promise<{ command: SwiftCompileCommand; files: string[] } | null> {
+  const commands = Object.values(await readSwiftCompileCommands(storagePath)).sort((a, b) =>
+    b.createdAt.localeCompare(a.createdAt),
+  );
+  const resolvedPath = path.resolve(filePath);
+  for (const command of commands) {
+    const files = await getSourceFiles(command);
+    if (files.includes(resolvedPath)) {
+      return { command: command, files: files };
+    }
+  }
+  return null;
+}
+
+/**
+ * Remove the options that produce the build outputs from the driver arguments, the rest is what
+ * the compiler needs to understand the sources: flags, search paths and the SDK
+ */
+export function removeOutputArguments(commandArgs: string[]): string[] {
+  const args: string[] = [];
+  for (let i = 0; i < commandArgs.length; i++) {
+    const arg = commandArgs[i];
+    // The frontend options are passed in pairs: "-Xfrontend -const-gather-protocols-file -Xfrontend <path>"
+    if (arg === "-Xfrontend" && commandArgs[i + 1] !== undefined) {
+      const frontendArg = commandArgs[i + 1];
+      if (isOutputOptionWithValue(frontendArg)) {
+        i += commandArgs[i + 2] === "-Xfrontend" ? 3 : 1;
+        continue;
+      }
+      if (isOutputOption(frontendArg)) {
+        i++;
+        continue;
+      }
+    }
+    if (isOutputOptionWithValue(arg)) {
+      i++;
+      continue;
+    }
+    if (isOutputOption(arg)) {
+      continue;
+    }
+    args.push(arg);
+  }
+  return args;
+}
+
+/**
+ * Turn the build invocation of the driver into the type checking of the whole module: the same
+ * flags, search paths and the SDK, but without producing any outputs
+ */
+export function getTypecheckArguments(command: SwiftCompileCommand): string[] {
+  return [...removeOutputArguments(command.arguments.slice(1)), "-typecheck"];
+}
+
+/**
+ * Type check the module of the file with the swiftc invocation from the previous build and collect
+ * the compiler diagnostics. Returns null when the module of the file has never been built, so there
+ * is no invocation to reuse.
+ */
+export async function typecheckFile(options: {
+  storagePath: string;
+  workspacePath: string;
+  filePath: string;
+  signal?: AbortSignal;
+}): Promise<TypecheckResult | null> {
+  const found = await findSwiftCompileCommand(options.storagePath, options.filePath);
+  if (!found) {
+    return null;
+  }
+  const { command, files } = found;
+
+  const startedAt = Date.now();
+  const parser = new XcodebuildOutputParser({ workspacePath: options.workspacePath });
+  await new Promise<void>((resolve, reject) => {
+    const child = spawn(command.arguments[0], getTypecheckArguments(command), {
+      cwd: command.directory,
+      signal: options.signal,
+    });
+
+    // The driver prints the diagnostics to stderr, but let's not rely on that
+    const buffers = { stdout: "", stderr: "" };
+    const onData = (stream: keyof typeof buffers, data: Buffer) => {
+      const lines = (buffers[stream] + data.toString()).split("\n");
+      buffers[stream] = lines.pop() ?? "";
+      for (const line of lines) {
+        parser.formatLine(line);
+      }
+    };
+    child.stdout.on("data", (data: Buffer) => onData("stdout", data));
+    child.stderr.on("data", (data: Buffer) => onData("stderr", data));
+    child.on("error", reject);
+    // The non-zero exit code only means that there are errors, they are reported as diagnostics
+    child.on("close", () => {
+      for (const rest of [buffers.stdout, buffers.stderr]) {
+        if (rest) {
+          parser.formatLine(rest);
+        }
+      }
+      // Finish the details of the last diagnostic
+      parser.formatLine("");
+      resolve();
+    });
+  });
+
+  return {
+    module: command.module,
+    target: command.target,
+    files: files,
+    diagnostics: parser.getDiagnostics(),
+    duration: (Date.now() - startedAt) / 1000,
+  };
+}
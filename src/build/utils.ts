@@ -1,18 +1,20 @@
 import path from "node:path";
 import * as vscode from "vscode";
-import { type QuickPickItem, showQuickPick } from "../common/quick-pick";
+import { type QuickPickItem, showInputBox, showQuickPick } from "../common/quick-pick";
 
 import { askConfigurationBase } from "../common/askers";
-import { getBuildSettingsToAskDestination, getSchemes } from "../common/cli/scripts";
+import { getBuildSettingsToAskDestination, getBuildSettingsToLaunch, getSchemes } from "../common/cli/scripts";
 import type { ExtensionContext } from "../common/commands";
 import { getWorkspaceConfig } from "../common/config";
 import { ExtensionError } from "../common/errors";
 import { createDirectory, findFilesRecursive, isFileExists, removeDirectory } from "../common/files";
 import { commonLogger } from "../common/logger";
+import { XcodeWorkspace } from "../common/xcode/workspace";
 import type { DestinationPlatform } from "../destination/constants";
 import type { Destination } from "../destination/types";
 import { splitSupportedDestinatinos } from "../destination/utils";
 import type { SimulatorDestination } from "../simulators/types";
+import { EXPORT_METHODS, type ExportOptions, type ExportOptionsSource } from "./archive";
 
 export type SelectedDestination = {
   type: "simulator" | "device";
@@ -67,7 +69,8 @@ export async function askSimulator(
 export async function askDestinationToRunOn(
   context: ExtensionContext,
   options: {
-    scheme: string;
+    // Without the scheme, all destinations are shown as supported
+    scheme: string | undefined;
     configuration: string;
     sdk: string | undefined;
     xcworkspace: string;
@@ -91,13 +94,15 @@ export async function askDestinationToRunOn(
 
   // We can remove platforms that are not supported by the build settings
   // WARNING: if want to avoid refetching build settings, move this logic to build manager or build context (not exist yet)
-  const buildSettings = await getBuildSettingsToAskDestination({
-    scheme: options.scheme,
-    configuration: options.configuration,
-    sdk: options.sdk,
-    xcworkspace: options.xcworkspace,
-    derivedDataPath: prepareDerivedDataPath(),
-  });
+  const buildSettings = options.scheme
+    ? await getBuildSettingsToAskDestination({
+        scheme: options.scheme,
+        configuration: options.configuration,
+        sdk: options.sdk,
+        xcworkspace: options.xcworkspace,
+        derivedDataPath: prepareDerivedDataPath(),
+      })
+    : null;
   const supportedPlatforms = buildSettings?.supportedPlatforms;
 
   return await selectDestinationForBuild(context, {
@@ -207,6 +212,65 @@ export async function askSchemeForBuild(
   return schemeName;
 }
 
+/**
+ * Ask user to select the target that compiles the given file. When the file belongs to several targets,
+ * the selected one is remembered for the files of the same set of targets.
+ */
+export async function askTargetForFile(
+  context: ExtensionContext,
+  options: {
+    xcworkspace: string;
+    filePath: string;
+  },
+): Promise<{ target: string; project: string }> {
+  context.updateProgressStatus("Searching for target of the file");
+
+  const workspace = await XcodeWorkspace.parseWorkspace(options.xcworkspace);
+  const projects = await workspace.getProjects();
+  const candidates = projects.flatMap((project) =>
+    project.getTargetsForFile(options.filePath).map((target) => ({ target: target, project: project.projectPath })),
+  );
+
+  if (candidates.length === 0) {
+    throw new ExtensionError("The file is not compiled by any target of the workspace", {
+      context: {
+        filePath: options.filePath,
+        xcworkspace: options.xcworkspace,
+      },
+    });
+  }
+  if (candidates.length === 1) {
+    return candidates[0];
+  }
+
+  // ex: "/path/to/App.xcodeproj:App,/path/to/App.xcodeproj:AppTests"
+  const key = candidates
+    .map((candidate) => `${candidate.project}:${candidate.target}`)
+    .sort()
+    .join(",");
+  const remembered = context.getWorkspaceState("build.xcodeFileTargets") ?? {};
+  const cached = candidates.find((candidate) => `${candidate.project}:${candidate.target}` === remembered[key]);
+  if (cached) {
+    return cached;
+  }
+
+  const workspacePath = getWorkspacePath();
+  const selected = await showQuickPick({
+    title: "Select target to build",
+    items: candidates.map((candidate) => ({
+      label: candidate.target,
+      detail: path.relative(workspacePath, candidate.project),
+      context: candidate,
+    })),
+  });
+
+  context.updateWorkspaceState("build.xcodeFileTargets", {
+    ...remembered,
+    [key]: `${selected.context.project}:${selected.context.target}`,
+  });
+  return selected.context;
+}
+
 /**
  * It's absolute path to current opened workspace
  */
@@ -419,3 +483,105 @@ export async function restartSwiftLSP() {
     });
   }
 }
+
+/**
+ * Ask user how to export the archive: with ExportOptions.plist from the settings or from the
+ * workspace, with a new one generated from the answers, or not export at all
+ */
+export async function askExportOptions(
+  context: ExtensionContext,
+  options: {
+    scheme: string;
+    configuration: string;
+    sdk: string;
+    xcworkspace: string;
+  },
+): Promise<ExportOptionsSource> {
+  const workspacePath = getWorkspacePath();
+
+  const configPath = getWorkspaceConfig("build.exportOptionsPath");
+  if (configPath) {
+    return { type: "file", path: path.isAbsolute(configPath) ? configPath : path.join(workspacePath, configPath) };
+  }
+  const configOptions = getWorkspaceConfig("build.exportOptions");
+  if (configOptions?.method) {
+    return { type: "generated", options: configOptions };
+  }
+
+  context.updateProgressStatus("Searching for ExportOptions.plist");
+  const plistPaths = await findFilesRecursive({
+    directory: workspacePath,
+    depth: 4,
+    ignore: ["node_modules", "Pods", ".build", "DerivedData"],
+    matcher: (file) =>
+      file.isFile() && file.name.endsWith(".plist") && file.name.toLowerCase().includes("exportoptions"),
+  });
+
+  const selected = await showQuickPick<ExportOptionsSource | "generate">({
+    title: "Select ExportOptions.plist",
+    items: [
+      ...plistPaths.map((plistPath) => ({
+        label: path.relative(workspacePath, plistPath),
+        context: { type: "file" as const, path: plistPath },
+      })),
+      {
+        label: "Generate new ExportOptions.plist",
+        detail: "Answer a few questions about the export method and signing",
+        context: "generate" as const,
+      },
+      {
+        label: "Don't export",
+        detail: "Only create the .xcarchive",
+        context: { type: "none" as const },
+      },
+    ],
+  });
+  if (selected.context !== "generate") {
+    return selected.context;
+  }
+
+  const method = await showQuickPick({
+    title: "Select export method",
+    items: EXPORT_METHODS.map((item) => ({
+      label: item.method,
+      detail: item.description,
+      context: item.method,
+    })),
+  });
+
+  // Build settings are used only to suggest the team and the bundle identifier
+  const buildSettings = await getBuildSettingsToLaunch({
+    scheme: options.scheme,
+    configuration: options.configuration,
+    sdk: options.sdk,
+    xcworkspace: options.xcworkspace,
+    derivedDataPath: prepareDerivedDataPath(),
+  }).catch(() => null);
+
+  const teamID = await showInputBox({
+    title: "Enter team ID (leave empty to use the team from the project)",
+    value: buildSettings?.developmentTeam,
+  });
+
+  const signingStyle = await showQuickPick({
+    title: "Select signing style",
+    items: [
+      { label: "automatic", detail: "Xcode manages the signing", context: "automatic" as const },
+      { label: "manual", detail: "Use the provisioning profile", context: "manual" as const },
+    ],
+  });
+
+  const exportOptions: ExportOptions = {
+    method: method.context,
+    teamID: teamID || undefined,
+    signingStyle: signingStyle.context,
+  };
+  if (signingStyle.context === "manual") {
+    const bundleId = buildSettings?.bundleIdentifier ?? (await showInputBox({ title: "Enter bundle identifier" }));
+    const profile = await showInputBox({ title: `Enter provisioning profile name or UUID for "${bundleId}"` });
+    if (bundleId && profile) {
+      exportOptions.provisioningProfiles = { [bundleId]: profile };
+    }
+  }
+  return { type: "generated", options: exportOptions };
+}
@@ -0,0 +1,497 @@
+import { ExtensionError } from "../common/errors";
+import { type CliOutputFormat, parseCliOutputFormat } from "./output";
+
+export type CliCommand =
+  | "build"
+  | "run"
+  | "clean"
+  | "launch"
+  | "test"
+  | "archive"
+  | "list"
+  | "profiles"
+  | "state"
+  | "completion"
+  | "doctor"
+  | "sim"
+  | "serve"
+  | "bsp";
+
+export type CliOptions = {
+  command?: CliCommand;
+  positionals: string[];
+  workspaceRoot?: string;
+  xcworkspace?: string;
+  scheme?: string;
+  configuration?: string;
+  destinationId?: string;
+  destinationName?: string;
+  sdk?: string;
+  arch?: string;
+  debug?: boolean;
+  launchArgs: string[];
+  launchEnv: Record<string, string>;
+  onlyTesting: string[];
+  skipTesting: string[];
+  testMode?: "build-for-testing" | "test-without-building";
+  exportOptionsPath?: string;
+  exportMethod?: string;
+  teamId?: string;
+  signingStyle?: "automatic" | "manual";
+  provisioningProfiles: Record<string, string>;
+  output: CliOutputFormat;
+  nonInteractive?: boolean;
+  useState?: boolean;
+  watch?: boolean;
+  dryRun?: boolean;
+  timing?: boolean;
+  repick?: boolean;
+  profile?: string;
+  stdio?: boolean;
+  help?: boolean;
+};
+
+// Values that shell completion can suggest for the option or the positional argument
+export type CliCompletionKind =
+  | "xcworkspace"
+  | "scheme"
+  | "configuration"
+  | "destination"
+  | "destinationId"
+  | "profile"
+  | "sdk"
+  | "arch"
+  | "output"
+  | "exportMethod"
+  | "signingStyle"
+  | "path";
+
+type CliCommandSpec = {
+  name: CliCommand;
+  usage?: string;
+  description: string;
+  // Values for the positional arguments, by their index
+  positionals?: string[][];
+};
+
+type CliOptionSpec = {
+  flag: string;
+  alias?: string;
+  // Placeholder for the value in the help, options without it are boolean flags
+  value?: string;
+  description: string;
+  completion?: CliCompletionKind;
+  apply: (options: CliOptions, value: string) => void;
+};
+
+export const CLI_COMMANDS: CliCommandSpec[] = [
+  { name: "build", description: "Build the app" },
+  { name: "run", description: "Build and run the app" },
+  { name: "clean", description: "Clean build artifacts" },
+  { name: "launch", description: "Build and launch in debug mode" },
+  { name: "test", description: "Build and run tests" },
+  { name: "archive", description: "Archive and export the app (.xcarchive, .ipa)" },
+  {
+    name: "list",
+    usage: "<kind>",
+    description: "List workspaces|schemes|configurations|destinations|targets|archives",
+    positionals: [["workspaces", "schemes", "configurations", "destinations", "targets", "archives"]],
+  },
+  { name: "profiles", description: "List profiles from .sweetpad/profiles.json" },
+  { name: "doctor", description: "Check Xcode, tools and project setup" },
+  {
+    name: "sim",
+    usage: "<action>",
+    description: "Simulators: list | boot | shutdown | erase | open | install | uninstall | launch | terminate",
+    positionals: [["list", "boot", "shutdown", "erase", "open", "install", "uninstall", "launch", "terminate"]],
+  },
+  {
+    name: "state",
+    usage: "<action>",
+    description: "Remembered selections: show | set <key> <value> | forget <key> | reset",
+    positionals: [
+      ["show", "set", "forget", "reset"],
+      ["xcworkspace", "scheme", "configuration", "destination", "arch"],
+    ],
+  },
+  { name: "serve", description: "Run the JSON-RPC server for editor integrations (with --stdio)" },
+  { name: "bsp", description: "Run the Build Server Protocol server for sourcekit-lsp (see buildServer.json)" },
+  {
+    name: "completion",
+    usage: "<shell>",
+    description: "Print the completion script for bash, zsh or fish",
+    positionals: [["bash", "zsh", "fish"]],
+  },
+];
+
+export const CLI_OPTIONS: CliOptionSpec[] = [
+  {
+    flag: "--workspace-root",
+    value: "<path>",
+    description: "Workspace root (default: cwd)",
+    completion: "path",
+    apply: (options, value) => {
+      options.workspaceRoot = value;
+    },
+  },
+  {
+    flag: "--xcworkspace",
+    value: "<path>",
+    description: "Xcode workspace path",
+    completion: "xcworkspace",
+    apply: (options, value) => {
+      options.xcworkspace = value;
+    },
+  },
+  {
+    flag: "--scheme",
+    value: "<name>",
+    description: "Scheme name",
+    completion: "scheme",
+    apply: (options, value) => {
+      options.scheme = value;
+    },
+  },
+  {
+    flag: "--configuration",
+    value: "<name>",
+    description: "Build configuration",
+    completion: "configuration",
+    apply: (options, value) => {
+      options.configuration = value;
+    },
+  },
+  {
+    flag: "--destination-id",
+    value: "<id>",
+    description: "Destination UDID",
+    completion: "destinationId",
+    apply: (options, value) => {
+      options.destinationId = value;
+    },
+  },
+  {
+    flag: "--destination",
+    value: "<name>",
+    description: "Destination name or label substring",
+    completion: "destination",
+    apply: (options, value) => {
+      options.destinationName = value;
+    },
+  },
+  {
+    flag: "--sdk",
+    value: "<sdk>",
+    description: "Xcode SDK (macosx, iphonesimulator, ...)",
+    completion: "sdk",
+    apply: (options, value) => {
+      options.sdk = value;
+    },
+  },
+  {
+    flag: "--arch",
+    value: "<arch>",
+    description: "Architecture (x86_64, arm64)",
+    completion: "arch",
+    apply: (options, value) => {
+      options.arch = value;
+    },
+  },
+  {
+    flag: "--debug",
+    description: "Enable debug build settings",
+    apply: (options) => {
+      options.debug = true;
+    },
+  },
+  {
+    flag: "--launch-args",
+    value: "<args>",
+    description: "Comma-separated or JSON array",
+    apply: (options, value) => {
+      options.launchArgs.push(...parseListValue(value));
+    },
+  },
+  {
+    flag: "--launch-env",
+    value: "<env>",
+    description: "KEY=VALUE pairs or JSON object",
+    apply: (options, value) => {
+      Object.assign(options.launchEnv, parseEnvValue(value));
+    },
+  },
+  {
+    flag: "--only-testing",
+    value: "<id>",
+    description: "Run only these tests (Target[/Class[/method]]), repeatable",
+    apply: (options, value) => {
+      options.onlyTesting.push(...parseListValue(value));
+    },
+  },
+  {
+    flag: "--skip-testing",
+    value: "<id>",
+    description: "Skip these tests (Target[/Class[/method]]), repeatable",
+    apply: (options, value) => {
+      options.skipTesting.push(...parseListValue(value));
+    },
+  },
+  {
+    flag: "--build-for-testing",
+    description: "Only build the test bundles (test command)",
+    apply: (options) => {
+      options.testMode = "build-for-testing";
+    },
+  },
+  {
+    flag: "--test-without-building",
+    description: "Run tests from a previous build-for-testing (test command)",
+    apply: (options) => {
+      options.testMode = "test-without-building";
+    },
+  },
+  {
+    flag: "--export-options",
+    value: "<path>",
+    description: "ExportOptions.plist to export the archive with (archive command)",
+    completion: "path",
+    apply: (options, value) => {
+      options.exportOptionsPath = value;
+    },
+  },
+  {
+    flag: "--export-method",
+    value: "<method>",
+    description: "Generate ExportOptions.plist with this method (archive command)",
+    completion: "exportMethod",
+    apply: (options, value) => {
+      options.exportMethod = value;
+    },
+  },
+  {
+    flag: "--team-id",
+    value: "<id>",
+    description: "Team ID for the generated ExportOptions.plist",
+    apply: (options, value) => {
+      options.teamId = value;
+    },
+  },
+  {
+    flag: "--signing-style",
+    value: "<style>",
+    description: "Signing style for the generated ExportOptions.plist: automatic or manual",
+    completion: "signingStyle",
+    apply: (options, value) => {
+      if (value !== "automatic" && value !== "manual") {
+        throw new ExtensionError(`Unknown signing style: ${value}. Supported styles: automatic, manual`);
+      }
+      options.signingStyle = value;
+    },
+  },
+  {
+    flag: "--provisioning-profile",
+    value: "<bundle=profile>",
+    description: "Provisioning profile for the bundle identifier, repeatable",
+    apply: (options, value) => {
+      Object.assign(options.provisioningProfiles, parseEnvValue(value));
+    },
+  },
+  {
+    flag: "--output",
+    value: "<format>",
+    description: "Output format: text (default) or json (NDJSON events)",
+    completion: "output",
+    apply: (options, value) => {
+      options.output = parseCliOutputFormat(value);
+    },
+  },
+  {
+    flag: "--json",
+    description: "Same as --output json (list prints a JSON array)",
+    apply: (options) => {
+      options.output = "json";
+    },
+  },
+  {
+    flag: "--non-interactive",
+    description: "Fail instead of prompting (default when stdin is not a TTY or CI=true)",
+    apply: (options) => {
+      options.nonInteractive = true;
+    },
+  },
+  {
+    flag: "--use-state",
+    description: "Use remembered selections in non-interactive mode",
+    apply: (options) => {
+      options.useState = true;
+    },
+  },
+  {
+    flag: "--repick",
+    description: "Ignore remembered selections and remember the new ones",
+    apply: (options) => {
+      options.repick = true;
+    },
+  },
+  {
+    flag: "--profile",
+    value: "<name>",
+    description: "Use the profile from .sweetpad/profiles.json",
+    completion: "profile",
+    apply: (options, value) => {
+      options.profile = value;
+    },
+  },
+  {
+    flag: "--watch",
+    description: "Rebuild and relaunch on source changes (build, run, launch)",
+    apply: (options) => {
+      options.watch = true;
+    },
+  },
+  {
+    flag: "--stdio",
+    description: "Talk JSON-RPC over stdin/stdout (serve command)",
+    apply: (options) => {
+      options.stdio = true;
+    },
+  },
+  {
+    flag: "--dry-run",
+    description: "Print the resolved commands as a shell script without running them",
+    apply: (options) => {
+      options.dryRun = true;
+    },
+  },
+  {
+    flag: "--timing",
+    description: "Collect the build timing and show the slowest targets, files and functions (build)",
+    apply: (options) => {
+      options.timing = true;
+    },
+  },
+  {
+    flag: "--help",
+    alias: "-h",
+    description: "Show help",
+    apply: (options) => {
+      options.help = true;
+    },
+  },
+];
+
+export function findOptionSpec(arg: string): CliOptionSpec | undefined {
+  return CLI_OPTIONS.find((spec) => spec.flag === arg || spec.alias === arg);
+}
+
+export function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    positionals: [],
+    launchArgs: [],
+    launchEnv: {},
+    onlyTesting: [],
+    skipTesting: [],
+    provisioningProfiles: {},
+    output: "text",
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("-")) {
+      if (options.command) {
+        options.positionals.push(arg);
+      } else {
+        options.command = arg as CliCommand;
+      }
+      continue;
+    }
+
+    const spec = findOptionSpec(arg);
+    if (!spec) {
+      throw new ExtensionError(`Unknown argument: ${arg}`);
+    }
+    if (!spec.value) {
+      spec.apply(options, "");
+      continue;
+    }
+
+    const next = argv[i + 1];
+    if (!next || next.startsWith("-")) {
+      throw new ExtensionError(`Missing value for ${arg}`);
+    }
+    spec.apply(options, next);
+    i++;
+  }
+
+  const commandSpec = CLI_COMMANDS.find((spec) => spec.name === options.command);
+  if (options.positionals.length > 0 && !commandSpec?.usage) {
+    throw new ExtensionError(`Unknown argument: ${options.positionals[0]}`);
+  }
+  return options;
+}
+
+function parseListValue(raw: string): string[] {
+  const trimmed = raw.trim();
+  if (trimmed.startsWith("[")) {
+    const parsed = JSON.parse(trimmed);
+    return Array.isArray(parsed) ? parsed : [];
+  }
+  if (!trimmed) {
+    return [];
+  }
+  return trimmed
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+function parseEnvValue(raw: string): Record<string, string> {
+  const trimmed = raw.trim();
+  if (trimmed.startsWith("{")) {
+    const parsed = JSON.parse(trimmed);
+    if (parsed && typeof parsed === "object") {
+      return parsed as Record<string, string>;
+    }
+    return {};
+  }
+
+  const env: Record<string, string> = {};
+  for (const item of trimmed.split(",")) {
+    const [key, ...rest] = item.split("=");
+    if (!key || rest.length === 0) {
+      continue;
+    }
+    env[key.trim()] = rest.join("=").trim();
+  }
+  return env;
+}
+
+export function printHelp(): void {
+  const commands = CLI_COMMANDS.map((spec) => `  ${spec.name.padEnd(10)}${spec.description}`);
+  const optionNames = CLI_OPTIONS.map((spec) => {
+    const flag = [spec.alias, spec.flag].filter(Boolean).join(", ");
+    return spec.value ? `${flag} ${spec.value}` : flag;
+  });
+  const width = Math.max(...optionNames.map((name) => name.length)) + 2;
+  const options = CLI_OPTIONS.map((spec, index) => `  ${optionNames[index].padEnd(width)}${spec.description}`);
+
+  process.stdout.write(
+    [
+      "SweetPad CLI",
+      "",
+      "Usage:",
+      "  sweetpad <command> [options]",
+      "",
+      "Commands:",
+      ...commands,
+      "",
+      "Options:",
+      ...options,
+      "",
+      "Environment:",
+      "  SWEETPAD_SCHEME, SWEETPAD_DESTINATION, SWEETPAD_DESTINATION_ID,",
+      "  SWEETPAD_BUILD_CONFIGURATION, SWEETPAD_BUILD_XCODEWORKSPACEPATH and other SWEETPAD_<CONFIG_KEY>",
+      "",
+    ].join("\n"),
+  );
+}
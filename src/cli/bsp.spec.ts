@@ -0,0 +1,179 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { PassThrough } from "node:stream";
+import { pathToFileURL } from "node:url";
+import {
+  type MessageConnection,
+  StreamMessageReader,
+  StreamMessageWriter,
+  createMessageConnection,
+} from "vscode-jsonrpc/node";
+import { saveClangCompileCommands, saveSwiftCompileCommands } from "../build/build-log";
+import { type SweetpadBuildServerConfig, getBuildServerConfigPath } from "../build/build-server";
+import { SweetpadBuildServer } from "./bsp";
+
+const TOOLCHAIN = "/Applications/Xcode.app/Contents/Developer/Toolchains/XcodeDefault.xctoolchain";
+const SWIFTC = `${TOOLCHAIN}/usr/bin/swiftc`;
+const CLANG = `${TOOLCHAIN}/usr/bin/clang`;
+const PROJECT = "/Users/user/App";
+
+async function writeConfig(workspacePath: string, storagePath: string): Promise<void> {
+  const config: SweetpadBuildServerConfig = {
+    name: "sweetpad",
+    version: "1.0.0",
+    bspVersion: "2.0.0",
+    languages: ["swift", "objective-c"],
+    argv: ["/usr/local/bin/sweetpad", "bsp"],
+    workspace: `${PROJECT}/App.xcworkspace`,
+    scheme: "App",
+    storagePath: storagePath,
+  };
+  await fs.writeFile(getBuildServerConfigPath(workspacePath), JSON.stringify(config), "utf-8");
+}
+
+async function saveCommands(storagePath: string, options: { module: string; clangTarget: string }): Promise<void> {
+  await saveSwiftCompileCommands(storagePath, [
+    {
+      module: options.module,
+      target: options.module,
+      directory: PROJECT,
+      arguments: [
+        SWIFTC,
+        "-module-name",
+        options.module,
+        "-index-store-path",
+        "/Users/user/DerivedData/Index.noindex/DataStore",
+        "-emit-module-path",
+        `/Users/user/DerivedData/${options.module}.swiftmodule`,
+        "Sources/Main.swift",
+      ],
+      createdAt: new Date().toISOString(),
+    },
+  ]);
+  await saveClangCompileCommands(storagePath, [
+    {
+      target: options.clangTarget,
+      directory: PROJECT,
+      file: `${PROJECT}/Core/Store.m`,
+      arguments: [CLANG, "-x", "objective-c", "-fmodules", "-c", `${PROJECT}/Core/Store.m`, "-o", "/tmp/Store.o"],
+    },
+  ]);
+}
+
+describe("build server", () => {
+  let workspacePath: string;
+  let storagePath: string;
+  let client: MessageConnection;
+  let listening: Promise<void>;
+
+  beforeEach(async () => {
+    workspacePath = await fs.mkdtemp(path.join(os.tmpdir(), "sweetpad-bsp-"));
+    storagePath = path.join(workspacePath, "storage");
+    await writeConfig(workspacePath, storagePath);
+    await saveCommands(storagePath, { module: "App", clangTarget: "Core" });
+
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const server = new SweetpadBuildServer(
+      createMessageConnection(new StreamMessageReader(input), new StreamMessageWriter(output)),
+      workspacePath,
+      path.join(workspacePath, "default-storage"),
+    );
+    client = createMessageConnection(new StreamMessageReader(output), new StreamMessageWriter(input));
+    client.listen();
+    listening = server.listen();
+  });
+
+  afterEach(async () => {
+    await client.sendNotification("build/exit");
+    await listening;
+    client.dispose();
+    await fs.rm(workspacePath, { recursive: true, force: true });
+  });
+
+  it("should describe the targets of the saved compile commands", async () => {
+    const initializeResult = await client.sendRequest("build/initialize", {});
+    expect(initializeResult).toMatchObject({
+      data: {
+        indexStorePath: "/Users/user/DerivedData/Index.noindex/DataStore",
+        indexDatabasePath: path.join(storagePath, "bsp", "index-db"),
+      },
+    });
+
+    const { targets } = await client.sendRequest<{ targets: { id: { uri: string }; displayName: string }[] }>(
+      "workspace/buildTargets",
+      {},
+    );
+    expect(targets).toMatchObject([
+      { displayName: "App", languageIds: ["swift"], data: { toolchain: pathToFileURL(TOOLCHAIN).href } },
+      { displayName: "Core", languageIds: ["objective-c"] },
+    ]);
+
+    const sources = await client.sendRequest<{ items: { sources: { uri: string }[] }[] }>("buildTarget/sources", {
+      targets: targets.map((target) => target.id),
+    });
+    expect(sources.items.map((item) => item.sources.map((source) => source.uri))).toEqual([
+      [pathToFileURL(`${PROJECT}/Sources/Main.swift`).href],
+      [pathToFileURL(`${PROJECT}/Core/Store.m`).href],
+    ]);
+  });
+
+  it("should resolve the compiler arguments of the built and the new files", async () => {
+    await client.sendRequest("build/initialize", {});
+    const getOptions = (filePath: string) =>
+      client.sendRequest("textDocument/sourceKitOptions", {
+        textDocument: { uri: pathToFileURL(filePath).href },
+        // The target is found by the file when sourcekit-lsp doesn't know it
+        target: { uri: "" },
+      });
+
+    // sourcekit-lsp writes its own index and module outputs
+    expect(await getOptions(`${PROJECT}/Sources/Main.swift`)).toEqual({
+      compilerArguments: ["-module-name", "App", "Sources/Main.swift"],
+      workingDirectory: PROJECT,
+    });
+
+    // The file added after the build is passed in addition to the module files
+    const { targets } = await client.sendRequest<{ targets: { id: { uri: string } }[] }>("workspace/buildTargets", {});
+    const newFileOptions = await client.sendRequest<{ compilerArguments: string[] }>("textDocument/sourceKitOptions", {
+      textDocument: { uri: pathToFileURL(`${PROJECT}/Sources/Settings.swift`).href },
+      target: targets[0].id,
+      language: "swift",
+    });
+    expect(newFileOptions.compilerArguments.slice(-2)).toEqual([
+      "Sources/Main.swift",
+      `${PROJECT}/Sources/Settings.swift`,
+    ]);
+
+    // The header gets the flags of the other file of its target, without its outputs
+    const headerOptions = await client.sendRequest("textDocument/sourceKitOptions", {
+      textDocument: { uri: pathToFileURL(`${PROJECT}/Core/Store.h`).href },
+      target: targets[1].id,
+      language: "objective-c",
+    });
+    expect(headerOptions).toEqual({
+      compilerArguments: ["-x", "objective-c", "-fmodules", `${PROJECT}/Core/Store.h`],
+      workingDirectory: PROJECT,
+    });
+  });
+
+  it("should reload the targets when buildServer.json is changed", async () => {
+    await client.sendRequest("build/initialize", {});
+    const changed = new Promise((resolve) => client.onNotification("buildTarget/didChange", resolve));
+
+    // The scheme of the other storage is selected
+    const otherStoragePath = path.join(workspacePath, "other-storage");
+    await saveCommands(otherStoragePath, { module: "Widget", clangTarget: "Shared" });
+    await writeConfig(workspacePath, otherStoragePath);
+
+    expect(await changed).toEqual({
+      changes: ["App", "Core", "Widget", "Shared"].map((name) => ({
+        target: { uri: `sweetpad://target/${name}` },
+        kind: 2,
+      })),
+    });
+    const { targets } = await client.sendRequest<{ targets: { displayName: string }[] }>("workspace/buildTargets", {});
+    expect(targets.map((target) => target.displayName)).toEqual(["Widget", "Shared"]);
+  });
+});
@@ -0,0 +1,506 @@
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import type { CancellationToken, MessageConnection } from "vscode-jsonrpc/node";
+import { isBuildLocked } from "../build/build-lock";
+import {
+  type ClangFileCommand,
+  type SwiftCompileCommand,
+  getBuildLogsPath,
+  readClangCompileCommands,
+  readSwiftCompileCommands,
+} from "../build/build-log";
+import { type SweetpadBuildServerConfig, getBuildServerConfigPath, readBuildServerConfig } from "../build/build-server";
+import { buildApp } from "../build/runner";
+import { getSourceFiles, removeOutputArguments } from "../build/typecheck";
+import { createDirectory } from "../common/files";
+import type { XcodeProject } from "../common/xcode/project";
+import { XcodeWorkspace } from "../common/xcode/workspace";
+import { SimulatorsManager } from "../simulators/manager";
+import { loadCliConfig } from "./config";
+import { CliRuntimeContext } from "./context";
+import { createStdioConnection, handleRequest } from "./jsonrpc";
+import { CliReporter } from "./output";
+import { CliTaskTerminal } from "./terminal";
+
+// The build logs and buildServer.json are written at once, so the changes are handled together
+const RELOAD_DELAY_MS = 500;
+
+const TARGET_URI_PREFIX = "sweetpad://target/";
+
+// BSP "SourceItemKind.file" and "BuildTargetEventKind.changed"
+const SOURCE_ITEM_KIND_FILE = 1;
+const BUILD_TARGET_EVENT_CHANGED = 2;
+
+// BSP "MessageType.log"
+const LOG_MESSAGE_TYPE = 4;
+
+const CLANG_LANGUAGES: Record<string, string> = {
+  ".c": "c",
+  ".m": "objective-c",
+  ".mm": "objective-cpp",
+  ".cc": "cpp",
+  ".cpp": "cpp",
+  ".cxx": "cpp",
+};
+
+// clang options that produce the build outputs, the editor needs only the flags
+const CLANG_OUTPUT_OPTIONS = new Set(["-MMD", "-MD"]);
+const CLANG_OUTPUT_OPTIONS_WITH_VALUE = new Set(["-c", "-o", "-MF", "-MT", "-MQ", "--serialize-diagnostics"]);
+
+type BuildTargetIdentifier = { uri: string };
+
+type TextDocumentIdentifier = { uri: string };
+
+/**
+ * Xcode target with the compiler invocations of its sources from the previous builds
+ */
+type BuildServerTarget = {
+  id: BuildTargetIdentifier;
+  name: string;
+  swift: { command: SwiftCompileCommand; files: string[] } | null;
+  clang: ClangFileCommand[];
+};
+
+function getTargetUri(name: string): string {
+  return `${TARGET_URI_PREFIX}${encodeURIComponent(name)}`;
+}
+
+function getTargetName(uri: string): string | null {
+  return uri.startsWith(TARGET_URI_PREFIX) ? decodeURIComponent(uri.slice(TARGET_URI_PREFIX.length)) : null;
+}
+
+function getClangLanguage(filePath: string): string {
+  return CLANG_LANGUAGES[path.extname(filePath)] ?? "objective-c";
+}
+
+/**
+ * "/path/to/XcodeDefault.xctoolchain/usr/bin/swiftc" -> "/path/to/XcodeDefault.xctoolchain"
+ */
+function getToolchainPath(compilerPath: string): string | null {
+  const match = compilerPath.match(/^(.*\.xctoolchain)\//);
+  return match ? match[1] : null;
+}
+
+/**
+ * Use the clang invocation of the file for the other file of the same target, ex. for the header or
+ * the file added after the build: the same flags, but without the outputs and with the new file
+ */
+function getClangArguments(command: ClangFileCommand, filePath: string): string[] {
+  const args: string[] = [];
+  const commandArgs = command.arguments.slice(1);
+  for (let i = 0; i < commandArgs.length; i++) {
+    const arg = commandArgs[i];
+    if (CLANG_OUTPUT_OPTIONS.has(arg)) {
+      continue;
+    }
+    if (CLANG_OUTPUT_OPTIONS_WITH_VALUE.has(arg)) {
+      i++;
+      continue;
+    }
+    args.push(arg);
+  }
+  return [...args, filePath];
+}
+
+/**
+ * Build Server Protocol server for sourcekit-lsp, started by it from buildServer.json. It answers from
+ * the compiler invocations that SweetPad extracts from the build logs, so the files are indexed with
+ * the same flags as they are built, and follows the changes of buildServer.json and the logs: when the
+ * scheme is changed or the app is built again, sourcekit-lsp is notified that the targets are changed.
+ */
+export class SweetpadBuildServer {
+  private config: SweetpadBuildServerConfig | null = null;
+  private targets = new Map<string, BuildServerTarget>();
+  // Target of each source file, by the absolute path
+  private fileTargets = new Map<string, string>();
+  // Parsed lazily for the files that are not in the build logs yet
+  private projects: Promise<XcodeProject[]> | null = null;
+  private reloading: Promise<void> = Promise.resolve();
+  private reloadTimer: NodeJS.Timeout | null = null;
+  private preparing: Promise<void> | null = null;
+  // sourcekit-lsp requests the targets itself after the initialization, so it's notified only later
+  private isInitialized = false;
+  private configWatcher: fs.FSWatcher | null = null;
+  private logsWatcher: fs.FSWatcher | null = null;
+  private watchedLogsPath: string | null = null;
+
+  constructor(
+    private connection: MessageConnection,
+    private workspacePath: string,
+    private storagePath: string,
+  ) {}
+
+  async listen(): Promise<void> {
+    const connection = this.connection;
+
+    handleRequest(connection, "build/initialize", async () => {
+      await this.reload();
+      this.isInitialized = true;
+      this.watch();
+      return this.getInitializeResult();
+    });
+    connection.onNotification("build/initialized", () => {});
+    handleRequest(connection, "workspace/buildTargets", async () => {
+      await this.reloading;
+      return { targets: [...this.targets.values()].map((target) => this.describeTarget(target)) };
+    });
+    handleRequest(connection, "buildTarget/sources", async (params: { targets: BuildTargetIdentifier[] }) => {
+      await this.reloading;
+      return { items: params.targets.map((id) => this.getTargetSources(id)) };
+    });
+    handleRequest(
+      connection,
+      "textDocument/sourceKitOptions",
+      async (params: { textDocument: TextDocumentIdentifier; target: BuildTargetIdentifier; language?: string }) => {
+        await this.reloading;
+        return await this.getSourceKitOptions(params);
+      },
+    );
+    handleRequest(connection, "buildTarget/prepare", async (_params: { targets: BuildTargetIdentifier[] }, token) => {
+      await this.prepare(token);
+      return null;
+    });
+    handleRequest(connection, "workspace/waitForBuildSystemUpdates", async () => {
+      await this.reloading;
+      return null;
+    });
+    // The build logs are watched instead, the sources themselves don't change the invocations
+    connection.onNotification("workspace/didChangeWatchedFiles", () => {});
+
+    const closed = new Promise<void>((resolve) => {
+      connection.onClose(() => resolve());
+      connection.onNotification("build/exit", () => {
+        setImmediate(() => connection.dispose());
+        resolve();
+      });
+    });
+    connection.onRequest("build/shutdown", () => null);
+
+    connection.listen();
+    await closed;
+
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+    }
+    this.configWatcher?.close();
+    this.logsWatcher?.close();
+  }
+
+  private log(message: string): void {
+    this.connection.sendNotification("build/logMessage", { type: LOG_MESSAGE_TYPE, message: message });
+  }
+
+  private getStoragePath(): string {
+    return this.config?.storagePath ?? this.storagePath;
+  }
+
+  private getInitializeResult() {
+    // The index store of the build is reused, so the files are indexed before sourcekit-lsp prepares them
+    let indexStorePath: string | undefined = undefined;
+    for (const target of this.targets.values()) {
+      const args = target.swift?.command.arguments ?? [];
+      const index = args.indexOf("-index-store-path");
+      if (index !== -1 && args[index + 1]) {
+        indexStorePath = args[index + 1];
+        break;
+      }
+    }
+
+    return {
+      displayName: "SweetPad",
+      version: "1.0.0",
+      bspVersion: "2.0.0",
+      capabilities: { languageIds: ["swift", "objective-c", "objective-cpp", "c", "cpp"] },
+      dataKind: "sourceKit",
+      data: {
+        indexStorePath: indexStorePath,
+        indexDatabasePath: indexStorePath ? path.join(this.getStoragePath(), "bsp", "index-db") : undefined,
+        sourceKitOptionsProvider: true,
+        prepareProvider: true,
+      },
+    };
+  }
+
+  private describeTarget(target: BuildServerTarget) {
+    const compilerPath = target.swift?.command.arguments[0] ?? target.clang[0]?.arguments[0];
+    const toolchainPath = compilerPath ? getToolchainPath(compilerPath) : null;
+    const directory = target.swift?.command.directory ?? target.clang[0]?.directory;
+    const languageIds = new Set(target.clang.map((command) => getClangLanguage(command.file)));
+    if (target.swift) {
+      languageIds.add("swift");
+    }
+
+    return {
+      id: target.id,
+      displayName: target.name,
+      baseDirectory: directory ? pathToFileURL(directory).href : undefined,
+      tags: [],
+      capabilities: {},
+      languageIds: [...languageIds],
+      dependencies: [],
+      dataKind: "sourceKit",
+      data: { toolchain: toolchainPath ? pathToFileURL(toolchainPath).href : undefined },
+    };
+  }
+
+  private getTargetSources(id: BuildTargetIdentifier) {
+    const name = getTargetName(id.uri);
+    const target = name ? this.targets.get(name) : undefined;
+    const swiftFiles = (target?.swift?.files ?? []).map((file) => ({ file: file, language: "swift" }));
+    const clangFiles = (target?.clang ?? []).map((command) => ({
+      file: command.file,
+      language: getClangLanguage(command.file),
+    }));
+
+    return {
+      target: id,
+      sources: [...swiftFiles, ...clangFiles].map((source) => ({
+        uri: pathToFileURL(source.file).href,
+        kind: SOURCE_ITEM_KIND_FILE,
+        generated: false,
+        dataKind: "sourceKit",
+        data: { language: source.language, kind: "source" },
+      })),
+    };
+  }
+
+  private async getSourceKitOptions(params: {
+    textDocument: TextDocumentIdentifier;
+    target: BuildTargetIdentifier;
+    language?: string;
+  }) {
+    const filePath = fileURLToPath(params.textDocument.uri);
+    const targetName = getTargetName(params.target.uri) ?? this.fileTargets.get(filePath);
+    const target =
+      (targetName ? this.targets.get(targetName) : undefined) ?? (await this.findTargetInProjects(filePath));
+    if (!target) {
+      return null;
+    }
+
+    const isSwift = params.language ? params.language === "swift" : filePath.endsWith(".swift");
+    if (isSwift) {
+      if (!target.swift) {
+        return null;
+      }
+      const { command, files } = target.swift;
+      const args = removeOutputArguments(command.arguments.slice(1));
+      // The file added after the build is not in the file list of the module yet
+      if (!files.includes(filePath)) {
+        args.push(filePath);
+      }
+      return { compilerArguments: args, workingDirectory: command.directory };
+    }
+
+    const command = target.clang.find((item) => item.file === filePath) ?? target.clang[0];
+    if (!command) {
+      return null;
+    }
+    return { compilerArguments: getClangArguments(command, filePath), workingDirectory: command.directory };
+  }
+
+  /**
+   * The file is not compiled in the previous builds, so the target is found by the project files and
+   * the invocation of the other files of the target is used
+   */
+  private async findTargetInProjects(filePath: string): Promise<BuildServerTarget | undefined> {
+    const xcworkspace = this.config?.workspace;
+    if (!xcworkspace) {
+      return undefined;
+    }
+
+    this.projects ??= XcodeWorkspace.parseWorkspace(xcworkspace).then((workspace) => workspace.getProjects());
+    try {
+      for (const project of await this.projects) {
+        for (const name of project.getTargetsForFile(filePath)) {
+          const target = this.targets.get(name);
+          if (target) {
+            return target;
+          }
+        }
+      }
+    } catch (error) {
+      this.projects = null;
+      this.log(`Failed to find the target of ${filePath} in the project files: ${error}`);
+    }
+    return undefined;
+  }
+
+  /**
+   * Build the scheme from buildServer.json with the options of its last build. It builds all targets of
+   * the scheme, so the requests that come during the build wait for it instead of starting a new one.
+   */
+  private async prepare(token: CancellationToken): Promise<void> {
+    if (this.preparing) {
+      await this.preparing;
+      return;
+    }
+
+    this.preparing = this.buildScheme(token);
+    try {
+      await this.preparing;
+    } finally {
+      this.preparing = null;
+    }
+    await this.reload();
+  }
+
+  private async buildScheme(token: CancellationToken): Promise<void> {
+    const config = this.config;
+    if (!config?.build) {
+      this.log("The scheme has not been built with SweetPad yet, skipping the preparation");
+      return;
+    }
+    // The index is updated by the build of the extension or the CLI anyway
+    if (await isBuildLocked(config.storagePath)) {
+      this.log("Another build is running, skipping the preparation");
+      return;
+    }
+
+    const reporter = new CliReporter("json", (event) => {
+      if (event.type === "output") {
+        this.log(event.line);
+      }
+    });
+    const terminal = new CliTaskTerminal({ workspacePath: this.workspacePath, reporter: reporter, detached: true });
+    const cancellation = token.onCancellationRequested(() => terminal.terminate());
+    try {
+      const runtime = await CliRuntimeContext.create({
+        workspacePath: this.workspacePath,
+        config: await loadCliConfig(this.workspacePath),
+        simulatorsManager: new SimulatorsManager(),
+        storagePath: config.storagePath,
+        reporter: reporter,
+        interactive: false,
+        useRememberedState: false,
+      });
+      runtime.configScope = {
+        scheme: config.scheme,
+        configuration: config.build.configuration,
+        destinationType: config.build.destinationType,
+      };
+      // The hooks are for the builds that the user starts, like launching the mock server
+      runtime.skipHooks = true;
+      await buildApp(runtime, terminal, {
+        scheme: config.scheme,
+        sdk: config.build.sdk,
+        configuration: config.build.configuration,
+        shouldBuild: true,
+        shouldClean: false,
+        shouldTest: false,
+        xcworkspace: config.workspace,
+        destinationRaw: config.build.destination,
+        debug: false,
+      });
+    } finally {
+      cancellation.dispose();
+    }
+  }
+
+  /**
+   * Watch buildServer.json for the scheme changes and the logs directory for the new builds
+   */
+  private watch(): void {
+    const configName = path.basename(getBuildServerConfigPath(this.workspacePath));
+    this.configWatcher = fs.watch(this.workspacePath, (_event, filename) => {
+      if (filename === configName) {
+        this.scheduleReload();
+      }
+    });
+    this.watchLogs();
+  }
+
+  /**
+   * The storage path comes from buildServer.json, so the watcher is moved when it's changed
+   */
+  private watchLogs(): void {
+    const logsPath = getBuildLogsPath(this.getStoragePath());
+    if (!this.configWatcher || this.watchedLogsPath === logsPath) {
+      return;
+    }
+    this.watchedLogsPath = logsPath;
+    this.logsWatcher?.close();
+    this.logsWatcher = null;
+    void createDirectory(logsPath)
+      .then(() => {
+        this.logsWatcher = fs.watch(logsPath, (_event, filename) => {
+          if (filename?.endsWith("-commands.json")) {
+            this.scheduleReload();
+          }
+        });
+      })
+      .catch((error) => this.log(`Failed to watch the build logs: ${error}`));
+  }
+
+  private scheduleReload(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+    }
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = null;
+      void this.reload().catch((error) => this.log(`Failed to reload the build targets: ${error}`));
+    }, RELOAD_DELAY_MS);
+  }
+
+  private reload(): Promise<void> {
+    // The failed reload is reported to its caller, the next one starts from scratch anyway
+    this.reloading = this.reloading.catch(() => {}).then(() => this.loadTargets());
+    return this.reloading;
+  }
+
+  private async loadTargets(): Promise<void> {
+    const previousState = JSON.stringify([this.config?.scheme, this.config?.workspace, [...this.targets.values()]]);
+    const previousIds = [...this.targets.values()].map((target) => target.id);
+
+    this.config = await readBuildServerConfig(this.workspacePath);
+    this.projects = null;
+    const storagePath = this.getStoragePath();
+
+    const targets = new Map<string, BuildServerTarget>();
+    const getTarget = (name: string): BuildServerTarget => {
+      let target = targets.get(name);
+      if (!target) {
+        target = { id: { uri: getTargetUri(name) }, name: name, swift: null, clang: [] };
+        targets.set(name, target);
+      }
+      return target;
+    };
+    for (const command of Object.values(await readSwiftCompileCommands(storagePath))) {
+      getTarget(command.target ?? command.module).swift = { command: command, files: await getSourceFiles(command) };
+    }
+    for (const command of Object.values(await readClangCompileCommands(storagePath))) {
+      getTarget(command.target ?? path.basename(command.directory)).clang.push(command);
+    }
+
+    const fileTargets = new Map<string, string>();
+    for (const target of targets.values()) {
+      for (const file of target.swift?.files ?? []) {
+        fileTargets.set(file, target.name);
+      }
+      for (const command of target.clang) {
+        fileTargets.set(command.file, target.name);
+      }
+    }
+    this.targets = targets;
+    this.fileTargets = fileTargets;
+    this.watchLogs();
+
+    const state = JSON.stringify([this.config?.scheme, this.config?.workspace, [...this.targets.values()]]);
+    if (!this.isInitialized || state === previousState) {
+      return;
+    }
+    // Both the removed and the new targets are reported, so sourcekit-lsp requests all of them again
+    const ids = new Map(
+      [...previousIds, ...[...targets.values()].map((target) => target.id)].map((id) => [id.uri, id]),
+    );
+    this.connection.sendNotification("buildTarget/didChange", {
+      changes: [...ids.values()].map((id) => ({ target: id, kind: BUILD_TARGET_EVENT_CHANGED })),
+    });
+  }
+}
+
+export async function runBuildServer(options: { workspacePath: string; storagePath: string }): Promise<void> {
+  await new SweetpadBuildServer(createStdioConnection(), options.workspacePath, options.storagePath).listen();
+  // The reader keeps stdin open, so the process would never exit
+  process.stdin.destroy();
+}
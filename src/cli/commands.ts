@@ -0,0 +1,330 @@
+import { type ExportOptionsSource, archiveAndExport } from "../build/archive";
+import {
+  type BuildRuntimeContext,
+  buildApp,
+  getXcodeArchiveDestinationString,
+  runOnMac,
+  runOniOSDevice,
+  runOniOSSimulator,
+} from "../build/runner";
+import { type BuildTimingRun, buildWithTiming } from "../build/timing";
+import { getBuildSettingsToLaunch } from "../common/cli/scripts";
+import { ExtensionError } from "../common/errors";
+import type { TaskTerminal } from "../common/tasks";
+import { assertUnreachable } from "../common/types";
+import type { Destination } from "../destination/types";
+import type { CliReporter } from "./output";
+import { TestResultsCollector } from "./test-results";
+
+export type CliBuildCommand = "build" | "clean" | "test" | "run" | "launch" | "archive";
+
+export type CliTestMode = "build-for-testing" | "test-without-building";
+
+/**
+ * Everything that is resolved before the build: from the arguments, the config, the pickers or
+ * the JSON-RPC request
+ */
+export type CliBuildTarget = {
+  xcworkspace: string;
+  scheme: string;
+  configuration: string;
+  sdk: string;
+  destination: Destination;
+  destinationRaw: string;
+  derivedDataPath: string | null;
+};
+
+export function parseBuildCommand(raw: string | undefined): CliBuildCommand {
+  if (raw === "build" || raw === "clean" || raw === "test" || raw === "run" || raw === "launch" || raw === "archive") {
+    return raw;
+  }
+  throw new ExtensionError(`Unknown command: ${raw}`);
+}
+
+/**
+ * Run one of the build commands with the already resolved target. It's shared by the regular
+ * CLI commands, the watch mode and the JSON-RPC server.
+ */
+export async function runBuildCommand(options: {
+  command: CliBuildCommand;
+  runtime: BuildRuntimeContext;
+  reporter: CliReporter;
+  terminal: TaskTerminal;
+  target: CliBuildTarget;
+  debug: boolean;
+  launchArgs: string[];
+  launchEnv: Record<string, string>;
+  testMode?: CliTestMode;
+  onlyTesting?: string[];
+  skipTesting?: string[];
+  // How to export the archive, only for the "archive" command
+  exportOptions?: ExportOptionsSource;
+  // Collect the build timing, only for the "build" command
+  timing?: boolean;
+  // Called after the app is built, before it's launched
+  onBuilt?: () => void;
+}): Promise<void> {
+  const { runtime, terminal, target } = options;
+  const { scheme, sdk, configuration, xcworkspace, destination, destinationRaw } = target;
+
+  switch (options.command) {
+    case "build": {
+      if (options.timing) {
+        const run = await buildWithTiming(runtime, terminal, {
+          scheme,
+          sdk,
+          configuration,
+          xcworkspace,
+          destinationRaw,
+        });
+        if (run) {
+          reportBuildTiming(options.reporter, run);
+        }
+        await reportBuildOutput(options);
+        options.onBuilt?.();
+        return;
+      }
+      await buildApp(runtime, terminal, {
+        scheme,
+        sdk,
+        configuration,
+        shouldBuild: true,
+        shouldClean: false,
+        shouldTest: false,
+        xcworkspace,
+        destinationRaw,
+        debug: options.debug,
+      });
+      await reportBuildOutput(options);
+      options.onBuilt?.();
+      return;
+    }
+    case "clean": {
+      await buildApp(runtime, terminal, {
+        scheme,
+        sdk,
+        configuration,
+        shouldBuild: false,
+        shouldClean: true,
+        shouldTest: false,
+        xcworkspace,
+        destinationRaw,
+        debug: options.debug,
+      });
+      return;
+    }
+    case "test": {
+      await runTests(runtime, terminal, {
+        scheme,
+        sdk,
+        configuration,
+        xcworkspace,
+        destinationRaw,
+        debug: options.debug,
+        testMode: options.testMode,
+        onlyTesting: options.onlyTesting ?? [],
+        skipTesting: options.skipTesting ?? [],
+      });
+      return;
+    }
+    case "archive": {
+      const entry = await archiveAndExport(runtime, terminal, {
+        scheme,
+        configuration,
+        xcworkspace,
+        destinationRaw: getXcodeArchiveDestinationString({ destination }),
+        exportOptions: options.exportOptions ?? { type: "none" },
+      });
+      if (options.reporter.isJson && !runtime.dryRun) {
+        for (const artifactPath of [entry.archivePath, ...entry.artifactPaths]) {
+          options.reporter.emit({ type: "artifact", path: artifactPath });
+        }
+      }
+      return;
+    }
+    case "run":
+    case "launch": {
+      const debug = options.command === "launch" ? true : options.debug;
+      await buildApp(runtime, terminal, {
+        scheme,
+        sdk,
+        configuration,
+        shouldBuild: true,
+        shouldClean: false,
+        shouldTest: false,
+        xcworkspace,
+        destinationRaw,
+        debug,
+      });
+      await reportBuildOutput(options);
+      options.onBuilt?.();
+
+      if (destination.type === "macOS") {
+        await runOnMac(runtime, terminal, {
+          scheme,
+          xcworkspace,
+          configuration,
+          watchMarker: false,
+          launchArgs: options.launchArgs,
+          launchEnv: options.launchEnv,
+        });
+      } else if (
+        destination.type === "iOSSimulator" ||
+        destination.type === "watchOSSimulator" ||
+        destination.type === "tvOSSimulator" ||
+        destination.type === "visionOSSimulator"
+      ) {
+        await runOniOSSimulator(runtime, terminal, {
+          scheme,
+          destination,
+          sdk,
+          configuration,
+          xcworkspace,
+          watchMarker: false,
+          launchArgs: options.launchArgs,
+          launchEnv: options.launchEnv,
+          debug,
+        });
+      } else if (
+        destination.type === "iOSDevice" ||
+        destination.type === "watchOSDevice" ||
+        destination.type === "tvOSDevice" ||
+        destination.type === "visionOSDevice"
+      ) {
+        await runOniOSDevice(runtime, terminal, {
+          scheme,
+          destination,
+          sdk,
+          configuration,
+          xcworkspace,
+          watchMarker: false,
+          launchArgs: options.launchArgs,
+          launchEnv: options.launchEnv,
+        });
+      } else {
+        assertUnreachable(destination);
+      }
+      return;
+    }
+    default:
+      assertUnreachable(options.command);
+  }
+}
+
+async function reportBuildOutput(options: {
+  runtime: BuildRuntimeContext;
+  reporter: CliReporter;
+  target: CliBuildTarget;
+}): Promise<void> {
+  const { runtime, reporter, target } = options;
+  if (runtime.dryRun) {
+    return;
+  }
+  const buildSettings = await getBuildSettingsToLaunch({
+    scheme: target.scheme,
+    configuration: target.configuration,
+    sdk: target.sdk,
+    xcworkspace: target.xcworkspace,
+    derivedDataPath: target.derivedDataPath,
+  });
+  const outputPath = buildSettings.appPath ?? buildSettings.executablePath;
+  if (!outputPath) {
+    return;
+  }
+  if (reporter.isJson) {
+    reporter.emit({ type: "artifact", path: outputPath });
+  } else {
+    process.stdout.write(`SweetPad: Build output: ${outputPath}\n`);
+  }
+}
+
+const BUILD_TIMING_TOP_COUNT = 10;
+
+function reportBuildTiming(reporter: CliReporter, run: BuildTimingRun): void {
+  if (reporter.isJson) {
+    reporter.emit({ type: "timing", ...run });
+    return;
+  }
+
+  const seconds = (value: number) => `${value.toFixed(3)}s`.padStart(10);
+  const lines: string[] = [];
+  if (run.duration !== null) {
+    lines.push(`Build time: ${run.duration.toFixed(3)}s`);
+  }
+  const sections = [
+    { title: "Slowest targets", rows: run.targets.map((target) => ({ name: target.name, duration: target.duration })) },
+    { title: "Slowest files", rows: run.files.map((file) => ({ name: file.path, duration: file.duration })) },
+    {
+      title: "Swift type checking hotspots",
+      rows: run.typeChecks.map((typeCheck) => ({
+        name: `${typeCheck.file}:${typeCheck.line}:${typeCheck.column} ${typeCheck.name ?? "(expression)"}`,
+        duration: typeCheck.duration,
+      })),
+    },
+  ];
+  for (const section of sections) {
+    if (section.rows.length === 0) {
+      continue;
+    }
+    lines.push("", `${section.title}:`);
+    for (const row of section.rows.slice(0, BUILD_TIMING_TOP_COUNT)) {
+      lines.push(`${seconds(row.duration)}  ${row.name}`);
+    }
+  }
+  process.stdout.write(`${lines.join("\n")}\n`);
+}
+
+async function runTests(
+  runtime: BuildRuntimeContext,
+  terminal: TaskTerminal,
+  options: {
+    scheme: string;
+    sdk: string;
+    configuration: string;
+    xcworkspace: string;
+    destinationRaw: string;
+    debug: boolean;
+    testMode: CliTestMode | undefined;
+    onlyTesting: string[];
+    skipTesting: string[];
+  },
+): Promise<void> {
+  const results = new TestResultsCollector();
+  const isBuildOnly = options.testMode === "build-for-testing";
+
+  try {
+    await buildApp(runtime, terminal, {
+      scheme: options.scheme,
+      sdk: options.sdk,
+      configuration: options.configuration,
+      shouldBuild: false,
+      shouldClean: false,
+      shouldTest: options.testMode === undefined,
+      shouldBuildForTesting: isBuildOnly,
+      shouldTestWithoutBuilding: options.testMode === "test-without-building",
+      onlyTesting: options.onlyTesting,
+      skipTesting: options.skipTesting,
+      xcworkspace: options.xcworkspace,
+      destinationRaw: options.destinationRaw,
+      debug: options.debug,
+      onOutputLine: async ({ value }) => results.parseLine(value),
+    });
+  } catch (error) {
+    // xcodebuild exits with non-zero code when some tests failed, so show what exactly failed
+    if (!isBuildOnly && results.total > 0) {
+      results.printSummary(terminal);
+    }
+    if (results.failedCount > 0) {
+      throw new ExtensionError(`${results.failedCount} of ${results.total} tests failed`);
+    }
+    throw error;
+  }
+
+  if (isBuildOnly) {
+    return;
+  }
+  results.printSummary(terminal);
+  if (results.failedCount > 0) {
+    throw new ExtensionError(`${results.failedCount} of ${results.total} tests failed`);
+  }
+}
@@ -0,0 +1,263 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { EXPORT_METHODS } from "../build/archive";
+import { getBuildConfigurations, getSchemes } from "../common/cli/scripts";
+import { ExtensionError } from "../common/errors";
+import { SimulatorsManager } from "../simulators/manager";
+import { CLI_COMMANDS, CLI_OPTIONS, type CliCompletionKind, type CliOptions, findOptionSpec, parseArgs } from "./args";
+import { getCliConfig, loadCliConfig } from "./config";
+import { CliRuntimeContext } from "./context";
+import { detectXcodeWorkspacesPaths, listDestinations } from "./pickers";
+import { loadProfiles } from "./profiles";
+
+const COMPLETION_CACHE_FILE = "completion-cache.json";
+
+// Simulators and devices come and go more often than schemes are changed
+const PROJECT_CACHE_TTL_MS = 5 * 60 * 1000;
+const DESTINATIONS_CACHE_TTL_MS = 30 * 1000;
+
+type CompletionCache = Record<string, { createdAt: number; values: string[] }>;
+
+const BASH_SCRIPT = `# sweetpad bash completion, add to ~/.bashrc:
+#   source <(sweetpad completion bash)
+_sweetpad_completion() {
+  local IFS=$'\\n'
+  local candidates candidate
+  candidates=($(sweetpad __complete -- "\${COMP_WORDS[@]:1:COMP_CWORD}" 2>/dev/null))
+  COMPREPLY=()
+  for candidate in "\${candidates[@]}"; do
+    COMPREPLY+=("$(printf '%q' "$candidate")")
+  done
+}
+complete -o default -F _sweetpad_completion sweetpad
+`;
+
+const ZSH_SCRIPT = `#compdef sweetpad
+# sweetpad zsh completion, add to ~/.zshrc:
+#   source <(sweetpad completion zsh)
+_sweetpad() {
+  local -a candidates
+  candidates=("\${(@f)$(sweetpad __complete -- "\${(@)words[2,CURRENT]}" 2>/dev/null)}")
+  candidates=("\${(@)candidates:#}")
+  if (( \${#candidates} )); then
+    compadd -a candidates
+  else
+    _files
+  fi
+}
+if [ "$funcstack[1]" = "_sweetpad" ]; then
+  _sweetpad "$@"
+else
+  compdef _sweetpad sweetpad
+fi
+`;
+
+const FISH_SCRIPT = `# sweetpad fish completion, save to ~/.config/fish/completions/sweetpad.fish:
+#   sweetpad completion fish > ~/.config/fish/completions/sweetpad.fish
+function __sweetpad_complete
+    set -l tokens (commandline -opc) (commandline -ct)
+    sweetpad __complete -- $tokens[2..-1] 2>/dev/null
+end
+complete -c sweetpad -f -a '(__sweetpad_complete)'
+`;
+
+export function printCompletionScript(shell: string | undefined): void {
+  switch (shell) {
+    case "bash":
+      process.stdout.write(BASH_SCRIPT);
+      return;
+    case "zsh":
+      process.stdout.write(ZSH_SCRIPT);
+      return;
+    case "fish":
+      process.stdout.write(FISH_SCRIPT);
+      return;
+    default:
+      throw new ExtensionError(`Unknown shell: ${shell ?? ""}. Supported shells: bash, zsh, fish`);
+  }
+}
+
+/**
+ * Entry point of the hidden "__complete" command called by the completion scripts. The last word
+ * is the one being completed (it can be empty), the candidates are printed one per line.
+ */
+export async function runComplete(words: string[]): Promise<void> {
+  const current = words[words.length - 1] ?? "";
+  const previous = words.slice(0, -1);
+
+  let candidates: string[] = [];
+  try {
+    candidates = await getCandidates(previous, current);
+  } catch (error) {
+    // Completion must never print errors into the user's command line
+    candidates = [];
+  }
+
+  const lowerCurrent = current.toLowerCase();
+  const matched = candidates.filter((candidate) => candidate.toLowerCase().startsWith(lowerCurrent));
+  process.stdout.write(matched.map((candidate) => `${candidate}\n`).join(""));
+}
+
+async function getCandidates(previous: string[], current: string): Promise<string[]> {
+  const optionSpec = findOptionSpec(previous[previous.length - 1] ?? "");
+  if (optionSpec?.value) {
+    return optionSpec.completion ? await getValues(optionSpec.completion, previous.slice(0, -1)) : [];
+  }
+
+  if (current.startsWith("-")) {
+    return CLI_OPTIONS.map((spec) => spec.flag);
+  }
+
+  const positionals = getPositionals(previous);
+  if (positionals.length === 0) {
+    return CLI_COMMANDS.map((spec) => spec.name);
+  }
+
+  const commandSpec = CLI_COMMANDS.find((spec) => spec.name === positionals[0]);
+  return commandSpec?.positionals?.[positionals.length - 1] ?? [];
+}
+
+/**
+ * Words that are not options or their values: the command and its positional arguments
+ */
+function getPositionals(words: string[]): string[] {
+  const positionals: string[] = [];
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+    if (word.startsWith("-")) {
+      if (findOptionSpec(word)?.value) {
+        i++;
+      }
+      continue;
+    }
+    positionals.push(word);
+  }
+  return positionals;
+}
+
+/**
+ * Parse the already typed words leniently, ex. to use "--xcworkspace" when completing "--scheme"
+ */
+function parseTypedOptions(words: string[]): CliOptions | null {
+  try {
+    return parseArgs(words);
+  } catch (error) {
+    return null;
+  }
+}
+
+async function getValues(kind: CliCompletionKind, words: string[]): Promise<string[]> {
+  switch (kind) {
+    case "sdk":
+      return ["iphonesimulator", "iphoneos", "macosx", "watchsimulator", "watchos", "appletvsimulator", "appletvos"];
+    case "arch":
+      return ["arm64", "x86_64"];
+    case "output":
+      return ["text", "json"];
+    case "exportMethod":
+      return EXPORT_METHODS.map((item) => item.method);
+    case "signingStyle":
+      return ["automatic", "manual"];
+    case "path":
+      // Let the shell complete the file paths
+      return [];
+    default:
+      break;
+  }
+
+  const options = parseTypedOptions(words);
+  const workspacePath = path.resolve(options?.workspaceRoot ?? process.cwd());
+  const config = await loadCliConfig(workspacePath);
+  const simulatorsManager = new SimulatorsManager();
+  const runtime = await CliRuntimeContext.create({ workspacePath, config, simulatorsManager });
+  const useWorkspaceParser = getCliConfig<boolean>(config, "system.customXcodeWorkspaceParser") ?? false;
+
+  switch (kind) {
+    case "profile": {
+      return Object.keys(await loadProfiles(workspacePath));
+    }
+    case "xcworkspace": {
+      const paths = await detectXcodeWorkspacesPaths(workspacePath);
+      return paths.map((xcPath) => path.relative(workspacePath, xcPath));
+    }
+    case "scheme": {
+      const xcworkspace = await resolveCompletionXcworkspace({ workspacePath, options, runtime });
+      if (!xcworkspace) {
+        return [];
+      }
+      return await cachedQuery(runtime.storagePath, `schemes:${xcworkspace}`, PROJECT_CACHE_TTL_MS, async () => {
+        const schemes = await getSchemes({ xcworkspace, useWorkspaceParser });
+        return schemes.map((scheme) => scheme.name);
+      });
+    }
+    case "configuration": {
+      const xcworkspace = await resolveCompletionXcworkspace({ workspacePath, options, runtime });
+      if (!xcworkspace) {
+        return [];
+      }
+      return await cachedQuery(runtime.storagePath, `configurations:${xcworkspace}`, PROJECT_CACHE_TTL_MS, async () => {
+        const configurations = await getBuildConfigurations({ xcworkspace, useWorkspaceParser });
+        return configurations.map((configuration) => configuration.name);
+      });
+    }
+    case "destination":
+    case "destinationId": {
+      return await cachedQuery(runtime.storagePath, `destinations:${kind}`, DESTINATIONS_CACHE_TTL_MS, async () => {
+        const destinations = await listDestinations({ simulatorsManager, storagePath: runtime.storagePath });
+        return destinations.map((destination) => {
+          if (kind === "destination") {
+            return destination.label;
+          }
+          return "udid" in destination ? destination.udid : destination.id;
+        });
+      });
+    }
+  }
+}
+
+async function resolveCompletionXcworkspace(options: {
+  workspacePath: string;
+  options: CliOptions | null;
+  runtime: CliRuntimeContext;
+}): Promise<string | null> {
+  const rawPath =
+    options.options?.xcworkspace ??
+    options.runtime.getConfig<string>("build.xcodeWorkspacePath") ??
+    options.runtime.getRememberedValue<string>("cli.xcworkspace");
+  if (rawPath) {
+    return path.isAbsolute(rawPath) ? rawPath : path.join(options.workspacePath, rawPath);
+  }
+
+  const paths = await detectXcodeWorkspacesPaths(options.workspacePath);
+  return paths.length === 1 ? paths[0] : null;
+}
+
+/**
+ * xcodebuild and simctl take seconds to respond, that's too slow for pressing <TAB>, so the
+ * values are cached in the storage directory for a short time
+ */
+async function cachedQuery(
+  storagePath: string,
+  key: string,
+  ttlMs: number,
+  query: () => Promise<string[]>,
+): Promise<string[]> {
+  const cachePath = path.join(storagePath, COMPLETION_CACHE_FILE);
+
+  let cache: CompletionCache = {};
+  try {
+    cache = JSON.parse(await fs.readFile(cachePath, "utf-8")) as CompletionCache;
+  } catch (error) {
+    // Missing or broken cache is the same as empty
+  }
+
+  const entry = cache[key];
+  if (entry && Date.now() - entry.createdAt < ttlMs) {
+    return entry.values;
+  }
+
+  const values = await query();
+  cache[key] = { createdAt: Date.now(), values };
+  await fs.writeFile(cachePath, JSON.stringify(cache), "utf-8");
+  return values;
+}
@@ -1,5 +1,4 @@
-import path from "node:path";
-import { isFileExists, readJsonFile } from "../common/files";
+import { expandSettingVariables, resolveSettings } from "../common/settings";
 
 type CliConfigMap = Record<string, unknown>;
 
@@ -37,14 +36,13 @@ function extractSweetpadConfig(settings: Record<string, unknown>): CliConfigMap
   return config;
 }
 
+/**
+ * Effective "sweetpad.*" settings: user settings, *.code-workspace and .vscode/settings.json
+ * layered the same way VS Code does, with variables expanded and SWEETPAD_* env overrides applied
+ */
 export async function loadCliConfig(workspacePath: string): Promise<CliConfigMap> {
-  const configPath = path.join(workspacePath, ".vscode", "settings.json");
-  const config: CliConfigMap = {};
-
-  if (await isFileExists(configPath)) {
-    const settings = await readJsonFile<Record<string, unknown>>(configPath);
-    Object.assign(config, extractSweetpadConfig(settings));
-  }
+  const settings = await resolveSettings({ workspacePath });
+  const config = expandSettingVariables(extractSweetpadConfig(settings), { workspaceFolder: workspacePath });
 
   const knownKeys = new Set<string>([
     ...Object.keys(config),
@@ -57,12 +55,24 @@ export async function loadCliConfig(workspacePath: string): Promise<CliConfigMap
     "build.rosettaDestination",
     "build.allowProvisioningUpdates",
     "build.xcbeautifyEnabled",
+    "build.outputFormatter",
     "build.derivedDataPath",
     "build.xcodeWorkspacePath",
     "build.bringSimulatorToForeground",
+    "build.exportOptionsPath",
+    "build.exportOptions",
+    "build.hooks.preBuild",
+    "build.hooks.postBuild",
+    "build.hooks.preLaunch",
+    "build.hooks.postLaunch",
+    "build.compileCommands.autogenerate",
     "xcodebuildserver.autogenerate",
     "xcodebuildserver.path",
+    "xcodebuildserver.provider",
+    "xcodebuildserver.overwriteExisting",
     "system.customXcodeWorkspaceParser",
+    "cli.picker",
+    "overrides",
   ]);
 
   for (const key of knownKeys) {
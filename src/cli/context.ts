@@ -1,11 +1,14 @@
 import os from "node:os";
 import path from "node:path";
+import { type ConfigScope, getConfigOverride } from "../build/overrides";
 import type { BuildRuntimeContext } from "../build/runner";
 import { ExtensionError } from "../common/errors";
 import { createDirectory } from "../common/files";
 import type { SimulatorsManager } from "../simulators/manager";
 import type { SimulatorDestination } from "../simulators/types";
-import { getCliConfig, getCliConfigOrDefault } from "./config";
+import { getCliConfig } from "./config";
+import type { CliPickerMode } from "./fzf";
+import { CliReporter } from "./output";
 import { type StateMap, getRememberedValue, loadState, saveState, setRememberedValue } from "./state";
 
 type CliRuntimeOptions = {
@@ -13,16 +16,27 @@ type CliRuntimeOptions = {
   config: Record<string, unknown>;
   simulatorsManager: SimulatorsManager;
   storagePath?: string;
+  reporter?: CliReporter;
+  interactive?: boolean;
+  useRememberedState?: boolean;
 };
 
 export class CliRuntimeContext implements BuildRuntimeContext {
   workspacePath: string;
   storagePath: string;
   private config: Record<string, unknown>;
+  // Values from the command line flags, they take precedence over the "overrides" blocks
+  private pinnedConfig: Record<string, unknown> = {};
   private state = new Map<string, unknown>();
   private persistentState: StateMap = {};
   private simulatorsManager: SimulatorsManager;
   private stateDirty = false;
+  reporter: CliReporter;
+  isInteractive: boolean;
+  // Set once the scheme, configuration and destination are resolved
+  configScope?: ConfigScope;
+  skipHooks?: boolean;
+  private useRememberedState: boolean;
 
   private constructor(options: {
     workspacePath: string;
@@ -30,12 +44,18 @@ export class CliRuntimeContext implements BuildRuntimeContext {
     config: Record<string, unknown>;
     simulatorsManager: SimulatorsManager;
     persistentState?: StateMap;
+    reporter: CliReporter;
+    interactive: boolean;
+    useRememberedState: boolean;
   }) {
     this.workspacePath = options.workspacePath;
     this.storagePath = options.storagePath;
     this.config = options.config;
     this.simulatorsManager = options.simulatorsManager;
     this.persistentState = options.persistentState ?? {};
+    this.reporter = options.reporter;
+    this.isInteractive = options.interactive;
+    this.useRememberedState = options.useRememberedState;
   }
 
   static async create(options: CliRuntimeOptions): Promise<CliRuntimeContext> {
@@ -47,6 +67,10 @@ export class CliRuntimeContext implements BuildRuntimeContext {
       config: options.config,
       simulatorsManager: options.simulatorsManager,
       persistentState,
+      reporter: options.reporter ?? new CliReporter("text"),
+      interactive: options.interactive ?? true,
+      // In non-interactive mode the previous selections are not visible to the user, so they are used only on demand
+      useRememberedState: options.useRememberedState ?? options.interactive ?? true,
     });
   }
 
@@ -58,6 +82,9 @@ export class CliRuntimeContext implements BuildRuntimeContext {
   }
 
   getRememberedValue<T>(key: string): T | undefined {
+    if (!this.useRememberedState) {
+      return undefined;
+    }
     return getRememberedValue<T>(this.persistentState, key);
   }
 
@@ -73,7 +100,16 @@ export class CliRuntimeContext implements BuildRuntimeContext {
   }
 
   updateProgressStatus(message: string): void {
-    process.stdout.write(`SweetPad: ${message}\n`);
+    if (!this.reporter.isJson) {
+      process.stdout.write(`SweetPad: ${message}\n`);
+      return;
+    }
+
+    this.reporter.startPhase(message);
+  }
+
+  onAppLaunched(options: { pid: number }): void {
+    this.reporter.emit({ type: "launched", pid: options.pid });
   }
 
   updateWorkspaceState(key: string, value: unknown): void {
@@ -88,12 +124,31 @@ export class CliRuntimeContext implements BuildRuntimeContext {
     return this.state.get(key) as T | undefined;
   }
 
+  get picker(): CliPickerMode {
+    const picker = this.getConfigOrDefault<string>("cli.picker", "auto");
+    if (picker !== "auto" && picker !== "fzf" && picker !== "builtin") {
+      throw new ExtensionError(`Unknown picker: ${picker}. Supported pickers: auto, fzf, builtin`);
+    }
+    return picker;
+  }
+
+  /**
+   * Set the setting for this run, ex. "--arch" flag
+   */
+  pinConfig(key: string, value: unknown): void {
+    this.pinnedConfig[key] = value;
+  }
+
   getConfig<T>(key: string): T | undefined {
-    return getCliConfig<T>(this.config, key);
+    if (this.pinnedConfig[key] !== undefined) {
+      return this.pinnedConfig[key] as T;
+    }
+    const override = getConfigOverride<T>(getCliConfig(this.config, "overrides"), this.configScope, key);
+    return override ?? getCliConfig<T>(this.config, key);
   }
 
   getConfigOrDefault<T>(key: string, fallback: T): T {
-    return getCliConfigOrDefault<T>(this.config, key, fallback);
+    return this.getConfig<T>(key) ?? fallback;
   }
 
   async getSimulatorByUdid(udid: string): Promise<SimulatorDestination> {
@@ -0,0 +1,343 @@
+import path from "node:path";
+import { quote } from "shell-quote";
+import { type BuildServerProvider, getBuildServerProvider } from "../build/build-server";
+import { getBuildOutputFormatter } from "../build/runner";
+import {
+  type XcodeScheme,
+  getIsXcbeautifyInstalled,
+  getIsXcodeBuildServerInstalled,
+  getSchemes,
+} from "../common/cli/scripts";
+import { ExecBaseError, ExtensionError } from "../common/errors";
+import { exec } from "../common/exec";
+import { isFileExists, readJsonFile } from "../common/files";
+import type { SimulatorsManager } from "../simulators/manager";
+import type { CliRuntimeContext } from "./context";
+import { detectXcodeWorkspacesPaths } from "./pickers";
+
+type DoctorCheckStatus = "pass" | "warn" | "fail" | "skip";
+
+type DoctorCheck = {
+  name: string;
+  status: DoctorCheckStatus;
+  message: string;
+  hint?: string;
+};
+
+const STATUS_ICONS: Record<DoctorCheckStatus, string> = {
+  pass: "✅",
+  warn: "⚠️ ",
+  fail: "❌",
+  skip: "⏭️ ",
+};
+
+const XCODE_SELECT_HINT =
+  "Install Xcode from the App Store and run `sudo xcode-select -s /Applications/Xcode.app/Contents/Developer`";
+
+/**
+ * CLI version of the "Diagnose Build Setup" command: check the environment the CLI depends on
+ * and explain how to fix each problem
+ */
+export async function runDoctor(options: {
+  json: boolean;
+  workspacePath: string;
+  xcworkspace: string | undefined;
+  useWorkspaceParser: boolean;
+  simulatorsManager: SimulatorsManager;
+  runtime: CliRuntimeContext;
+}): Promise<void> {
+  const checks: DoctorCheck[] = [];
+  const report = (check: DoctorCheck) => {
+    checks.push(check);
+    if (!options.json) {
+      process.stdout.write(`${STATUS_ICONS[check.status]} ${check.name}: ${check.message}\n`);
+      if (check.hint) {
+        process.stdout.write(`   💡 ${check.hint}\n`);
+      }
+    }
+  };
+
+  report(checkPlatform());
+  const isXcodeAvailable = await checkXcode(report);
+
+  report(await checkXcbeautify(options.runtime));
+  report(await checkXcodeBuildServer(options.runtime));
+
+  const xcworkspace = await checkWorkspace(report, options);
+  const schemes = isXcodeAvailable && xcworkspace ? await checkSchemes(report, { ...options, xcworkspace }) : null;
+  if (!isXcodeAvailable || !xcworkspace) {
+    report({ name: "Schemes", status: "skip", message: "Xcode or Xcode workspace is not available" });
+  }
+
+  if (isXcodeAvailable) {
+    report(await checkSimulators(options.simulatorsManager));
+  } else {
+    report({ name: "Simulators", status: "skip", message: "Xcode is not available" });
+  }
+
+  report(
+    await checkBuildServerConfig({
+      workspacePath: options.workspacePath,
+      xcworkspace,
+      schemes,
+      provider: getBuildServerProvider(options.runtime),
+    }),
+  );
+
+  const failed = checks.filter((check) => check.status === "fail").length;
+  const warnings = checks.filter((check) => check.status === "warn").length;
+  const passed = checks.filter((check) => check.status === "pass").length;
+
+  if (options.json) {
+    process.stdout.write(`${JSON.stringify({ checks, summary: { passed, warnings, failed } }, null, 2)}\n`);
+  } else {
+    process.stdout.write(`\n${passed} passed, ${warnings} warnings, ${failed} failed\n`);
+  }
+
+  if (failed > 0) {
+    throw new ExtensionError(`${failed} of ${checks.length} checks failed`);
+  }
+}
+
+function checkPlatform(): DoctorCheck {
+  if (process.platform !== "darwin") {
+    return {
+      name: "Platform",
+      status: "fail",
+      message: `${process.platform} is not supported`,
+      hint: "SweetPad depends on Xcode, which is available only on macOS",
+    };
+  }
+  return { name: "Platform", status: "pass", message: "macOS" };
+}
+
+async function checkXcode(report: (check: DoctorCheck) => void): Promise<boolean> {
+  let stdout: string;
+  try {
+    stdout = await exec({ command: "xcrun", args: ["xcodebuild", "-version"] });
+  } catch (error) {
+    const stderr = error instanceof ExecBaseError ? (error.options?.context?.stderr as string | undefined) : undefined;
+    const isXcodeInstalled = await isFileExists("/Applications/Xcode.app");
+    report({
+      name: "xcodebuild",
+      status: "fail",
+      message: stderr?.split("\n")[0] || "xcodebuild is not available",
+      hint: isXcodeInstalled
+        ? "Activate Xcode with `sudo xcode-select -s /Applications/Xcode.app/Contents/Developer`"
+        : XCODE_SELECT_HINT,
+    });
+    report({ name: "Xcode version", status: "skip", message: "xcodebuild is not available" });
+    return false;
+  }
+  report({ name: "xcodebuild", status: "pass", message: "available" });
+
+  // "Xcode 16.0\nBuild version 16A242d"
+  const versionMatch = stdout.match(/Xcode (\d+)\.(\d+)/);
+  if (!versionMatch) {
+    report({ name: "Xcode version", status: "warn", message: `Unknown version: ${stdout.split("\n")[0]}` });
+    return true;
+  }
+  const major = Number.parseInt(versionMatch[1], 10);
+  if (major < 16) {
+    report({
+      name: "Xcode version",
+      status: "warn",
+      message: `Xcode ${versionMatch[1]}.${versionMatch[2]}`,
+      hint: "Xcode 16 or newer is required to show the app console when running on a device",
+    });
+  } else {
+    report({ name: "Xcode version", status: "pass", message: `Xcode ${versionMatch[1]}.${versionMatch[2]}` });
+  }
+  return true;
+}
+
+async function checkXcbeautify(runtime: CliRuntimeContext): Promise<DoctorCheck> {
+  const formatter = getBuildOutputFormatter(runtime);
+  if (formatter !== "xcbeautify") {
+    return { name: "xcbeautify", status: "pass", message: `not used, the output formatter is "${formatter}"` };
+  }
+  if (await getIsXcbeautifyInstalled()) {
+    return { name: "xcbeautify", status: "pass", message: "installed" };
+  }
+  return {
+    name: "xcbeautify",
+    status: "warn",
+    message: "not installed, the built-in formatter will be used",
+    hint: 'Install it with `brew install xcbeautify` or set "sweetpad.build.outputFormatter" to "sweetpad"',
+  };
+}
+
+async function checkXcodeBuildServer(runtime: CliRuntimeContext): Promise<DoctorCheck> {
+  if (getBuildServerProvider(runtime) === "sweetpad") {
+    return { name: "xcode-build-server", status: "skip", message: "not needed, the built-in build server is used" };
+  }
+  const xcodebuildServerPath = runtime.getConfig<string>("xcodebuildserver.path");
+  if (await getIsXcodeBuildServerInstalled({ xcodebuildServerPath })) {
+    return { name: "xcode-build-server", status: "pass", message: "installed" };
+  }
+  return {
+    name: "xcode-build-server",
+    status: "warn",
+    message: "not installed, sourcekit-lsp won't be able to index the project",
+    hint: 'Install it with `brew install xcode-build-server` or set "sweetpad.xcodebuildserver.path"',
+  };
+}
+
+async function checkWorkspace(
+  report: (check: DoctorCheck) => void,
+  options: { workspacePath: string; xcworkspace: string | undefined; runtime: CliRuntimeContext },
+): Promise<string | null> {
+  const rawPath = options.xcworkspace ?? options.runtime.getConfig<string>("build.xcodeWorkspacePath");
+  if (rawPath) {
+    const xcworkspace = path.isAbsolute(rawPath) ? rawPath : path.join(options.workspacePath, rawPath);
+    if (!(await isFileExists(xcworkspace))) {
+      report({
+        name: "Xcode workspace",
+        status: "fail",
+        message: `${rawPath} doesn't exist`,
+        hint: 'Check --xcworkspace or "sweetpad.build.xcodeWorkspacePath"',
+      });
+      return null;
+    }
+    report({ name: "Xcode workspace", status: "pass", message: rawPath });
+    return xcworkspace;
+  }
+
+  const paths = await detectXcodeWorkspacesPaths(options.workspacePath);
+  if (paths.length === 0) {
+    report({
+      name: "Xcode workspace",
+      status: "fail",
+      message: `no .xcworkspace found in ${options.workspacePath}`,
+      hint: "Run the CLI from the project folder or pass --workspace-root, generate the project first if you use XcodeGen or Tuist",
+    });
+    return null;
+  }
+
+  const relativePaths = paths.map((xcPath) => path.relative(options.workspacePath, xcPath));
+  if (paths.length > 1) {
+    report({
+      name: "Xcode workspace",
+      status: "warn",
+      message: `several workspaces found: ${relativePaths.join(", ")}`,
+      hint: 'Pass --xcworkspace or set "sweetpad.build.xcodeWorkspacePath" to avoid prompting',
+    });
+  } else {
+    report({ name: "Xcode workspace", status: "pass", message: relativePaths[0] });
+  }
+  return paths[0];
+}
+
+async function checkSchemes(
+  report: (check: DoctorCheck) => void,
+  options: { xcworkspace: string; useWorkspaceParser: boolean },
+): Promise<XcodeScheme[] | null> {
+  let schemes: XcodeScheme[];
+  try {
+    schemes = await getSchemes({ xcworkspace: options.xcworkspace, useWorkspaceParser: options.useWorkspaceParser });
+  } catch (error) {
+    const stderr = error instanceof ExecBaseError ? (error.options?.context?.stderr as string | undefined) : undefined;
+    report({
+      name: "Schemes",
+      status: "fail",
+      message: stderr?.split("\n")[0] || (error instanceof Error ? error.message : String(error)),
+      hint: "Run `xcodebuild -list -workspace <path>` to see the full error",
+    });
+    return null;
+  }
+
+  if (schemes.length === 0) {
+    report({
+      name: "Schemes",
+      status: "fail",
+      message: "no schemes found",
+      hint: 'Open the project in Xcode and check "Shared" for the scheme in Product > Scheme > Manage Schemes',
+    });
+    return schemes;
+  }
+  report({ name: "Schemes", status: "pass", message: schemes.map((scheme) => scheme.name).join(", ") });
+  return schemes;
+}
+
+async function checkSimulators(simulatorsManager: SimulatorsManager): Promise<DoctorCheck> {
+  try {
+    const simulators = await simulatorsManager.getSimulators({ refresh: true });
+    const available = simulators.filter((simulator) => simulator.isAvailable);
+    if (available.length === 0) {
+      return {
+        name: "Simulators",
+        status: "warn",
+        message: "no available simulators",
+        hint: "Install a platform in Xcode > Settings > Components or run `xcodebuild -downloadPlatform iOS`",
+      };
+    }
+    const booted = available.filter((simulator) => simulator.isBooted).length;
+    return { name: "Simulators", status: "pass", message: `${available.length} available, ${booted} booted` };
+  } catch (error) {
+    return {
+      name: "Simulators",
+      status: "fail",
+      message: error instanceof Error ? error.message : String(error),
+      hint: "Run `xcrun simctl list devices` to see the full error",
+    };
+  }
+}
+
+async function checkBuildServerConfig(options: {
+  workspacePath: string;
+  xcworkspace: string | null;
+  schemes: XcodeScheme[] | null;
+  provider: BuildServerProvider;
+}): Promise<DoctorCheck> {
+  const name = "buildServer.json";
+  const configPath = path.join(options.workspacePath, "buildServer.json");
+  const generateHint =
+    options.provider === "sweetpad"
+      ? 'Generate it with "SweetPad: Generate Build Server Config" in VS Code'
+      : "Generate it with `xcode-build-server config -workspace <path> -scheme <scheme>`";
+
+  if (!(await isFileExists(configPath))) {
+    return {
+      name,
+      status: "warn",
+      message: "not found, sourcekit-lsp won't be able to index the project",
+      hint: `${generateHint} or build the app once with "sweetpad.xcodebuildserver.autogenerate" enabled`,
+    };
+  }
+
+  let config: Record<string, unknown>;
+  try {
+    config = await readJsonFile<Record<string, unknown>>(configPath);
+  } catch (error) {
+    return { name, status: "fail", message: "invalid JSON", hint: generateHint };
+  }
+
+  const workspace = typeof config.workspace === "string" ? config.workspace : null;
+  const scheme = typeof config.scheme === "string" ? config.scheme : null;
+  if (!workspace || !scheme) {
+    return { name, status: "fail", message: '"workspace" or "scheme" is missing', hint: generateHint };
+  }
+  if (!(await isFileExists(workspace))) {
+    return { name, status: "fail", message: `workspace ${workspace} doesn't exist`, hint: generateHint };
+  }
+  if (options.schemes && !options.schemes.some((item) => item.name === scheme)) {
+    return { name, status: "warn", message: `scheme "${scheme}" not found in the workspace`, hint: generateHint };
+  }
+
+  // The built-in server is started with the CLI of the extension version that generated the file
+  const argv = Array.isArray(config.argv) ? config.argv.filter((arg): arg is string => typeof arg === "string") : [];
+  if (argv.length === 0) {
+    return { name, status: "pass", message: `scheme "${scheme}"` };
+  }
+  for (const arg of argv) {
+    if (path.isAbsolute(arg) && !(await isFileExists(arg))) {
+      return {
+        name,
+        status: "fail",
+        message: `build server command ${quote(argv)} refers to ${arg}, which doesn't exist`,
+        hint: generateHint,
+      };
+    }
+  }
+  return { name, status: "pass", message: `scheme "${scheme}", build server command ${quote(argv)}` };
+}
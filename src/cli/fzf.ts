@@ -1,12 +1,27 @@
 import { spawn } from "node:child_process";
+import { constants, accessSync } from "node:fs";
+import path from "node:path";
 import { ExtensionError } from "../common/errors";
+import { builtinPick } from "./picker";
+
+// "auto" uses fzf when it's installed and the built-in picker otherwise
+export type CliPickerMode = "auto" | "fzf" | "builtin";
 
 type FzfItem<T> = {
   label: string;
   value: T;
+  // Shown next to the label in the non-interactive error, ex. the id to pass with a flag
+  detail?: string;
 };
 
-export async function fzfPick<T>(options: { prompt: string; items: FzfItem<T>[] }): Promise<T> {
+export async function fzfPick<T>(options: {
+  prompt: string;
+  items: FzfItem<T>[];
+  interactive?: boolean;
+  picker?: CliPickerMode;
+  // How to resolve the choice without prompting, ex. "--scheme <name> or SWEETPAD_SCHEME"
+  hint?: string;
+}): Promise<T> {
   const items = options.items;
   if (items.length === 0) {
     throw new ExtensionError("No items available for selection");
@@ -14,6 +29,21 @@ export async function fzfPick<T>(options: { prompt: string; items: FzfItem<T>[]
   if (items.length === 1) {
     return items[0].value;
   }
+  if (options.interactive === false) {
+    const candidates = items.map((item) => `  - ${item.label}${item.detail ? ` (${item.detail})` : ""}`);
+    throw new ExtensionError(
+      [
+        `${options.prompt}: several candidates found, but the CLI is running in non-interactive mode.`,
+        ...(options.hint ? [`Use ${options.hint} to select one of:`] : ["Candidates:"]),
+        ...candidates,
+      ].join("\n"),
+    );
+  }
+
+  const picker = options.picker ?? "auto";
+  if (picker === "builtin" || (picker === "auto" && !isFzfInstalled())) {
+    return await builtinPick({ prompt: options.prompt, items });
+  }
 
   const input = items.map((item, index) => `${item.label}\t${index}`).join("\n");
 
@@ -32,7 +62,9 @@ export async function fzfPick<T>(options: { prompt: string; items: FzfItem<T>[]
     child.on("error", (error: NodeJS.ErrnoException) => {
       if (error.code === "ENOENT") {
         reject(
-          new ExtensionError("fzf is required but not installed. Install it with `brew install fzf` and try again."),
+          new ExtensionError(
+            'fzf is not installed. Install it with `brew install fzf` or set "sweetpad.cli.picker" to "builtin".',
+          ),
         );
         return;
       }
@@ -56,3 +88,15 @@ export async function fzfPick<T>(options: { prompt: string; items: FzfItem<T>[]
     });
   });
 }
+
+function isFzfInstalled(): boolean {
+  const directories = (process.env.PATH ?? "").split(path.delimiter).filter(Boolean);
+  return directories.some((directory) => {
+    try {
+      accessSync(path.join(directory, "fzf"), constants.X_OK);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  });
+}
@@ -1,179 +1,36 @@
 import path from "node:path";
-import { buildApp, getXcodeBuildDestinationString, runOnMac, runOniOSDevice, runOniOSSimulator } from "../build/runner";
-import { getBuildSettingsToLaunch } from "../common/cli/scripts";
+import type { ExportOptions, ExportOptionsSource } from "../build/archive";
+import { DryRunTaskTerminal, createDryRunRuntime, formatShellCommand } from "../build/dry-run";
+import { type BuildRuntimeContext, getXcodeBuildDestinationString } from "../build/runner";
 import { ExtensionError } from "../common/errors";
-import { assertUnreachable } from "../common/types";
+import type { TaskTerminal } from "../common/tasks";
 import type { Destination } from "../destination/types";
 import { SimulatorsManager } from "../simulators/manager";
+import { type CliOptions, parseArgs, printHelp } from "./args";
+import { runBuildServer } from "./bsp";
+import { parseBuildCommand, runBuildCommand } from "./commands";
+import { printCompletionScript, runComplete } from "./completion";
 import { getCliConfig, loadCliConfig } from "./config";
 import { CliRuntimeContext } from "./context";
+import { runDoctor } from "./doctor";
+import { parseListKind, runList } from "./list";
+import { CliReporter } from "./output";
 import {
+  formatDestinationCandidate,
   listDestinations,
+  matchDestinationId,
+  matchDestinationName,
   pickConfigurationSmart,
   pickDestinationSmart,
   pickSchemeSmart,
   pickXcodeWorkspacePathSmart,
 } from "./pickers";
+import { type CliProfile, getProfileConfigOverrides, loadProfiles, printProfiles, resolveProfile } from "./profiles";
+import { runServer } from "./serve";
+import { runSimCommand } from "./sim";
+import { runStateCommand } from "./state-command";
 import { CliTaskTerminal } from "./terminal";
-
-type CliOptions = {
-  command?: "build" | "run" | "clean" | "launch";
-  workspaceRoot?: string;
-  xcworkspace?: string;
-  scheme?: string;
-  configuration?: string;
-  destinationId?: string;
-  destinationName?: string;
-  sdk?: string;
-  arch?: string;
-  debug?: boolean;
-  launchArgs: string[];
-  launchEnv: Record<string, string>;
-  help?: boolean;
-};
-
-function parseArgs(argv: string[]): CliOptions {
-  const options: CliOptions = {
-    launchArgs: [],
-    launchEnv: {},
-  };
-
-  for (let i = 0; i < argv.length; i++) {
-    const arg = argv[i];
-    if (arg === "--help" || arg === "-h") {
-      options.help = true;
-      continue;
-    }
-    if (arg === "--debug") {
-      options.debug = true;
-      continue;
-    }
-    if (!arg.startsWith("-") && !options.command) {
-      options.command = arg as CliOptions["command"];
-      continue;
-    }
-
-    const next = argv[i + 1];
-    if (!next || next.startsWith("-")) {
-      throw new ExtensionError(`Missing value for ${arg}`);
-    }
-
-    switch (arg) {
-      case "--workspace-root":
-        options.workspaceRoot = next;
-        i++;
-        break;
-      case "--xcworkspace":
-        options.xcworkspace = next;
-        i++;
-        break;
-      case "--scheme":
-        options.scheme = next;
-        i++;
-        break;
-      case "--configuration":
-        options.configuration = next;
-        i++;
-        break;
-      case "--destination-id":
-        options.destinationId = next;
-        i++;
-        break;
-      case "--destination":
-        options.destinationName = next;
-        i++;
-        break;
-      case "--sdk":
-        options.sdk = next;
-        i++;
-        break;
-      case "--arch":
-        options.arch = next;
-        i++;
-        break;
-      case "--launch-args":
-        options.launchArgs.push(...parseListValue(next));
-        i++;
-        break;
-      case "--launch-env":
-        Object.assign(options.launchEnv, parseEnvValue(next));
-        i++;
-        break;
-      default:
-        throw new ExtensionError(`Unknown argument: ${arg}`);
-    }
-  }
-
-  return options;
-}
-
-function parseListValue(raw: string): string[] {
-  const trimmed = raw.trim();
-  if (trimmed.startsWith("[")) {
-    const parsed = JSON.parse(trimmed);
-    return Array.isArray(parsed) ? parsed : [];
-  }
-  if (!trimmed) {
-    return [];
-  }
-  return trimmed
-    .split(",")
-    .map((value) => value.trim())
-    .filter(Boolean);
-}
-
-function parseEnvValue(raw: string): Record<string, string> {
-  const trimmed = raw.trim();
-  if (trimmed.startsWith("{")) {
-    const parsed = JSON.parse(trimmed);
-    if (parsed && typeof parsed === "object") {
-      return parsed as Record<string, string>;
-    }
-    return {};
-  }
-
-  const env: Record<string, string> = {};
-  for (const item of trimmed.split(",")) {
-    const [key, ...rest] = item.split("=");
-    if (!key || rest.length === 0) {
-      continue;
-    }
-    env[key.trim()] = rest.join("=").trim();
-  }
-  return env;
-}
-
-function printHelp(): void {
-  process.stdout.write(
-    [
-      "SweetPad CLI",
-      "",
-      "Usage:",
-      "  sweetpad <command> [options]",
-      "",
-      "Commands:",
-      "  build   Build the app",
-      "  run     Build and run the app",
-      "  clean   Clean build artifacts",
-      "  launch  Build and launch in debug mode",
-      "",
-      "Options:",
-      "  --workspace-root <path>   Workspace root (default: cwd)",
-      "  --xcworkspace <path>      Xcode workspace path",
-      "  --scheme <name>           Scheme name",
-      "  --configuration <name>    Build configuration",
-      "  --destination-id <id>     Destination UDID",
-      "  --destination <name>      Destination name or label substring",
-      "  --sdk <sdk>               Xcode SDK (macosx, iphonesimulator, ...)",
-      "  --arch <arch>             Architecture (x86_64, arm64)",
-      "  --debug                   Enable debug build settings",
-      "  --launch-args <args>      Comma-separated or JSON array",
-      "  --launch-env <env>        KEY=VALUE pairs or JSON object",
-      "  -h, --help                Show help",
-      "",
-    ].join("\n"),
-  );
-}
+import { watchAndRun } from "./watch";
 
 async function resolveXcworkspace(
   options: CliOptions,
@@ -191,6 +48,36 @@ async function resolveXcworkspace(
   return await pickXcodeWorkspacePathSmart({ workspacePath, context: runtime });
 }
 
+/**
+ * ExportOptions.plist from the flag or the config, otherwise it's generated when the export method
+ * is known. Without both the app is only archived.
+ */
+function resolveExportOptions(
+  options: CliOptions,
+  workspacePath: string,
+  config: Record<string, unknown>,
+): ExportOptionsSource {
+  const rawPath = options.exportOptionsPath ?? getCliConfig<string>(config, "build.exportOptionsPath");
+  if (rawPath) {
+    return { type: "file", path: path.isAbsolute(rawPath) ? rawPath : path.join(workspacePath, rawPath) };
+  }
+
+  const configOptions = getCliConfig<ExportOptions>(config, "build.exportOptions");
+  const method = options.exportMethod ?? configOptions?.method;
+  if (!method) {
+    return { type: "none" };
+  }
+  return {
+    type: "generated",
+    options: {
+      method,
+      teamID: options.teamId ?? configOptions?.teamID,
+      signingStyle: options.signingStyle ?? configOptions?.signingStyle,
+      provisioningProfiles: { ...configOptions?.provisioningProfiles, ...options.provisioningProfiles },
+    },
+  };
+}
+
 function resolveDerivedDataPath(workspacePath: string, config: Record<string, unknown>): string | null {
   const configPath = getCliConfig<string>(config, "build.derivedDataPath");
   if (!configPath) {
@@ -233,18 +120,36 @@ async function resolveDestination(options: {
     const destinationId = options.destinationId;
     const destination = destinations.find((item) => matchDestinationId(item, destinationId));
     if (!destination) {
-      throw new ExtensionError(`Destination not found for id: ${destinationId}`);
+      throw new ExtensionError(
+        [
+          `Destination not found for id: ${destinationId}. Available destinations:`,
+          ...destinations.map(formatDestinationCandidate),
+        ].join("\n"),
+      );
     }
     return destination;
   }
 
   const matches = destinations.filter((item) => matchDestinationName(item, options.destinationName ?? ""));
   if (matches.length === 0) {
-    throw new ExtensionError(`Destination not found for name: ${options.destinationName}`);
+    throw new ExtensionError(
+      [
+        `Destination not found for name: ${options.destinationName}. Available destinations:`,
+        ...destinations.map(formatDestinationCandidate),
+      ].join("\n"),
+    );
   }
   if (matches.length === 1) {
     return matches[0];
   }
+  if (!options.runtime.isInteractive) {
+    throw new ExtensionError(
+      [
+        `Several destinations match "${options.destinationName}", use --destination-id (SWEETPAD_DESTINATION_ID) to select one of:`,
+        ...matches.map(formatDestinationCandidate),
+      ].join("\n"),
+    );
+  }
 
   return await pickDestinationSmart({
     simulatorsManager: options.simulatorsManager,
@@ -258,36 +163,58 @@ async function resolveDestination(options: {
   });
 }
 
-function matchDestinationId(destination: Destination, id: string): boolean {
-  const normalized = id.trim().toLowerCase();
-  if ("udid" in destination) {
-    return destination.udid.toLowerCase() === normalized || destination.id.toLowerCase() === normalized;
+/**
+ * Prompts can't be answered in CI or when the input is piped, so fzf would hang or be cancelled
+ */
+function detectNonInteractive(options: CliOptions): boolean {
+  if (options.nonInteractive) {
+    return true;
   }
-  return destination.id.toLowerCase() === normalized;
+  const ci = process.env.CI?.toLowerCase();
+  return !process.stdin.isTTY || ci === "true" || ci === "1";
 }
 
-function matchDestinationName(destination: Destination, name: string): boolean {
-  const normalized = name.trim().toLowerCase();
-  if (!normalized) {
-    return false;
+/**
+ * Fill the options that are not passed explicitly with the profile values, so the flags always win
+ */
+function applyProfile(options: CliOptions, profile: CliProfile): void {
+  options.xcworkspace ??= profile.xcworkspace;
+  options.scheme ??= profile.scheme;
+  options.configuration ??= profile.configuration;
+  options.sdk ??= profile.sdk;
+  options.arch ??= profile.arch;
+  if (!options.destinationId && !options.destinationName) {
+    options.destinationId = profile.destinationId;
+    options.destinationName = profile.destination;
+  }
+  if (options.launchArgs.length === 0 && profile.launchArgs) {
+    options.launchArgs = profile.launchArgs;
+  }
+  if (Object.keys(options.launchEnv).length === 0 && profile.launchEnv) {
+    options.launchEnv = profile.launchEnv;
   }
-  const label = destination.label.toLowerCase();
-  const destName = "name" in destination ? destination.name.toLowerCase() : label;
-  return (
-    label.includes(normalized) || destName.includes(normalized) || destination.id.toLowerCase().includes(normalized)
-  );
 }
 
-async function run(): Promise<void> {
-  const options = parseArgs(process.argv.slice(2));
-  if (options.help || !options.command) {
-    printHelp();
+async function run(options: CliOptions, reporter: CliReporter): Promise<void> {
+  const workspacePath = path.resolve(options.workspaceRoot ?? process.cwd());
+  process.chdir(workspacePath);
+
+  if (options.command === "completion") {
+    printCompletionScript(options.positionals[0]);
+    return;
+  }
+
+  if (options.command === "profiles") {
+    await printProfiles({ workspacePath, json: options.output === "json" });
     return;
   }
 
-  const workspacePath = path.resolve(options.workspaceRoot ?? process.cwd());
-  process.chdir(workspacePath);
   const config = await loadCliConfig(workspacePath);
+  if (options.profile) {
+    const profile = resolveProfile(await loadProfiles(workspacePath), options.profile);
+    applyProfile(options, profile);
+    Object.assign(config, getProfileConfigOverrides(profile));
+  }
   const simulatorsManager = new SimulatorsManager();
   const useWorkspaceParser = getCliConfig<boolean>(config, "system.customXcodeWorkspaceParser") ?? false;
 
@@ -295,17 +222,81 @@ async function run(): Promise<void> {
     workspacePath,
     config,
     simulatorsManager,
+    reporter,
+    interactive: !detectNonInteractive(options),
+    useRememberedState: options.repick ? false : options.useState,
   });
 
-  const xcworkspace = await resolveXcworkspace(options, workspacePath, config, runtime);
-  const arch =
-    options.arch ?? runtime.getRememberedValue<string>("cli.arch") ?? getCliConfig<string>(config, "build.arch");
+  if (options.command === "doctor") {
+    await runDoctor({
+      json: options.output === "json",
+      workspacePath,
+      xcworkspace: options.xcworkspace,
+      useWorkspaceParser,
+      simulatorsManager,
+      runtime,
+    });
+    return;
+  }
+
+  if (options.command === "state") {
+    await runStateCommand({
+      args: options.positionals,
+      json: options.output === "json",
+      workspacePath,
+      useWorkspaceParser,
+      simulatorsManager,
+      runtime,
+    });
+    return;
+  }
+
+  if (options.command === "list") {
+    await runList({
+      kind: parseListKind(options.positionals[0]),
+      json: options.output === "json",
+      workspacePath,
+      xcworkspace: options.xcworkspace,
+      useWorkspaceParser,
+      simulatorsManager,
+      runtime,
+    });
+    return;
+  }
 
+  if (options.command === "serve") {
+    await runServer({ workspacePath, storagePath: runtime.storagePath, stdio: options.stdio ?? false });
+    return;
+  }
+
+  if (options.command === "bsp") {
+    await runBuildServer({ workspacePath, storagePath: runtime.storagePath });
+    return;
+  }
+
+  if (options.command === "sim") {
+    await runSimCommand({
+      args: options.positionals,
+      json: options.output === "json",
+      launchArgs: options.launchArgs,
+      launchEnv: options.launchEnv,
+      simulatorsManager,
+      runtime,
+    });
+    return;
+  }
+
+  const xcworkspace = await resolveXcworkspace(options, workspacePath, config, runtime);
+  // The arch from the settings is not remembered, so it can be changed by the "overrides" blocks
+  const arch = options.arch ?? runtime.getRememberedValue<string>("cli.arch");
   if (arch) {
     runtime.setRememberedValue("cli.arch", arch);
-    config["build.arch"] = arch;
+    runtime.pinConfig("build.arch", arch);
   }
-  const scheme = options.scheme ?? (await pickSchemeSmart({ xcworkspace, useWorkspaceParser, context: runtime }));
+  const scheme =
+    options.scheme ??
+    process.env.SWEETPAD_SCHEME ??
+    (await pickSchemeSmart({ xcworkspace, useWorkspaceParser, context: runtime }));
   const configuration =
     options.configuration ??
     getCliConfig<string>(config, "build.configuration") ??
@@ -320,138 +311,151 @@ async function run(): Promise<void> {
     sdk: options.sdk,
     xcworkspace,
     derivedDataPath,
-    destinationId: options.destinationId,
-    destinationName: options.destinationName,
+    destinationId: options.destinationId ?? process.env.SWEETPAD_DESTINATION_ID,
+    destinationName: options.destinationName ?? process.env.SWEETPAD_DESTINATION,
     runtime,
   });
+  runtime.configScope = { scheme, configuration, destinationType: destination.type };
 
   await runtime.savePersistentState();
 
   const sdk = options.sdk ?? destination.platform;
   const destinationRaw = getXcodeBuildDestinationString(runtime, { destination });
+  reporter.emit({
+    type: "resolved",
+    xcworkspace,
+    scheme,
+    configuration,
+    sdk,
+    destinationRaw,
+    destination: {
+      id: destination.id,
+      type: destination.type,
+      name: destination.name,
+      udid: "udid" in destination ? destination.udid : null,
+    },
+  });
 
   const launchArgs =
-    options.launchArgs.length > 0 ? options.launchArgs : (getCliConfig<string[]>(config, "build.launchArgs") ?? []);
+    options.launchArgs.length > 0 ? options.launchArgs : runtime.getConfigOrDefault<string[]>("build.launchArgs", []);
   const launchEnv =
     Object.keys(options.launchEnv).length > 0
       ? options.launchEnv
-      : (getCliConfig<Record<string, string>>(config, "build.launchEnv") ?? {});
-
-  const terminal = new CliTaskTerminal(workspacePath);
-  const reportBuildOutput = async () => {
-    const buildSettings = await getBuildSettingsToLaunch({
-      scheme,
-      configuration,
-      sdk,
-      xcworkspace,
-      derivedDataPath,
+      : runtime.getConfigOrDefault<Record<string, string>>("build.launchEnv", {});
+
+  const runCommand = async (buildRuntime: BuildRuntimeContext, terminal: TaskTerminal, onBuilt: () => void) => {
+    await runBuildCommand({
+      command: parseBuildCommand(options.command),
+      runtime: buildRuntime,
+      reporter,
+      terminal,
+      target: { xcworkspace, scheme, configuration, sdk, destination, destinationRaw, derivedDataPath },
+      debug: options.debug ?? false,
+      launchArgs,
+      launchEnv,
+      testMode: options.testMode,
+      onlyTesting: options.onlyTesting,
+      skipTesting: options.skipTesting,
+      exportOptions: resolveExportOptions(options, workspacePath, config),
+      timing: options.timing ?? false,
+      onBuilt,
     });
-    const outputPath = buildSettings.appPath ?? buildSettings.executablePath;
-    if (outputPath) {
-      process.stdout.write(`SweetPad: Build output: ${outputPath}\n`);
+  };
+
+  if (options.timing && options.command !== "build") {
+    throw new ExtensionError(`--timing is not supported for the "${options.command}" command`);
+  }
+
+  if (options.dryRun) {
+    if (options.watch) {
+      throw new ExtensionError("--dry-run can't be combined with --watch");
     }
+    const terminal = new DryRunTaskTerminal();
+    await runCommand(createDryRunRuntime(runtime, terminal), terminal, () => {});
+    if (reporter.isJson) {
+      for (const command of terminal.commands) {
+        const args = (command.args ?? []).filter((arg) => arg !== null) as string[];
+        reporter.emit({ type: "command", command: command.command, args, commandLine: formatShellCommand(command) });
+      }
+    } else {
+      process.stdout.write(terminal.getScript());
+    }
+    return;
+  }
+
+  if (options.watch) {
+    if (options.command !== "build" && options.command !== "run" && options.command !== "launch") {
+      throw new ExtensionError(`--watch is not supported for the "${options.command}" command`);
+    }
+    await watchAndRun({
+      workspacePath,
+      reporter,
+      cycle: ({ terminal, onBuilt }) => runCommand(runtime, terminal, onBuilt),
+    });
+    return;
+  }
+
+  await runCommand(runtime, new CliTaskTerminal({ workspacePath, reporter }), () => {});
+}
+
+/**
+ * In the json mode (and for "list") stdout must contain only the data for scripts, so the debug logs
+ * of the shared modules are redirected to stderr
+ */
+function redirectConsoleToStderr(): void {
+  const write = (...args: unknown[]) => {
+    process.stderr.write(`${args.map((arg) => (typeof arg === "string" ? arg : JSON.stringify(arg))).join(" ")}\n`);
   };
+  console.log = write;
+  console.info = write;
+  console.debug = write;
+}
 
-  switch (options.command) {
-    case "build": {
-      await buildApp(runtime, terminal, {
-        scheme,
-        sdk,
-        configuration,
-        shouldBuild: true,
-        shouldClean: false,
-        shouldTest: false,
-        xcworkspace,
-        destinationRaw,
-        debug: options.debug ?? false,
-      });
-      await reportBuildOutput();
+async function main(): Promise<void> {
+  let reporter = new CliReporter("text");
+  try {
+    const argv = process.argv.slice(2);
+    // Hidden command for the completion scripts: "sweetpad __complete -- <words...>"
+    if (argv[0] === "__complete") {
+      redirectConsoleToStderr();
+      await runComplete(argv.slice(argv[1] === "--" ? 2 : 1));
       return;
     }
-    case "clean": {
-      await buildApp(runtime, terminal, {
-        scheme,
-        sdk,
-        configuration,
-        shouldBuild: false,
-        shouldClean: true,
-        shouldTest: false,
-        xcworkspace,
-        destinationRaw,
-        debug: options.debug ?? false,
-      });
+
+    const options = parseArgs(argv);
+    if (options.help || !options.command) {
+      printHelp();
       return;
     }
-    case "run":
-    case "launch": {
-      const debug = options.command === "launch" ? true : (options.debug ?? false);
-      await buildApp(runtime, terminal, {
-        scheme,
-        sdk,
-        configuration,
-        shouldBuild: true,
-        shouldClean: false,
-        shouldTest: false,
-        xcworkspace,
-        destinationRaw,
-        debug,
-      });
-      await reportBuildOutput();
-
-      if (destination.type === "macOS") {
-        await runOnMac(runtime, terminal, {
-          scheme,
-          xcworkspace,
-          configuration,
-          watchMarker: false,
-          launchArgs,
-          launchEnv,
-        });
-      } else if (
-        destination.type === "iOSSimulator" ||
-        destination.type === "watchOSSimulator" ||
-        destination.type === "tvOSSimulator" ||
-        destination.type === "visionOSSimulator"
-      ) {
-        await runOniOSSimulator(runtime, terminal, {
-          scheme,
-          destination,
-          sdk,
-          configuration,
-          xcworkspace,
-          watchMarker: false,
-          launchArgs,
-          launchEnv,
-          debug,
-        });
-      } else if (
-        destination.type === "iOSDevice" ||
-        destination.type === "watchOSDevice" ||
-        destination.type === "tvOSDevice" ||
-        destination.type === "visionOSDevice"
-      ) {
-        await runOniOSDevice(runtime, terminal, {
-          scheme,
-          destination,
-          sdk,
-          configuration,
-          xcworkspace,
-          watchMarker: false,
-          launchArgs,
-          launchEnv,
-        });
-      } else {
-        assertUnreachable(destination);
-      }
-      return;
+
+    // These commands print a single document instead of events, and their output is meant for scripts
+    const isListing =
+      options.command === "list" ||
+      options.command === "profiles" ||
+      options.command === "state" ||
+      options.command === "completion" ||
+      options.command === "doctor" ||
+      options.command === "sim" ||
+      options.command === "serve" ||
+      options.command === "bsp";
+    reporter = new CliReporter(isListing ? "text" : options.output);
+    if (options.output === "json" || isListing || options.dryRun) {
+      redirectConsoleToStderr();
+    }
+
+    await run(options, reporter);
+    reporter.finishPhase();
+    reporter.emit({ type: "result", status: "succeeded", exitCode: 0 });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    process.exitCode = 1;
+    reporter.finishPhase();
+    if (reporter.isJson) {
+      reporter.emit({ type: "result", status: "failed", exitCode: 1, error: message });
+    } else {
+      process.stderr.write(`SweetPad CLI error: ${message}\n`);
     }
-    default:
-      throw new ExtensionError(`Unknown command: ${options.command}`);
   }
 }
 
-void run().catch((error) => {
-  const message = error instanceof Error ? error.message : String(error);
-  process.stderr.write(`SweetPad CLI error: ${message}\n`);
-  process.exitCode = 1;
-});
+void main();
@@ -0,0 +1,40 @@
+import {
+  type CancellationToken,
+  ErrorCodes,
+  type MessageConnection,
+  ResponseError,
+  StreamMessageReader,
+  StreamMessageWriter,
+  createMessageConnection,
+} from "vscode-jsonrpc/node";
+import { ExtensionError } from "../common/errors";
+
+/**
+ * JSON-RPC connection over stdin and stdout, for the servers started by the editor
+ */
+export function createStdioConnection(): MessageConnection {
+  return createMessageConnection(new StreamMessageReader(process.stdin), new StreamMessageWriter(process.stdout));
+}
+
+/**
+ * Register the request handler that reports our errors with the original message instead of
+ * the generic "Request failed" one
+ */
+export function handleRequest<P, R>(
+  connection: MessageConnection,
+  method: string,
+  handler: (params: P, token: CancellationToken) => Promise<R>,
+): void {
+  connection.onRequest(method, async (params: P, token: CancellationToken) => {
+    try {
+      return await handler(params, token);
+    } catch (error) {
+      if (error instanceof ResponseError) {
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      const context = error instanceof ExtensionError ? error.options?.context : undefined;
+      throw new ResponseError(ErrorCodes.InternalError, message, context);
+    }
+  });
+}
@@ -0,0 +1,174 @@
+import path from "node:path";
+import { readArchiveHistory } from "../build/archive";
+import { getBuildConfigurations, getSchemes, getTargets } from "../common/cli/scripts";
+import { ExtensionError } from "../common/errors";
+import type { Destination } from "../destination/types";
+import type { SimulatorsManager } from "../simulators/manager";
+import type { CliRuntimeContext } from "./context";
+import { detectXcodeWorkspacesPaths, listDestinations } from "./pickers";
+
+export const LIST_KINDS = ["workspaces", "schemes", "configurations", "destinations", "targets", "archives"] as const;
+
+export type ListKind = (typeof LIST_KINDS)[number];
+
+export type ListRow = Record<string, string | null>;
+
+export function parseListKind(raw: string | undefined): ListKind {
+  if (!raw) {
+    throw new ExtensionError(`Missing list kind. Supported kinds: ${LIST_KINDS.join(", ")}`);
+  }
+  const kind = LIST_KINDS.find((item) => item === raw);
+  if (!kind) {
+    throw new ExtensionError(`Unknown list kind: ${raw}. Supported kinds: ${LIST_KINDS.join(", ")}`);
+  }
+  return kind;
+}
+
+/**
+ * Print workspaces, schemes, configurations, destinations, targets or archives without prompting, so
+ * shell completions, Makefiles and other tools can query the project
+ */
+export async function runList(options: {
+  kind: ListKind;
+  json: boolean;
+  workspacePath: string;
+  xcworkspace: string | undefined;
+  useWorkspaceParser: boolean;
+  simulatorsManager: SimulatorsManager;
+  runtime: CliRuntimeContext;
+}): Promise<void> {
+  const rows = await collectRows(options);
+
+  if (options.json) {
+    process.stdout.write(`${JSON.stringify(rows, null, 2)}\n`);
+    return;
+  }
+  process.stdout.write(formatTable(rows));
+}
+
+async function collectRows(options: {
+  kind: ListKind;
+  workspacePath: string;
+  xcworkspace: string | undefined;
+  useWorkspaceParser: boolean;
+  simulatorsManager: SimulatorsManager;
+  runtime: CliRuntimeContext;
+}): Promise<ListRow[]> {
+  switch (options.kind) {
+    case "workspaces": {
+      const paths = await detectXcodeWorkspacesPaths(options.workspacePath);
+      return paths.map((xcPath) => ({
+        name: path.relative(options.workspacePath, xcPath),
+        path: xcPath,
+      }));
+    }
+    case "schemes": {
+      const xcworkspace = await resolveListXcworkspace(options);
+      const schemes = await getSchemes({ xcworkspace, useWorkspaceParser: options.useWorkspaceParser });
+      return schemes.map((scheme) => ({ name: scheme.name }));
+    }
+    case "configurations": {
+      const xcworkspace = await resolveListXcworkspace(options);
+      const configurations = await getBuildConfigurations({
+        xcworkspace,
+        useWorkspaceParser: options.useWorkspaceParser,
+      });
+      return configurations.map((configuration) => ({ name: configuration.name }));
+    }
+    case "targets": {
+      const xcworkspace = await resolveListXcworkspace(options);
+      const targets = await getTargets({ xcworkspace });
+      return targets.map((target) => ({ name: target }));
+    }
+    case "destinations": {
+      const destinations = await listDestinations({
+        simulatorsManager: options.simulatorsManager,
+        storagePath: options.runtime.storagePath,
+      });
+      return destinations.map((destination) => describeDestination(destination));
+    }
+    case "archives": {
+      const history = await readArchiveHistory(options.runtime.storagePath);
+      return history.map((entry) => ({
+        createdAt: entry.createdAt,
+        scheme: entry.scheme,
+        configuration: entry.configuration,
+        archive: entry.archivePath,
+        exported: entry.artifactPaths.join(", ") || null,
+      }));
+    }
+  }
+}
+
+/**
+ * Unlike the build commands, listing never prompts for the workspace: it's taken from the
+ * arguments, the config or the remembered state, otherwise it must be the only one in the folder
+ */
+async function resolveListXcworkspace(options: {
+  workspacePath: string;
+  xcworkspace: string | undefined;
+  runtime: CliRuntimeContext;
+}): Promise<string> {
+  const rawPath =
+    options.xcworkspace ??
+    options.runtime.getConfig<string>("build.xcodeWorkspacePath") ??
+    options.runtime.getRememberedValue<string>("cli.xcworkspace");
+  if (rawPath) {
+    return path.isAbsolute(rawPath) ? rawPath : path.join(options.workspacePath, rawPath);
+  }
+
+  const paths = await detectXcodeWorkspacesPaths(options.workspacePath);
+  if (paths.length === 0) {
+    throw new ExtensionError("No xcode workspaces found", { context: { cwd: options.workspacePath } });
+  }
+  if (paths.length > 1) {
+    const candidates = paths.map((xcPath) => path.relative(options.workspacePath, xcPath)).join(", ");
+    throw new ExtensionError(`Several xcode workspaces found, use --xcworkspace to select one: ${candidates}`);
+  }
+  return paths[0];
+}
+
+export function describeDestination(destination: Destination): ListRow {
+  if (destination.type === "macOS") {
+    return {
+      id: destination.id,
+      name: destination.name,
+      type: destination.type,
+      osVersion: null,
+      state: null,
+      udid: null,
+      arch: destination.arch,
+    };
+  }
+  return {
+    id: destination.id,
+    name: destination.name,
+    type: destination.type,
+    osVersion: destination.osVersion,
+    state: destination.state,
+    udid: destination.udid,
+    arch: null,
+  };
+}
+
+export function formatTable(rows: ListRow[]): string {
+  if (rows.length === 0) {
+    return "";
+  }
+
+  // Skip columns that are empty for every row, like "arch" when there are only simulators
+  const columns = Object.keys(rows[0]).filter((column) => rows.some((row) => row[column] !== null));
+  const cells = rows.map((row) => columns.map((column) => row[column] ?? "-"));
+  const header = columns.map((column) => column.toUpperCase());
+  const widths = columns.map((_, index) => Math.max(header[index].length, ...cells.map((row) => row[index].length)));
+
+  return [header, ...cells]
+    .map((row) =>
+      row
+        .map((cell, index) => (index === row.length - 1 ? cell : cell.padEnd(widths[index])))
+        .join("  ")
+        .trimEnd(),
+    )
+    .map((line) => `${line}\n`)
+    .join("");
+}
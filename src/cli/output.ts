@@ -0,0 +1,141 @@
+import type { BuildTimingRun } from "../build/timing";
+import { ExtensionError } from "../common/errors";
+
+export type CliOutputFormat = "text" | "json";
+
+export type CliDiagnostic = {
+  severity: "error" | "warning" | "note";
+  file: string;
+  line: number;
+  column: number | null;
+  message: string;
+};
+
+/**
+ * Events emitted in the `--output json` mode, one JSON object per line (NDJSON)
+ */
+export type CliEvent =
+  | { type: "phase"; status: "started" | "finished"; name: string; durationMs?: number }
+  | { type: "command"; command: string; args: string[]; commandLine: string }
+  | { type: "output"; stream: "stdout" | "stderr"; line: string }
+  | { type: "exit"; command: string; code: number | null }
+  | { type: "message"; message: string }
+  | ({ type: "diagnostic" } & CliDiagnostic)
+  | {
+      type: "resolved";
+      xcworkspace: string;
+      scheme: string;
+      configuration: string;
+      sdk: string;
+      destinationRaw: string;
+      destination: { id: string; type: string; name: string; udid: string | null };
+    }
+  | { type: "artifact"; path: string }
+  | ({ type: "timing" } & BuildTimingRun)
+  | { type: "launched"; pid: number }
+  | {
+      type: "watch";
+      cycle: number;
+      status: "started" | "built" | "failed" | "cancelled";
+      durationMs?: number;
+      changes?: string[];
+      error?: string;
+    }
+  | { type: "result"; status: "succeeded" | "failed"; exitCode: number; error?: string };
+
+// "/path/to/File.swift:10:5: error: cannot find 'foo' in scope"
+const DIAGNOSTIC_REGEXP = /^(\/.+?):(\d+):(?:(\d+):)? (error|warning|note): (.*)$/;
+
+// xcbeautify output: "❌ /path/to/File.swift:10:5: cannot find 'foo' in scope"
+const XCBEAUTIFY_DIAGNOSTIC_REGEXP = /^(❌|⚠️) (\/.+?):(\d+):(?:(\d+):)? (.*)$/;
+
+export function parseCliOutputFormat(raw: string): CliOutputFormat {
+  if (raw === "text" || raw === "json") {
+    return raw;
+  }
+  throw new ExtensionError(`Unknown output format: ${raw}. Supported formats: text, json`);
+}
+
+/**
+ * Extract compiler diagnostic from a single line of xcodebuild (or xcbeautify) output
+ */
+export function parseDiagnosticLine(line: string): CliDiagnostic | null {
+  const match = line.match(DIAGNOSTIC_REGEXP);
+  if (match) {
+    const [, file, lineNumber, column, severity, message] = match;
+    return {
+      severity: severity as CliDiagnostic["severity"],
+      file: file,
+      line: Number.parseInt(lineNumber, 10),
+      column: column ? Number.parseInt(column, 10) : null,
+      message: message,
+    };
+  }
+
+  const xcbeautifyMatch = line.match(XCBEAUTIFY_DIAGNOSTIC_REGEXP);
+  if (xcbeautifyMatch) {
+    const [, icon, file, lineNumber, column, message] = xcbeautifyMatch;
+    return {
+      severity: icon === "❌" ? "error" : "warning",
+      file: file,
+      line: Number.parseInt(lineNumber, 10),
+      column: column ? Number.parseInt(column, 10) : null,
+      message: message,
+    };
+  }
+  return null;
+}
+
+export type CliEventSink = (event: CliEvent & { timestamp: string }) => void;
+
+/**
+ * Write machine-readable events to stdout when the CLI is running with `--output json`.
+ * In the text mode all events are ignored, because the human-readable output is written directly.
+ * The sink replaces stdout, ex. to send the events as JSON-RPC notifications.
+ */
+export class CliReporter {
+  private currentPhase: { name: string; startedAt: number } | null = null;
+
+  constructor(
+    public format: CliOutputFormat,
+    private sink?: CliEventSink,
+  ) {}
+
+  get isJson(): boolean {
+    return this.format === "json";
+  }
+
+  emit(event: CliEvent): void {
+    if (!this.isJson) {
+      return;
+    }
+    const payload = { ...event, timestamp: new Date().toISOString() };
+    if (this.sink) {
+      this.sink(payload);
+      return;
+    }
+    process.stdout.write(`${JSON.stringify(payload)}\n`);
+  }
+
+  /**
+   * Each progress status starts a new phase, so the previous one is finished at this moment
+   */
+  startPhase(name: string): void {
+    this.finishPhase();
+    this.currentPhase = { name: name, startedAt: Date.now() };
+    this.emit({ type: "phase", status: "started", name: name });
+  }
+
+  finishPhase(): void {
+    if (!this.currentPhase) {
+      return;
+    }
+    this.emit({
+      type: "phase",
+      status: "finished",
+      name: this.currentPhase.name,
+      durationMs: Date.now() - this.currentPhase.startedAt,
+    });
+    this.currentPhase = null;
+  }
+}
@@ -0,0 +1,33 @@
+import { fuzzyMatch } from "./picker";
+
+describe("fuzzy match", () => {
+  it("should match the subsequence ignoring case", () => {
+    expect(fuzzyMatch("ipr", "iPhone 15 Pro")?.positions).toEqual([0, 1, 11]);
+    expect(fuzzyMatch("IPHONE", "iphone")?.positions).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+
+  it("should not match when the characters are missing or in the other order", () => {
+    expect(fuzzyMatch("ipx", "iPhone 15 Pro")).toBeNull();
+    expect(fuzzyMatch("pi", "iPad")).toBeNull();
+  });
+
+  it("should match everything with the empty query", () => {
+    expect(fuzzyMatch("", "iPhone 15")).toEqual({ score: 0, positions: [] });
+  });
+
+  it("should prefer consecutive characters and word starts", () => {
+    const consecutive = fuzzyMatch("pro", "iPhone 15 Pro");
+    const scattered = fuzzyMatch("pro", "iPad Air (4th generation) Retina Orange");
+    expect(consecutive?.score).toBeGreaterThan(scattered?.score ?? 0);
+
+    const wordStart = fuzzyMatch("a", "My App");
+    const middle = fuzzyMatch("a", "Mya pp");
+    expect(wordStart?.score).toBeGreaterThan(middle?.score ?? 0);
+  });
+
+  it("should count positions in code points", () => {
+    // "🍎" is two UTF-16 units, but one character in the rendered label
+    expect(fuzzyMatch("app", "🍎 App")?.positions).toEqual([2, 3, 4]);
+    expect(fuzzyMatch("b", "𝒜𝒝 b")?.positions).toEqual([3]);
+  });
+});
@@ -0,0 +1,237 @@
+import readline from "node:readline";
+import { ExtensionError } from "../common/errors";
+
+export type PickerItem<T> = {
+  label: string;
+  value: T;
+};
+
+type FuzzyMatch = {
+  score: number;
+  // Indexes of the matched code points (not UTF-16 units) in the label, used for highlighting
+  positions: number[];
+};
+
+type RankedItem<T> = {
+  item: PickerItem<T>;
+  match: FuzzyMatch;
+};
+
+const MAX_VISIBLE_ITEMS = 10;
+
+/**
+ * Case-insensitive subsequence match, like in fzf: "ipr" matches "iPhone 15 Pro".
+ * Consecutive characters and characters at the start of words get higher score.
+ */
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  if (!query) {
+    return { score: 0, positions: [] };
+  }
+
+  const chars = [...text];
+  const lowerChars = chars.map((char) => char.toLowerCase());
+  const positions: number[] = [];
+  let score = 0;
+  let textIndex = 0;
+
+  for (const char of query.toLowerCase()) {
+    const index = lowerChars.indexOf(char, textIndex);
+    if (index === -1) {
+      return null;
+    }
+
+    const previous = positions[positions.length - 1];
+    if (previous !== undefined && index === previous + 1) {
+      score += 5;
+    }
+    if (index === 0 || /[\s\-_./(]/.test(chars[index - 1])) {
+      score += 3;
+    }
+    score -= index - textIndex;
+    positions.push(index);
+    textIndex = index + 1;
+  }
+  return { score, positions };
+}
+
+function rankItems<T>(items: PickerItem<T>[], query: string): RankedItem<T>[] {
+  const ranked: (RankedItem<T> & { index: number })[] = [];
+  items.forEach((item, index) => {
+    const match = fuzzyMatch(query, item.label);
+    if (match) {
+      ranked.push({ item, match, index });
+    }
+  });
+  // Keep the original order for the items with the same score
+  return ranked.sort((a, b) => b.match.score - a.match.score || a.index - b.index);
+}
+
+function highlight(label: string, positions: number[], maxLength: number): string {
+  const matched = new Set(positions);
+  // Long lines are wrapped by the terminal and break the redraw, so they are cut
+  const chars = [...label];
+  const visible = chars.length > maxLength ? [...chars.slice(0, maxLength - 1), "…"] : chars;
+  return visible.map((char, index) => (matched.has(index) ? `\x1b[1;36m${char}\x1b[0m` : char)).join("");
+}
+
+/**
+ * Arrow keys and raw mode don't work in dumb terminals (TERM=dumb, Emacs shell, some CI log viewers)
+ */
+function isRawModeSupported(): boolean {
+  return !!process.stdin.isTTY && !!process.stderr.isTTY && process.env.TERM !== "dumb";
+}
+
+/**
+ * Built-in replacement for fzf. The picker is drawn on stderr, so the stdout of the CLI stays clean.
+ */
+export async function builtinPick<T>(options: { prompt: string; items: PickerItem<T>[] }): Promise<T> {
+  if (options.items.length === 0) {
+    throw new ExtensionError("No items available for selection");
+  }
+  if (!isRawModeSupported()) {
+    return await numberedPick(options);
+  }
+  return await interactivePick(options);
+}
+
+async function interactivePick<T>(options: { prompt: string; items: PickerItem<T>[] }): Promise<T> {
+  const input = process.stdin;
+  const output = process.stderr;
+
+  let query = "";
+  let selected = 0;
+  let offset = 0;
+  let ranked = rankItems(options.items, query);
+  let renderedLines = 0;
+
+  const render = () => {
+    const visibleCount = Math.min(MAX_VISIBLE_ITEMS, Math.max((output.rows ?? 24) - 2, 1));
+    if (selected < offset) {
+      offset = selected;
+    } else if (selected >= offset + visibleCount) {
+      offset = selected - visibleCount + 1;
+    }
+
+    const lines = [`\x1b[32m?\x1b[0m ${options.prompt} › ${query}`];
+    for (const [index, { item, match }] of ranked.slice(offset, offset + visibleCount).entries()) {
+      const isSelected = offset + index === selected;
+      const label = highlight(item.label, match.positions, (output.columns ?? 80) - 3);
+      lines.push(isSelected ? `\x1b[36m❯\x1b[0m ${label}` : `  ${label}`);
+    }
+    lines.push(
+      `\x1b[2m  ${ranked.length}/${options.items.length} · ↑/↓ to move, enter to select, esc to cancel\x1b[0m`,
+    );
+
+    // Move to the first line of the previous render and redraw everything below it
+    if (renderedLines > 1) {
+      output.write(`\x1b[${renderedLines - 1}A`);
+    }
+    output.write(`\r\x1b[J${lines.join("\n")}`);
+    renderedLines = lines.length;
+  };
+
+  return new Promise<T>((resolve, reject) => {
+    const cleanup = () => {
+      input.off("keypress", onKeypress);
+      input.setRawMode(false);
+      input.pause();
+      if (renderedLines > 1) {
+        output.write(`\x1b[${renderedLines - 1}A`);
+      }
+      output.write("\r\x1b[J\x1b[?25h");
+    };
+
+    const onKeypress = (char: string | undefined, key: readline.Key | undefined) => {
+      const name = key?.name;
+      if ((key?.ctrl && name === "c") || name === "escape") {
+        cleanup();
+        reject(new ExtensionError("Selection cancelled"));
+        return;
+      }
+      if (name === "return" || name === "enter") {
+        const current = ranked[selected];
+        if (!current) {
+          return;
+        }
+        cleanup();
+        output.write(`\x1b[32m✔\x1b[0m ${options.prompt} › ${current.item.label}\n`);
+        resolve(current.item.value);
+        return;
+      }
+
+      if (name === "up" || (key?.ctrl && (name === "p" || name === "k"))) {
+        selected = Math.max(selected - 1, 0);
+      } else if (name === "down" || (key?.ctrl && (name === "n" || name === "j"))) {
+        selected = Math.min(selected + 1, Math.max(ranked.length - 1, 0));
+      } else if (name === "backspace") {
+        query = query.slice(0, -1);
+        ranked = rankItems(options.items, query);
+        selected = 0;
+      } else if (key?.ctrl && name === "u") {
+        query = "";
+        ranked = rankItems(options.items, query);
+        selected = 0;
+      } else if (char && !key?.ctrl && !key?.meta && char >= " ") {
+        query += char;
+        ranked = rankItems(options.items, query);
+        selected = 0;
+      }
+      render();
+    };
+
+    readline.emitKeypressEvents(input);
+    input.setRawMode(true);
+    input.resume();
+    input.on("keypress", onKeypress);
+    output.write("\x1b[?25l");
+    render();
+  });
+}
+
+/**
+ * Fallback for dumb terminals: print the numbered list and read the number (or text to filter the list)
+ */
+async function numberedPick<T>(options: { prompt: string; items: PickerItem<T>[] }): Promise<T> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stderr });
+  // The iterator buffers lines, so the piped answers are not lost between the questions of this pick.
+  // The interface is closed after the pick, and the input it has already read is not passed to the next one.
+  const lines = rl[Symbol.asyncIterator]();
+  const question = async (text: string): Promise<string | null> => {
+    process.stderr.write(text);
+    const result = await lines.next();
+    return result.done ? null : result.value;
+  };
+
+  try {
+    let candidates = options.items;
+    while (true) {
+      process.stderr.write(`${options.prompt}:\n`);
+      for (const [index, item] of candidates.entries()) {
+        process.stderr.write(`  ${index + 1}) ${item.label}\n`);
+      }
+
+      const answer = await question(`Enter a number (1-${candidates.length}) or text to filter: `);
+      if (answer === null) {
+        throw new ExtensionError("Selection cancelled");
+      }
+
+      const trimmed = answer.trim();
+      const number = Number(trimmed);
+      if (trimmed && Number.isInteger(number) && number >= 1 && number <= candidates.length) {
+        return candidates[number - 1].value;
+      }
+
+      const filtered = rankItems(options.items, trimmed).map(({ item }) => item);
+      if (filtered.length === 0) {
+        process.stderr.write(`No items match "${trimmed}"\n`);
+        candidates = options.items;
+      } else if (filtered.length === 1) {
+        return filtered[0].value;
+      } else {
+        candidates = filtered;
+      }
+    }
+  } finally {
+    rl.close();
+  }
+}
@@ -16,12 +16,14 @@ import {
 } from "../devices/types";
 import type { SimulatorsManager } from "../simulators/manager";
 import type { CliRuntimeContext } from "./context";
-import { fzfPick } from "./fzf";
+import { type CliPickerMode, fzfPick } from "./fzf";
 
 export async function pickScheme(options: {
   xcworkspace: string;
   prompt?: string;
   useWorkspaceParser?: boolean;
+  interactive?: boolean;
+  picker?: CliPickerMode;
 }): Promise<string> {
   const schemes = await getSchemes({
     xcworkspace: options.xcworkspace,
@@ -36,6 +38,9 @@ export async function pickScheme(options: {
 
   return await fzfPick({
     prompt: options.prompt ?? "Select scheme",
+    interactive: options.interactive,
+    picker: options.picker,
+    hint: "--scheme <name> or SWEETPAD_SCHEME",
     items: schemes.map((scheme) => ({
       label: scheme.name,
       value: scheme.name,
@@ -46,6 +51,8 @@ export async function pickScheme(options: {
 export async function pickConfiguration(options: {
   xcworkspace: string;
   useWorkspaceParser?: boolean;
+  interactive?: boolean;
+  picker?: CliPickerMode;
 }): Promise<string> {
   const configurations = await getBuildConfigurations({
     xcworkspace: options.xcworkspace,
@@ -70,6 +77,9 @@ export async function pickConfiguration(options: {
 
   return await fzfPick({
     prompt: "Select configuration",
+    interactive: options.interactive,
+    picker: options.picker,
+    hint: "--configuration <name> or SWEETPAD_BUILD_CONFIGURATION",
     items: configurations.map((configuration) => ({
       label: configuration.name,
       value: configuration.name,
@@ -77,7 +87,11 @@ export async function pickConfiguration(options: {
   });
 }
 
-export async function pickXcodeWorkspacePath(options: { workspacePath: string }): Promise<string> {
+export async function pickXcodeWorkspacePath(options: {
+  workspacePath: string;
+  interactive?: boolean;
+  picker?: CliPickerMode;
+}): Promise<string> {
   const paths = await detectXcodeWorkspacesPaths(options.workspacePath);
   if (paths.length === 0) {
     throw new ExtensionError("No xcode workspaces found", { context: { cwd: options.workspacePath } });
@@ -88,6 +102,9 @@ export async function pickXcodeWorkspacePath(options: { workspacePath: string })
 
   const selected = await fzfPick({
     prompt: "Select xcode workspace",
+    interactive: options.interactive,
+    picker: options.picker,
+    hint: "--xcworkspace <path> or SWEETPAD_BUILD_XCODEWORKSPACEPATH",
     items: paths
       .sort((a, b) => a.split(path.sep).length - b.split(path.sep).length)
       .map((xcPath) => ({
@@ -101,6 +118,8 @@ export async function pickXcodeWorkspacePath(options: { workspacePath: string })
 export async function listDestinations(options: {
   simulatorsManager: SimulatorsManager;
   storagePath: string;
+  // The long-running server keeps the simulators cached between requests
+  refresh?: boolean;
 }): Promise<Destination[]> {
   const destinations: Destination[] = [];
 
@@ -112,7 +131,7 @@ export async function listDestinations(options: {
     }),
   );
 
-  const simulators = await options.simulatorsManager.getSimulators({ refresh: true });
+  const simulators = await options.simulatorsManager.getSimulators({ refresh: options.refresh ?? true });
   destinations.push(...simulators);
 
   const deviceOutput = await listDevicesInDirectory(options.storagePath);
@@ -140,6 +159,31 @@ export async function listDestinations(options: {
   return destinations;
 }
 
+export function formatDestinationCandidate(destination: Destination): string {
+  const id = "udid" in destination ? destination.udid : destination.id;
+  return `  - ${destination.label} (id: ${id})`;
+}
+
+export function matchDestinationId(destination: Destination, id: string): boolean {
+  const normalized = id.trim().toLowerCase();
+  if ("udid" in destination) {
+    return destination.udid.toLowerCase() === normalized || destination.id.toLowerCase() === normalized;
+  }
+  return destination.id.toLowerCase() === normalized;
+}
+
+export function matchDestinationName(destination: Destination, name: string): boolean {
+  const normalized = name.trim().toLowerCase();
+  if (!normalized) {
+    return false;
+  }
+  const label = destination.label.toLowerCase();
+  const destName = "name" in destination ? destination.name.toLowerCase() : label;
+  return (
+    label.includes(normalized) || destName.includes(normalized) || destination.id.toLowerCase().includes(normalized)
+  );
+}
+
 export async function pickDestination(options: {
   simulatorsManager: SimulatorsManager;
   storagePath: string;
@@ -148,6 +192,8 @@ export async function pickDestination(options: {
   sdk: string | undefined;
   xcworkspace: string;
   derivedDataPath?: string | null;
+  interactive?: boolean;
+  picker?: CliPickerMode;
 }): Promise<Destination> {
   const buildSettings = await getBuildSettingsToAskDestination({
     scheme: options.scheme,
@@ -175,20 +221,25 @@ export async function pickDestination(options: {
     ...supported.map((destination) => ({
       label: formatDestinationLabel(destination),
       value: destination,
+      detail: `id: ${getDestinationIdForFlag(destination)}`,
     })),
     ...unsupported.map((destination) => ({
       label: `${formatDestinationLabel(destination)} [unsupported]`,
       value: destination,
+      detail: `id: ${getDestinationIdForFlag(destination)}`,
     })),
   ];
 
   return await fzfPick({
     prompt: "Select destination",
     items,
+    interactive: options.interactive,
+    picker: options.picker,
+    hint: "--destination-id <id> (SWEETPAD_DESTINATION_ID) or --destination <name> (SWEETPAD_DESTINATION)",
   });
 }
 
-async function detectXcodeWorkspacesPaths(workspacePath: string): Promise<string[]> {
+export async function detectXcodeWorkspacesPaths(workspacePath: string): Promise<string[]> {
   return await findFilesRecursive({
     directory: workspacePath,
     depth: 4,
@@ -198,6 +249,10 @@ async function detectXcodeWorkspacesPaths(workspacePath: string): Promise<string
   });
 }
 
+function getDestinationIdForFlag(destination: Destination): string {
+  return "udid" in destination ? destination.udid : destination.id;
+}
+
 function formatDestinationLabel(destination: Destination): string {
   const detail = destination.quickPickDetails ? ` - ${destination.quickPickDetails}` : "";
   return `${destination.label}${detail}`;
@@ -228,6 +283,8 @@ export async function pickSchemeSmart(options: {
     xcworkspace: options.xcworkspace,
     prompt: options.prompt,
     useWorkspaceParser: options.useWorkspaceParser,
+    interactive: options.context.isInteractive,
+    picker: options.context.picker,
   });
   options.context.setRememberedValue("cli.scheme", selected);
   return selected;
@@ -269,6 +326,8 @@ export async function pickConfigurationSmart(options: {
   const selected = await pickConfiguration({
     xcworkspace: options.xcworkspace,
     useWorkspaceParser: options.useWorkspaceParser,
+    interactive: options.context.isInteractive,
+    picker: options.context.picker,
   });
   options.context.setRememberedValue("cli.configuration", selected);
   return selected;
@@ -292,7 +351,11 @@ export async function pickXcodeWorkspacePathSmart(options: {
     return paths[0];
   }
 
-  const selected = await pickXcodeWorkspacePath({ workspacePath: options.workspacePath });
+  const selected = await pickXcodeWorkspacePath({
+    workspacePath: options.workspacePath,
+    interactive: options.context.isInteractive,
+    picker: options.context.picker,
+  });
   options.context.setRememberedValue("cli.xcworkspace", selected);
   return selected;
 }
@@ -353,6 +416,8 @@ export async function pickDestinationSmart(options: {
     sdk: options.sdk,
     xcworkspace: options.xcworkspace,
     derivedDataPath: options.derivedDataPath,
+    interactive: options.context.isInteractive,
+    picker: options.context.picker,
   });
   options.context.setRememberedValue("cli.destination.id", selected.id);
   return selected;
@@ -0,0 +1,43 @@
+import { getProfileConfigOverrides, resolveProfile } from "./profiles";
+
+describe("resolve CLI profiles", () => {
+  const profiles = {
+    base: {
+      scheme: "MyApp",
+      launchArgs: ["-a"],
+      launchEnv: { API_URL: "https://example.com", LOG_LEVEL: "debug" },
+      "build.args": ["-quiet"],
+    },
+    staging: {
+      extends: "base",
+      configuration: "Staging",
+      launchEnv: { API_URL: "https://staging.example.com" },
+    },
+    prod: {
+      extends: "staging",
+      configuration: "Release",
+      launchArgs: ["-b"],
+    },
+  };
+
+  it("should merge parent profiles", () => {
+    const profile = resolveProfile(profiles, "prod");
+    expect(profile.scheme).toBe("MyApp");
+    expect(profile.configuration).toBe("Release");
+    expect(profile.launchArgs).toEqual(["-b"]);
+    expect(profile.launchEnv).toEqual({ API_URL: "https://staging.example.com", LOG_LEVEL: "debug" });
+    expect(profile.extends).toBeUndefined();
+    expect(getProfileConfigOverrides(profile)).toEqual({ "build.args": ["-quiet"] });
+  });
+
+  it("should fail on unknown profile", () => {
+    expect(() => resolveProfile(profiles, "dev")).toThrow('Profile "dev" not found');
+    expect(() => resolveProfile({ a: { extends: "b" } }, "a")).toThrow('Profile "a" extends unknown profile "b"');
+  });
+
+  it("should fail on circular inheritance", () => {
+    expect(() => resolveProfile({ a: { extends: "b" }, b: { extends: "a" } }, "a")).toThrow(
+      "Circular profile inheritance: a -> b -> a",
+    );
+  });
+});
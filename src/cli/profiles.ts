@@ -0,0 +1,124 @@
+import path from "node:path";
+import { ExtensionError } from "../common/errors";
+import { isFileExists, readJsonFile } from "../common/files";
+import { formatTable } from "./list";
+
+const PROFILES_FILE = path.join(".sweetpad", "profiles.json");
+
+/**
+ * Named set of CLI options stored in ".sweetpad/profiles.json":
+ * {
+ *   "staging": { "scheme": "MyApp", "launchEnv": { "API_URL": "https://staging.example.com" } },
+ *   "prod": { "extends": "staging", "configuration": "Release", "build.args": ["-quiet"] }
+ * }
+ *
+ * Keys with a dot ("build.args", "build.env", ...) override the same "sweetpad.*" settings
+ */
+export type CliProfile = {
+  extends?: string;
+  xcworkspace?: string;
+  scheme?: string;
+  configuration?: string;
+  destination?: string;
+  destinationId?: string;
+  sdk?: string;
+  arch?: string;
+  launchArgs?: string[];
+  launchEnv?: Record<string, string>;
+  [configKey: `${string}.${string}`]: unknown;
+};
+
+type CliProfiles = Record<string, CliProfile>;
+
+export async function loadProfiles(workspacePath: string): Promise<CliProfiles> {
+  const profilesPath = path.join(workspacePath, PROFILES_FILE);
+  if (!(await isFileExists(profilesPath))) {
+    return {};
+  }
+
+  let profiles: unknown;
+  try {
+    profiles = await readJsonFile(profilesPath);
+  } catch (error) {
+    throw new ExtensionError(`Failed to parse ${PROFILES_FILE}`, { context: { error: String(error) } });
+  }
+  if (!profiles || typeof profiles !== "object" || Array.isArray(profiles)) {
+    throw new ExtensionError(`${PROFILES_FILE} must contain an object with profiles`);
+  }
+  return profiles as CliProfiles;
+}
+
+/**
+ * Resolve the profile with all its parents. The child values win, objects like "launchEnv" are merged
+ * key by key, arrays are replaced.
+ */
+export function resolveProfile(profiles: CliProfiles, name: string): CliProfile {
+  const chain: string[] = [];
+  let currentName: string | undefined = name;
+  while (currentName) {
+    if (chain.includes(currentName)) {
+      throw new ExtensionError(`Circular profile inheritance: ${[...chain, currentName].join(" -> ")}`);
+    }
+    const profile: CliProfile | undefined = profiles[currentName];
+    if (!profile) {
+      const available = Object.keys(profiles);
+      throw new ExtensionError(
+        chain.length === 0
+          ? `Profile "${currentName}" not found. Available profiles: ${available.join(", ") || "none"}`
+          : `Profile "${chain[chain.length - 1]}" extends unknown profile "${currentName}"`,
+      );
+    }
+    chain.push(currentName);
+    currentName = profile.extends;
+  }
+
+  // From the root parent to the requested profile
+  const resolved: Record<string, unknown> = {};
+  for (const profileName of chain.reverse()) {
+    for (const [key, value] of Object.entries(profiles[profileName])) {
+      const previous = resolved[key];
+      resolved[key] = isPlainObject(previous) && isPlainObject(value) ? { ...previous, ...value } : value;
+    }
+  }
+  resolved.extends = undefined;
+  return resolved as CliProfile;
+}
+
+/**
+ * Config keys ("build.args", "build.env", ...) defined in the profile
+ */
+export function getProfileConfigOverrides(profile: CliProfile): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(profile).filter(([key]) => key.includes(".")));
+}
+
+export async function printProfiles(options: { workspacePath: string; json: boolean }): Promise<void> {
+  const profiles = await loadProfiles(options.workspacePath);
+  const names = Object.keys(profiles);
+
+  if (options.json) {
+    const resolved = Object.fromEntries(names.map((name) => [name, resolveProfile(profiles, name)]));
+    process.stdout.write(`${JSON.stringify(resolved, null, 2)}\n`);
+    return;
+  }
+
+  if (names.length === 0) {
+    process.stdout.write(`No profiles found in ${PROFILES_FILE}\n`);
+    return;
+  }
+
+  const rows = names.map((name) => {
+    const profile = resolveProfile(profiles, name);
+    return {
+      name: name,
+      extends: profiles[name].extends ?? null,
+      scheme: profile.scheme ?? null,
+      configuration: profile.configuration ?? null,
+      destination: profile.destination ?? profile.destinationId ?? null,
+    };
+  });
+  process.stdout.write(formatTable(rows));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
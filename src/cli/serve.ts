@@ -0,0 +1,450 @@
+import path from "node:path";
+import { type CancellationToken, ErrorCodes, type MessageConnection, ResponseError } from "vscode-jsonrpc/node";
+import { getXcodeBuildDestinationString } from "../build/runner";
+import { getBuildConfigurations, getSchemes } from "../common/cli/scripts";
+import { ExtensionError } from "../common/errors";
+import type { Destination } from "../destination/types";
+import { SimulatorsManager } from "../simulators/manager";
+import { type CliBuildCommand, type CliBuildTarget, type CliTestMode, runBuildCommand } from "./commands";
+import { getCliConfig, loadCliConfig } from "./config";
+import { CliRuntimeContext } from "./context";
+import { fzfPick } from "./fzf";
+import { createStdioConnection, handleRequest } from "./jsonrpc";
+import { describeDestination } from "./list";
+import { CliReporter } from "./output";
+import { detectXcodeWorkspacesPaths, listDestinations, matchDestinationId, matchDestinationName } from "./pickers";
+import { CliTaskTerminal } from "./terminal";
+
+// Only the tail of the output is kept for "sweetpad/logs", the full log is streamed with notifications
+const MAX_TASK_LOG_LINES = 5000;
+const MAX_FINISHED_TASKS = 20;
+
+// Application-specific error codes, outside of the range reserved by JSON-RPC
+const TASK_FAILED_ERROR_CODE = 1;
+const TASK_CANCELLED_ERROR_CODE = 2;
+
+type ProjectParams = {
+  xcworkspace?: string;
+  // Skip the cached schemes, configurations and simulators
+  refresh?: boolean;
+};
+
+type BuildParams = ProjectParams & {
+  // Optional id chosen by the client, so it can match the notifications before the response comes
+  taskId?: string;
+  scheme?: string;
+  configuration?: string;
+  destinationId?: string;
+  destination?: string;
+  sdk?: string;
+  arch?: string;
+  debug?: boolean;
+  launchArgs?: string[];
+  launchEnv?: Record<string, string>;
+  testMode?: CliTestMode;
+  onlyTesting?: string[];
+  skipTesting?: string[];
+};
+
+type TaskStatus = "running" | "succeeded" | "failed" | "cancelled";
+
+type ServerTask = {
+  id: string;
+  command: CliBuildCommand;
+  status: TaskStatus;
+  terminal: CliTaskTerminal;
+  logs: string[];
+  finished: Promise<void>;
+};
+
+type TaskResult = {
+  taskId: string;
+  status: TaskStatus;
+  artifact: string | null;
+  pid: number | null;
+};
+
+/**
+ * Long-running JSON-RPC server for editors other than VS Code (Neovim, Zed, etc.). It exposes the
+ * same building blocks as the CLI commands, but keeps the project info and the simulators cached
+ * between requests. Progress and the build output are sent as notifications.
+ */
+class SweetpadServer {
+  private connection: MessageConnection;
+  private simulatorsManager = new SimulatorsManager();
+  // xcodebuild takes seconds to list schemes and configurations, so they are cached per workspace
+  private projectCache = new Map<string, string[]>();
+  private tasks = new Map<string, ServerTask>();
+  private taskCounter = 0;
+
+  constructor(
+    private workspacePath: string,
+    private storagePath: string,
+  ) {
+    this.connection = createStdioConnection();
+  }
+
+  async listen(): Promise<void> {
+    const connection = this.connection;
+
+    handleRequest(connection, "sweetpad/listWorkspaces", async () => {
+      const paths = await detectXcodeWorkspacesPaths(this.workspacePath);
+      return paths.map((xcPath) => ({ name: path.relative(this.workspacePath, xcPath), path: xcPath }));
+    });
+    handleRequest(connection, "sweetpad/listSchemes", async (params: ProjectParams) => {
+      const config = await loadCliConfig(this.workspacePath);
+      return await this.getSchemes(await this.resolveXcworkspace(params, config), params, config);
+    });
+    handleRequest(connection, "sweetpad/listConfigurations", async (params: ProjectParams) => {
+      const config = await loadCliConfig(this.workspacePath);
+      return await this.getConfigurations(await this.resolveXcworkspace(params, config), params, config);
+    });
+    handleRequest(connection, "sweetpad/listDestinations", async (params: ProjectParams) => {
+      const destinations = await this.getDestinations(params);
+      return destinations.map((destination) => describeDestination(destination));
+    });
+    for (const command of ["build", "run", "launch", "clean", "test"] as const) {
+      handleRequest(connection, `sweetpad/${command}`, (params: BuildParams | null, token) =>
+        this.runTask(command, params, token),
+      );
+    }
+    handleRequest(connection, "sweetpad/cancel", async (params: { taskId?: string }) => {
+      const cancelled: string[] = [];
+      for (const task of this.tasks.values()) {
+        if (task.status === "running" && (!params?.taskId || task.id === params.taskId)) {
+          this.cancelTask(task);
+          cancelled.push(task.id);
+        }
+      }
+      return { cancelled };
+    });
+    handleRequest(connection, "sweetpad/logs", async (params: { taskId: string; offset?: number }) => {
+      const task = this.tasks.get(params?.taskId);
+      if (!task) {
+        throw new ResponseError(ErrorCodes.InvalidParams, `Unknown task: ${params?.taskId}`);
+      }
+      return { taskId: task.id, status: task.status, lines: task.logs.slice(params.offset ?? 0) };
+    });
+
+    const closed = new Promise<void>((resolve) => {
+      connection.onClose(() => resolve());
+      connection.onRequest("shutdown", () => {
+        setImmediate(() => connection.dispose());
+        resolve();
+        return null;
+      });
+    });
+
+    connection.listen();
+    await closed;
+
+    for (const task of this.tasks.values()) {
+      if (task.status === "running") {
+        this.cancelTask(task);
+      }
+    }
+    // The reader keeps stdin open, so the process would never exit
+    process.stdin.destroy();
+  }
+
+  private async runTask(
+    command: CliBuildCommand,
+    rawParams: BuildParams | null,
+    token: CancellationToken,
+  ): Promise<TaskResult> {
+    const params = rawParams ?? {};
+    // The logs and the cancellation are looked up by the id, so it must stay unique
+    if (params.taskId !== undefined && this.tasks.has(params.taskId)) {
+      throw new ResponseError(ErrorCodes.InvalidParams, `Task ${params.taskId} already exists`, {
+        taskId: params.taskId,
+      });
+    }
+
+    // xcodebuild can't build the same project twice at the same time, so the new task replaces the
+    // running one, the same way as the build tasks in the extension do
+    for (const running of this.tasks.values()) {
+      if (running.status === "running") {
+        this.cancelTask(running);
+        await running.finished;
+      }
+    }
+    this.pruneTasks();
+
+    let taskId = params.taskId;
+    while (taskId === undefined || this.tasks.has(taskId)) {
+      this.taskCounter++;
+      taskId = `task-${this.taskCounter}`;
+    }
+    const result: TaskResult = { taskId, status: "running", artifact: null, pid: null };
+
+    const reporter = new CliReporter("json", (event) => {
+      if (event.type === "phase") {
+        this.connection.sendNotification("sweetpad/progress", {
+          taskId,
+          name: event.name,
+          status: event.status,
+          durationMs: event.durationMs ?? null,
+        });
+        return;
+      }
+      if (event.type === "output") {
+        task.logs.push(event.line);
+        if (task.logs.length > MAX_TASK_LOG_LINES) {
+          task.logs.splice(0, task.logs.length - MAX_TASK_LOG_LINES);
+        }
+      } else if (event.type === "artifact") {
+        result.artifact = event.path;
+      } else if (event.type === "launched") {
+        result.pid = event.pid;
+      }
+      this.connection.sendNotification("sweetpad/event", { taskId, event });
+    });
+    const terminal = new CliTaskTerminal({ workspacePath: this.workspacePath, reporter, detached: true });
+    let finish = () => {};
+    const finished = new Promise<void>((resolve) => {
+      finish = resolve;
+    });
+    const task: ServerTask = { id: taskId, command, status: "running", terminal, logs: [], finished };
+    this.tasks.set(taskId, task);
+    const cancellation = token.onCancellationRequested(() => this.cancelTask(task));
+
+    try {
+      const config = await loadCliConfig(this.workspacePath);
+      const runtime = await CliRuntimeContext.create({
+        workspacePath: this.workspacePath,
+        config,
+        simulatorsManager: this.simulatorsManager,
+        reporter,
+        interactive: false,
+        useRememberedState: false,
+      });
+      if (params.arch) {
+        runtime.pinConfig("build.arch", params.arch);
+      }
+
+      const target = await this.resolveTarget(params, config, runtime);
+      reporter.emit({
+        type: "resolved",
+        xcworkspace: target.xcworkspace,
+        scheme: target.scheme,
+        configuration: target.configuration,
+        sdk: target.sdk,
+        destinationRaw: target.destinationRaw,
+        destination: {
+          id: target.destination.id,
+          type: target.destination.type,
+          name: target.destination.name,
+          udid: "udid" in target.destination ? target.destination.udid : null,
+        },
+      });
+
+      await runBuildCommand({
+        command,
+        runtime,
+        reporter,
+        terminal,
+        target,
+        debug: params.debug ?? false,
+        launchArgs: params.launchArgs ?? runtime.getConfigOrDefault<string[]>("build.launchArgs", []),
+        launchEnv: params.launchEnv ?? runtime.getConfigOrDefault<Record<string, string>>("build.launchEnv", {}),
+        testMode: params.testMode,
+        onlyTesting: params.onlyTesting,
+        skipTesting: params.skipTesting,
+      });
+      reporter.finishPhase();
+      task.status = "succeeded";
+      return { ...result, status: task.status };
+    } catch (error) {
+      reporter.finishPhase();
+      const message = error instanceof Error ? error.message : String(error);
+      if (task.status === "cancelled") {
+        throw new ResponseError(TASK_CANCELLED_ERROR_CODE, `Task ${taskId} was cancelled`, { taskId });
+      }
+      task.status = "failed";
+      throw new ResponseError(TASK_FAILED_ERROR_CODE, message, { taskId });
+    } finally {
+      cancellation.dispose();
+      finish();
+    }
+  }
+
+  /**
+   * Keep only the latest finished tasks, so their logs are still available
+   */
+  private pruneTasks(): void {
+    const finished = [...this.tasks.values()].filter((task) => task.status !== "running");
+    for (const task of finished.slice(0, Math.max(finished.length - MAX_FINISHED_TASKS, 0))) {
+      this.tasks.delete(task.id);
+    }
+  }
+
+  private cancelTask(task: ServerTask): void {
+    if (task.status !== "running") {
+      return;
+    }
+    task.status = "cancelled";
+    task.terminal.terminate();
+  }
+
+  private async resolveTarget(
+    params: BuildParams,
+    config: Record<string, unknown>,
+    runtime: CliRuntimeContext,
+  ): Promise<CliBuildTarget> {
+    runtime.updateProgressStatus("Resolving build target");
+    const xcworkspace = await this.resolveXcworkspace(params, config);
+
+    const scheme =
+      params.scheme ??
+      (await fzfPick({
+        prompt: "Select scheme",
+        interactive: false,
+        hint: 'the "scheme" parameter',
+        items: (await this.getSchemes(xcworkspace, params, config)).map((name) => ({ label: name, value: name })),
+      }));
+
+    const configuration =
+      params.configuration ??
+      getCliConfig<string>(config, "build.configuration") ??
+      (await this.resolveConfiguration(xcworkspace, params, config));
+
+    const destination = await this.resolveDestination(params);
+    runtime.configScope = { scheme, configuration, destinationType: destination.type };
+    const derivedDataPath = getCliConfig<string>(config, "build.derivedDataPath");
+
+    return {
+      xcworkspace,
+      scheme,
+      configuration,
+      sdk: params.sdk ?? destination.platform,
+      destination,
+      destinationRaw: getXcodeBuildDestinationString(runtime, { destination }),
+      derivedDataPath: derivedDataPath ? path.resolve(this.workspacePath, derivedDataPath) : null,
+    };
+  }
+
+  private async resolveXcworkspace(params: ProjectParams, config: Record<string, unknown>): Promise<string> {
+    const rawPath = params?.xcworkspace ?? getCliConfig<string>(config, "build.xcodeWorkspacePath");
+    if (rawPath) {
+      return path.resolve(this.workspacePath, rawPath);
+    }
+
+    const paths = await detectXcodeWorkspacesPaths(this.workspacePath);
+    if (paths.length === 0) {
+      throw new ExtensionError("No xcode workspaces found", { context: { cwd: this.workspacePath } });
+    }
+    return await fzfPick({
+      prompt: "Select Xcode workspace",
+      interactive: false,
+      hint: 'the "xcworkspace" parameter',
+      items: paths.map((xcPath) => ({ label: path.relative(this.workspacePath, xcPath), value: xcPath })),
+    });
+  }
+
+  private async resolveConfiguration(
+    xcworkspace: string,
+    params: ProjectParams,
+    config: Record<string, unknown>,
+  ): Promise<string> {
+    const configurations = await this.getConfigurations(xcworkspace, params, config);
+    // Same defaults as the CLI pickers: "Debug" for the standard Debug/Release pair
+    if (configurations.length === 0) {
+      return "Debug";
+    }
+    if (configurations.length === 2 && configurations.includes("Debug") && configurations.includes("Release")) {
+      return "Debug";
+    }
+    return await fzfPick({
+      prompt: "Select configuration",
+      interactive: false,
+      hint: 'the "configuration" parameter',
+      items: configurations.map((name) => ({ label: name, value: name })),
+    });
+  }
+
+  private async resolveDestination(params: BuildParams): Promise<Destination> {
+    const destinations = await this.getDestinations(params);
+    const items = destinations.map((destination) => ({
+      label: destination.label,
+      value: destination,
+      detail: `id: ${"udid" in destination ? destination.udid : destination.id}`,
+    }));
+
+    const { destinationId, destination: destinationName } = params;
+    if (destinationId) {
+      const destination = destinations.find((item) => matchDestinationId(item, destinationId));
+      if (!destination) {
+        throw new ExtensionError(`Destination not found for id: ${destinationId}`);
+      }
+      return destination;
+    }
+
+    const matches = destinationName ? items.filter((item) => matchDestinationName(item.value, destinationName)) : items;
+    if (matches.length === 0) {
+      throw new ExtensionError(`Destination not found for name: ${destinationName}`);
+    }
+    return await fzfPick({
+      prompt: "Select destination",
+      interactive: false,
+      hint: 'the "destinationId" parameter',
+      items: matches,
+    });
+  }
+
+  private async getSchemes(
+    xcworkspace: string,
+    params: ProjectParams,
+    config: Record<string, unknown>,
+  ): Promise<string[]> {
+    return await this.cached(`schemes:${xcworkspace}`, params?.refresh, async () => {
+      const schemes = await getSchemes({
+        xcworkspace,
+        useWorkspaceParser: getCliConfig<boolean>(config, "system.customXcodeWorkspaceParser") ?? false,
+      });
+      return schemes.map((scheme) => scheme.name);
+    });
+  }
+
+  private async getConfigurations(
+    xcworkspace: string,
+    params: ProjectParams,
+    config: Record<string, unknown>,
+  ): Promise<string[]> {
+    return await this.cached(`configurations:${xcworkspace}`, params?.refresh, async () => {
+      const configurations = await getBuildConfigurations({
+        xcworkspace,
+        useWorkspaceParser: getCliConfig<boolean>(config, "system.customXcodeWorkspaceParser") ?? false,
+      });
+      return configurations.map((configuration) => configuration.name);
+    });
+  }
+
+  private async getDestinations(params: ProjectParams): Promise<Destination[]> {
+    return await listDestinations({
+      simulatorsManager: this.simulatorsManager,
+      storagePath: this.storagePath,
+      refresh: params?.refresh ?? false,
+    });
+  }
+
+  private async cached(key: string, refresh: boolean | undefined, query: () => Promise<string[]>): Promise<string[]> {
+    const cached = this.projectCache.get(key);
+    if (cached && !refresh) {
+      return cached;
+    }
+    const values = await query();
+    this.projectCache.set(key, values);
+    return values;
+  }
+}
+
+export async function runServer(options: {
+  workspacePath: string;
+  storagePath: string;
+  stdio: boolean;
+}): Promise<void> {
+  if (!options.stdio) {
+    throw new ExtensionError("Only the stdio transport is supported, use: sweetpad serve --stdio");
+  }
+  await new SweetpadServer(options.workspacePath, options.storagePath).listen();
+}
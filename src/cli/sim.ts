@@ -0,0 +1,228 @@
+import { ExtensionError } from "../common/errors";
+import { exec } from "../common/exec";
+import type { SimulatorsManager } from "../simulators/manager";
+import type { SimulatorDestination } from "../simulators/types";
+import type { CliRuntimeContext } from "./context";
+import { fzfPick } from "./fzf";
+import { type ListRow, formatTable } from "./list";
+import { formatDestinationCandidate, matchDestinationId, matchDestinationName } from "./pickers";
+
+const SIM_ACTIONS = [
+  "list",
+  "boot",
+  "shutdown",
+  "erase",
+  "open",
+  "install",
+  "uninstall",
+  "launch",
+  "terminate",
+] as const;
+
+type SimAction = (typeof SIM_ACTIONS)[number];
+
+// Result of the action printed as JSON with --json
+type SimActionResult = {
+  action: SimAction;
+  udid: string | null;
+  name: string | null;
+  message: string;
+  pid?: number;
+};
+
+function parseSimAction(raw: string | undefined): SimAction {
+  const action = SIM_ACTIONS.find((item) => item === (raw ?? "list"));
+  if (!action) {
+    throw new ExtensionError(`Unknown sim action: ${raw}. Supported actions: ${SIM_ACTIONS.join(", ")}`);
+  }
+  return action;
+}
+
+function describeSimulator(simulator: SimulatorDestination): ListRow {
+  return {
+    udid: simulator.udid,
+    name: simulator.name,
+    os: simulator.os,
+    osVersion: simulator.osVersion,
+    state: simulator.state,
+    available: simulator.isAvailable ? "yes" : "no",
+  };
+}
+
+/**
+ * Manage simulators without remembering "xcrun simctl" syntax:
+ * "sim list [query]", "sim boot <sim>", "sim install <sim> <app>", "sim launch <sim> <bundle id>", etc.
+ * The simulator is selected by UDID or by name, the same way as --destination does.
+ */
+export async function runSimCommand(options: {
+  args: string[];
+  json: boolean;
+  launchArgs: string[];
+  launchEnv: Record<string, string>;
+  simulatorsManager: SimulatorsManager;
+  runtime: CliRuntimeContext;
+}): Promise<void> {
+  const [rawAction, query, ...args] = options.args;
+  const action = parseSimAction(rawAction);
+
+  if (action === "list") {
+    const simulators = await options.simulatorsManager.getSimulators({ refresh: true });
+    const rows = simulators
+      .filter((simulator) => !query || matchDestinationId(simulator, query) || matchDestinationName(simulator, query))
+      .map((simulator) => describeSimulator(simulator));
+    process.stdout.write(options.json ? `${JSON.stringify(rows, null, 2)}\n` : formatTable(rows));
+    return;
+  }
+
+  const result = await runSimAction({ ...options, action, query, args });
+  if (options.json) {
+    process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+  } else {
+    process.stdout.write(`SweetPad: ${result.message}\n`);
+  }
+}
+
+async function runSimAction(options: {
+  action: Exclude<SimAction, "list">;
+  query: string | undefined;
+  args: string[];
+  launchArgs: string[];
+  launchEnv: Record<string, string>;
+  simulatorsManager: SimulatorsManager;
+  runtime: CliRuntimeContext;
+}): Promise<SimActionResult> {
+  const { action } = options;
+
+  // "simctl shutdown all" and "simctl erase all" are useful to reset the machine between CI jobs
+  if ((action === "shutdown" || action === "erase") && options.query === "all") {
+    await simctl([action, "all"]);
+    return { action, udid: null, name: null, message: `${action === "erase" ? "Erased" : "Shut down"} all simulators` };
+  }
+
+  if (action === "open" && !options.query) {
+    await exec({ command: "open", args: ["-a", "Simulator"] });
+    return { action, udid: null, name: null, message: "Opened Simulator.app" };
+  }
+
+  const simulator = await resolveSimulator(options);
+  const base = { action, udid: simulator.udid, name: simulator.name };
+
+  switch (action) {
+    case "boot": {
+      if (simulator.isBooted) {
+        return { ...base, message: `"${simulator.label}" is already booted` };
+      }
+      await simctl(["boot", simulator.udid]);
+      return { ...base, message: `Booted "${simulator.label}"` };
+    }
+    case "shutdown": {
+      if (!simulator.isBooted) {
+        return { ...base, message: `"${simulator.label}" is already shut down` };
+      }
+      await simctl(["shutdown", simulator.udid]);
+      return { ...base, message: `Shut down "${simulator.label}"` };
+    }
+    case "erase": {
+      if (simulator.isBooted) {
+        throw new ExtensionError(`"${simulator.label}" is booted, shut it down before erasing`);
+      }
+      await simctl(["erase", simulator.udid]);
+      return { ...base, message: `Erased "${simulator.label}"` };
+    }
+    case "open": {
+      if (!simulator.isBooted) {
+        await simctl(["boot", simulator.udid]);
+      }
+      await exec({ command: "open", args: ["-a", "Simulator", "--args", "-CurrentDeviceUDID", simulator.udid] });
+      return { ...base, message: `Opened "${simulator.label}" in Simulator.app` };
+    }
+    case "install": {
+      const appPath = requireArg(options.args[0], "app path", "sim install <simulator> <path/to/App.app>");
+      await simctl(["install", simulator.udid, appPath]);
+      return { ...base, message: `Installed ${appPath} on "${simulator.label}"` };
+    }
+    case "uninstall": {
+      const bundleId = requireArg(options.args[0], "bundle id", "sim uninstall <simulator> <bundle id>");
+      await simctl(["uninstall", simulator.udid, bundleId]);
+      return { ...base, message: `Uninstalled ${bundleId} from "${simulator.label}"` };
+    }
+    case "launch": {
+      const bundleId = requireArg(options.args[0], "bundle id", "sim launch <simulator> <bundle id>");
+      // Same as "simctl launch": the child process gets the variables without the SIMCTL_CHILD_ prefix
+      const env = Object.fromEntries(
+        Object.entries(options.launchEnv).map(([key, value]) => [`SIMCTL_CHILD_${key}`, value]),
+      );
+      const output = await exec({
+        command: "xcrun",
+        args: ["simctl", "launch", "--terminate-running-process", simulator.udid, bundleId, ...options.launchArgs],
+        env,
+      });
+      // "com.example.app: 12345"
+      const pidMatch = output.trim().match(/: (\d+)$/);
+      const pid = pidMatch ? Number.parseInt(pidMatch[1], 10) : undefined;
+      return {
+        ...base,
+        pid,
+        message: `Launched ${bundleId} on "${simulator.label}"${pid ? ` (pid ${pid})` : ""}`,
+      };
+    }
+    case "terminate": {
+      const bundleId = requireArg(options.args[0], "bundle id", "sim terminate <simulator> <bundle id>");
+      await simctl(["terminate", simulator.udid, bundleId]);
+      return { ...base, message: `Terminated ${bundleId} on "${simulator.label}"` };
+    }
+  }
+}
+
+async function simctl(args: string[]): Promise<string> {
+  return await exec({ command: "xcrun", args: ["simctl", ...args] });
+}
+
+function requireArg(value: string | undefined, name: string, usage: string): string {
+  if (!value) {
+    throw new ExtensionError(`Missing ${name}. Usage: sweetpad ${usage}`);
+  }
+  return value;
+}
+
+/**
+ * Find the simulator by UDID first, then by the name or label substring. Several matches are
+ * resolved with the picker, or fail with the list of candidates in non-interactive mode.
+ */
+async function resolveSimulator(options: {
+  query: string | undefined;
+  simulatorsManager: SimulatorsManager;
+  runtime: CliRuntimeContext;
+}): Promise<SimulatorDestination> {
+  const simulators = await options.simulatorsManager.getSimulators({ refresh: true });
+  if (simulators.length === 0) {
+    throw new ExtensionError("No simulators found");
+  }
+
+  const query = options.query;
+  const byId = query ? simulators.find((simulator) => matchDestinationId(simulator, query)) : undefined;
+  if (byId) {
+    return byId;
+  }
+
+  const matches = query ? simulators.filter((simulator) => matchDestinationName(simulator, query)) : simulators;
+  if (matches.length === 0) {
+    throw new ExtensionError(
+      [`Simulator not found: ${query}. Available simulators:`, ...simulators.map(formatDestinationCandidate)].join(
+        "\n",
+      ),
+    );
+  }
+
+  return await fzfPick({
+    prompt: "Select simulator",
+    items: matches.map((simulator) => ({
+      label: simulator.label,
+      value: simulator,
+      detail: `id: ${simulator.udid}`,
+    })),
+    interactive: options.runtime.isInteractive,
+    picker: options.runtime.picker,
+    hint: "the simulator UDID",
+  });
+}
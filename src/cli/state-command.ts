@@ -0,0 +1,207 @@
+import path from "node:path";
+import { getBuildConfigurations, getSchemes } from "../common/cli/scripts";
+import { ExtensionError } from "../common/errors";
+import { isFileExists } from "../common/files";
+import type { SimulatorsManager } from "../simulators/manager";
+import type { CliRuntimeContext } from "./context";
+import { formatTable } from "./list";
+import { detectXcodeWorkspacesPaths, listDestinations } from "./pickers";
+import { type StateMap, loadState, removeRememberedValue, saveState, setRememberedValue } from "./state";
+
+// Short names accepted by "state set/forget" in addition to the full keys
+const STATE_KEYS: Record<string, string> = {
+  xcworkspace: "cli.xcworkspace",
+  scheme: "cli.scheme",
+  configuration: "cli.configuration",
+  destination: "cli.destination.id",
+  arch: "cli.arch",
+};
+
+type StateEntryStatus = "ok" | "stale" | "unknown";
+
+type StateEntry = {
+  key: string;
+  value: unknown;
+  status: StateEntryStatus;
+  reason: string | null;
+};
+
+export function normalizeStateKey(raw: string | undefined): string {
+  if (!raw) {
+    throw new ExtensionError(`Missing state key. Supported keys: ${Object.keys(STATE_KEYS).join(", ")}`);
+  }
+  const key = STATE_KEYS[raw] ?? raw;
+  if (!Object.values(STATE_KEYS).includes(key)) {
+    throw new ExtensionError(`Unknown state key: ${raw}. Supported keys: ${Object.keys(STATE_KEYS).join(", ")}`);
+  }
+  return key;
+}
+
+/**
+ * Inspect and edit the selections remembered in ".sweetpad/cli-state.json":
+ * "state show", "state set <key> <value>", "state forget <key>", "state reset"
+ */
+export async function runStateCommand(options: {
+  args: string[];
+  json: boolean;
+  workspacePath: string;
+  useWorkspaceParser: boolean;
+  simulatorsManager: SimulatorsManager;
+  runtime: CliRuntimeContext;
+}): Promise<void> {
+  const [action = "show", ...args] = options.args;
+  const storagePath = options.runtime.storagePath;
+  const state = await loadState(storagePath);
+
+  switch (action) {
+    case "show": {
+      const entries = await checkStateEntries({ ...options, state });
+      if (options.json) {
+        process.stdout.write(`${JSON.stringify(entries, null, 2)}\n`);
+        return;
+      }
+      if (entries.length === 0) {
+        process.stdout.write("No remembered selections\n");
+        return;
+      }
+      const rows = entries.map((entry) => ({
+        key: entry.key,
+        value: typeof entry.value === "string" ? entry.value : JSON.stringify(entry.value),
+        status: entry.status,
+        reason: entry.reason,
+      }));
+      process.stdout.write(formatTable(rows));
+      return;
+    }
+    case "set": {
+      const key = normalizeStateKey(args[0]);
+      const rawValue = args[1];
+      if (!rawValue) {
+        throw new ExtensionError(`Missing value for the "${args[0]}" state key`);
+      }
+      // Workspace paths are always stored as absolute paths, the same way as pickers do
+      const value =
+        key === "cli.xcworkspace" && !path.isAbsolute(rawValue) ? path.join(options.workspacePath, rawValue) : rawValue;
+      await saveState(storagePath, setRememberedValue(state, key, value));
+      process.stdout.write(`SweetPad: ${key} = ${value}\n`);
+      return;
+    }
+    case "forget": {
+      const key = normalizeStateKey(args[0]);
+      await saveState(storagePath, removeRememberedValue(state, key));
+      process.stdout.write(`SweetPad: ${key} forgotten\n`);
+      return;
+    }
+    case "reset": {
+      await saveState(storagePath, {});
+      process.stdout.write("SweetPad: all remembered selections are forgotten\n");
+      return;
+    }
+    default:
+      throw new ExtensionError(`Unknown state action: ${action}. Supported actions: show, set, forget, reset`);
+  }
+}
+
+/**
+ * Check that every remembered value still matches the project, ex. the scheme was not renamed
+ * and the simulator was not deleted
+ */
+async function checkStateEntries(options: {
+  state: StateMap;
+  workspacePath: string;
+  useWorkspaceParser: boolean;
+  simulatorsManager: SimulatorsManager;
+  runtime: CliRuntimeContext;
+}): Promise<StateEntry[]> {
+  const { state } = options;
+
+  const xcworkspace = await resolveStateXcworkspace(options);
+  const entries: StateEntry[] = [];
+  for (const [key, value] of Object.entries(state)) {
+    try {
+      const reason = await checkStateValue({ ...options, key, value, xcworkspace });
+      if (reason === undefined) {
+        entries.push({ key, value, status: "unknown", reason: null });
+      } else if (reason === null) {
+        entries.push({ key, value, status: "ok", reason: null });
+      } else {
+        entries.push({ key, value, status: "stale", reason });
+      }
+    } catch (error) {
+      entries.push({ key, value, status: "unknown", reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Returns null when the value is valid, the reason when it's stale and undefined when it can't be checked
+ */
+async function checkStateValue(options: {
+  key: string;
+  value: unknown;
+  xcworkspace: string | null;
+  useWorkspaceParser: boolean;
+  simulatorsManager: SimulatorsManager;
+  runtime: CliRuntimeContext;
+}): Promise<string | null | undefined> {
+  const { key, value, xcworkspace } = options;
+  if (typeof value !== "string") {
+    return "not a string";
+  }
+
+  switch (key) {
+    case "cli.xcworkspace": {
+      return (await isFileExists(value)) ? null : "workspace not found";
+    }
+    case "cli.scheme": {
+      if (!xcworkspace) {
+        return undefined;
+      }
+      const schemes = await getSchemes({ xcworkspace, useWorkspaceParser: options.useWorkspaceParser });
+      return schemes.some((scheme) => scheme.name === value) ? null : "scheme not found";
+    }
+    case "cli.configuration": {
+      if (!xcworkspace) {
+        return undefined;
+      }
+      const configurations = await getBuildConfigurations({
+        xcworkspace,
+        useWorkspaceParser: options.useWorkspaceParser,
+      });
+      return configurations.some((configuration) => configuration.name === value) ? null : "configuration not found";
+    }
+    case "cli.destination.id": {
+      const destinations = await listDestinations({
+        simulatorsManager: options.simulatorsManager,
+        storagePath: options.runtime.storagePath,
+      });
+      const isFound = destinations.some((destination) =>
+        "udid" in destination ? destination.udid === value || destination.id === value : destination.id === value,
+      );
+      return isFound ? null : "destination not found";
+    }
+    case "cli.arch": {
+      return value === "arm64" || value === "x86_64" ? null : "unsupported architecture";
+    }
+    default:
+      return undefined;
+  }
+}
+
+async function resolveStateXcworkspace(options: {
+  state: StateMap;
+  workspacePath: string;
+  runtime: CliRuntimeContext;
+}): Promise<string | null> {
+  const rawPath =
+    options.runtime.getConfig<string>("build.xcodeWorkspacePath") ??
+    (options.state["cli.xcworkspace"] as string | undefined);
+  if (rawPath) {
+    const xcworkspace = path.isAbsolute(rawPath) ? rawPath : path.join(options.workspacePath, rawPath);
+    return (await isFileExists(xcworkspace)) ? xcworkspace : null;
+  }
+
+  const paths = await detectXcodeWorkspacesPaths(options.workspacePath);
+  return paths.length === 1 ? paths[0] : null;
+}
@@ -1,7 +1,10 @@
-import { spawn } from "node:child_process";
+import { type ChildProcess, spawn } from "node:child_process";
+import fs from "node:fs";
 import { quote } from "shell-quote";
+import { ExtensionError } from "../common/errors";
 import { prepareEnvVars } from "../common/helpers";
-import type { CommandOptions, TaskTerminal } from "../common/tasks";
+import type { CommandOptions, OutputFormatter, TaskTerminal } from "../common/tasks";
+import { type CliReporter, parseDiagnosticLine } from "./output";
 
 type TerminalTextColor = "green" | "red" | "blue" | "yellow" | "magenta" | "cyan" | "white";
 type TerminalWriteOptions = {
@@ -51,7 +54,40 @@ class LineBuffer {
 }
 
 export class CliTaskTerminal implements TaskTerminal {
-  constructor(private workspacePath: string) {}
+  private workspacePath: string;
+  private reporter: CliReporter;
+  private detached: boolean;
+  private processes = new Set<ChildProcess>();
+  private isTerminated = false;
+
+  constructor(options: { workspacePath: string; reporter: CliReporter; detached?: boolean }) {
+    this.workspacePath = options.workspacePath;
+    this.reporter = options.reporter;
+    // Detached commands get their own process group, so "terminate" can stop the whole tree
+    // (ex. xcodebuild with the xcbeautify pipe)
+    this.detached = options.detached ?? false;
+  }
+
+  /**
+   * Stop all running commands and reject all the following ones
+   */
+  terminate(): void {
+    this.isTerminated = true;
+    for (const processHandle of this.processes) {
+      if (processHandle.pid === undefined) {
+        continue;
+      }
+      try {
+        if (this.detached) {
+          process.kill(-processHandle.pid, "SIGTERM");
+        } else {
+          processHandle.kill("SIGTERM");
+        }
+      } catch (error) {
+        // The process has already exited
+      }
+    }
+  }
 
   private command(command: string, args?: string[]): string {
     return quote([command, ...(args ?? [])]);
@@ -61,8 +97,9 @@ export class CliTaskTerminal implements TaskTerminal {
     const args = (options.args ?? []).filter((arg) => arg !== null) as string[];
     const mainCommand = quote([options.command, ...args]);
 
+    // "exec" replaces the shell with the command, so the reported PID is the command's one
     if (!options.pipes) {
-      return mainCommand;
+      return `exec ${mainCommand}`;
     }
 
     const commands = [mainCommand];
@@ -71,6 +108,14 @@ export class CliTaskTerminal implements TaskTerminal {
   }
 
   write(data: string, options?: TerminalWriteOptions): void {
+    if (this.reporter.isJson) {
+      const message = data.trimEnd();
+      if (message) {
+        this.reporter.emit({ type: "message", message: message });
+      }
+      return;
+    }
+
     const color = options?.color;
     let output = data;
     if (color) {
@@ -90,67 +135,123 @@ export class CliTaskTerminal implements TaskTerminal {
     });
   }
 
+  private emitOutputLine(line: string, stream: "stdout" | "stderr", formatter: OutputFormatter | undefined): void {
+    if (!this.reporter.isJson) {
+      const formatted = formatter?.formatLine(line);
+      if (formatted) {
+        this.writeLine(formatted.text, { color: formatted.color });
+      }
+      return;
+    }
+    this.reporter.emit({ type: "output", stream: stream, line: line });
+
+    // The formatter hides the repeated diagnostics, ex. the same warning for each architecture
+    const isHidden = formatter ? formatter.formatLine(line) === null : false;
+    const diagnostic = parseDiagnosticLine(line);
+    if (diagnostic && !isHidden) {
+      this.reporter.emit({ type: "diagnostic", ...diagnostic });
+    }
+  }
+
   async execute(options: CommandOptions): Promise<void> {
+    if (this.isTerminated) {
+      throw new ExtensionError("Terminal is terminated");
+    }
+
     const commandLine = this.createCommandLine(options);
     const args = (options.args ?? []).filter((arg) => arg !== null) as string[];
     const commandPrint = this.command(options.command, args);
 
-    this.writeLine("🚀 Executing command:");
-    this.writeLine(commandPrint, { color: "green" });
-    this.writeLine();
+    const isJson = this.reporter.isJson;
+    if (isJson) {
+      this.reporter.emit({ type: "command", command: options.command, args: args, commandLine: commandLine });
+    } else {
+      this.writeLine("🚀 Executing command:");
+      this.writeLine(commandPrint, { color: "green" });
+      this.writeLine();
+    }
 
     let hasOutput = false;
 
     return new Promise<void>((resolve, reject) => {
+      const formatter = options.outputFormatter;
       const stdouBuffer = new LineBuffer({
-        enabled: !!options.onOutputLine,
+        enabled: !!options.onOutputLine || !!formatter || isJson,
         callback: (line) => {
+          this.emitOutputLine(line, "stdout", formatter);
           options.onOutputLine?.({ value: line, type: "stdout" });
         },
       });
       const stderrBuffer = new LineBuffer({
-        enabled: !!options.onOutputLine,
+        enabled: !!options.onOutputLine || !!formatter || isJson,
         callback: (line) => {
+          this.emitOutputLine(line, "stderr", formatter);
           options.onOutputLine?.({ value: line, type: "stderr" });
         },
       });
 
+      const outputLog = options.outputLogPath ? fs.createWriteStream(options.outputLogPath, { flags: "a" }) : null;
+
       const env = { ...process.env, ...prepareEnvVars(options.env) };
       const processHandle = spawn(commandLine, {
         shell: true,
         env: env,
-        cwd: this.workspacePath,
+        cwd: options.cwd ?? this.workspacePath,
+        detached: this.detached,
       });
+      this.processes.add(processHandle);
 
+      if (processHandle.pid !== undefined) {
+        options.onProcessStart?.(processHandle.pid);
+      }
       processHandle.stderr?.on("data", (data: string | Buffer): void => {
         const output = data.toString();
-        this.write(output, { color: "yellow" });
+        if (!isJson && !formatter) {
+          this.write(output, { color: "yellow" });
+        }
         hasOutput = true;
+        outputLog?.write(output);
         stderrBuffer.append(output);
       });
       processHandle.stdout?.on("data", (data: string | Buffer): void => {
         const output = data.toString();
-        this.write(output);
+        if (!isJson && !formatter) {
+          this.write(output);
+        }
         hasOutput = true;
+        outputLog?.write(output);
         stdouBuffer.append(output);
       });
       processHandle.on("close", (code) => {
-        if (hasOutput) {
+        this.processes.delete(processHandle);
+        if (hasOutput && !isJson) {
           this.writeLine();
         }
         stdouBuffer.flush();
         stderrBuffer.flush();
+        formatter?.flush();
+        this.reporter.emit({ type: "exit", command: commandPrint, code: code });
 
-        if (code !== 0) {
-          reject(new Error(`Command failed with exit code ${code}: ${commandPrint}`));
+        const finish = () => {
+          if (code !== 0) {
+            reject(new Error(`Command failed with exit code ${code}: ${commandPrint}`));
+          } else {
+            resolve();
+          }
+        };
+        // The log is read right after the command, so it must be written completely
+        if (outputLog) {
+          outputLog.end(finish);
         } else {
-          resolve();
+          finish();
         }
       });
       processHandle.on("error", (error) => {
-        if (hasOutput) {
+        this.processes.delete(processHandle);
+        if (hasOutput && !isJson) {
           this.writeLine();
         }
+        outputLog?.end();
         reject(error);
       });
     });
@@ -0,0 +1,109 @@
+import { TestResultsCollector } from "./test-results";
+
+function collect(lines: string[]): TestResultsCollector {
+  const collector = new TestResultsCollector();
+  for (const line of lines) {
+    collector.parseLine(line);
+  }
+  return collector;
+}
+
+describe("test results collector", () => {
+  it("should parse XCTest results on macOS", () => {
+    const collector = collect([
+      "Test Suite 'LoginTests' started at 2024-01-01 00:00:00.000",
+      "Test Case '-[MyAppTests.LoginTests testLogin]' started.",
+      "Test Case '-[MyAppTests.LoginTests testLogin]' passed (0.001 seconds).",
+      "/Users/user/MyApp/MyAppTests/LoginTests.swift:10: error: -[MyAppTests.LoginTests testLogout] : XCTAssertTrue failed",
+      "Test Case '-[MyAppTests.LoginTests testLogout]' failed (0.020 seconds).",
+      "Test Case '-[MyAppTests.LoginTests testSignUp]' skipped (0.000 seconds).",
+    ]);
+    expect(collector.getResults()).toEqual([
+      { id: "LoginTests/testLogin", status: "passed", duration: 0.001, message: null },
+      {
+        id: "LoginTests/testLogout",
+        status: "failed",
+        duration: 0.02,
+        message: "/Users/user/MyApp/MyAppTests/LoginTests.swift:10: XCTAssertTrue failed",
+      },
+      { id: "LoginTests/testSignUp", status: "skipped", duration: 0, message: null },
+    ]);
+    expect(collector.total).toBe(3);
+    expect(collector.failedCount).toBe(1);
+  });
+
+  it("should parse XCTest results on the simulator", () => {
+    const collector = collect([
+      "Test case 'LoginTests.testLogin()' passed on 'Clone 1 of iPhone 15 - MyApp (27767)' (0.154 seconds)",
+      "Test case 'LoginTests.testLogout()' failed on 'Clone 1 of iPhone 15 - MyApp (27767)' (1.002 seconds)",
+    ]);
+    expect(collector.getResults("passed").map((result) => result.id)).toEqual(["LoginTests/testLogin"]);
+    expect(collector.getResults("failed").map((result) => result.id)).toEqual(["LoginTests/testLogout"]);
+  });
+
+  it("should attach the assertion message to the failed test on the simulator", () => {
+    const collector = collect([
+      "/Users/user/MyApp/MyAppTests/LoginTests.swift:10: error: -[MyAppTests.LoginTests testLogout] : XCTAssertTrue failed",
+      "Test case 'LoginTests.testLogout()' failed on 'Clone 1 of iPhone 15 - MyApp (27767)' (1.002 seconds)",
+    ]);
+    expect(collector.getResults("failed")).toEqual([
+      {
+        id: "LoginTests/testLogout",
+        status: "failed",
+        duration: 1.002,
+        message: "/Users/user/MyApp/MyAppTests/LoginTests.swift:10: XCTAssertTrue failed",
+      },
+    ]);
+  });
+
+  it("should parse the output formatted by xcbeautify", () => {
+    const collector = collect([
+      "Test Suite 'LoginTests' started at 2024-01-01 00:00:00.000",
+      "    \x1b[32m✔\x1b[0m testLogin (0.001 seconds)",
+      "    ✖ testLogout, XCTAssertTrue failed",
+      "    ⊘ testSignUp (0.000 seconds)",
+      "    ✔ [ProfileTests] testAvatar on 'Clone 1 of iPhone 15' (0.003 seconds)",
+    ]);
+    expect(collector.getResults()).toEqual([
+      { id: "LoginTests/testLogin", status: "passed", duration: 0.001, message: null },
+      { id: "LoginTests/testLogout", status: "failed", duration: null, message: "XCTAssertTrue failed" },
+      { id: "LoginTests/testSignUp", status: "skipped", duration: null, message: null },
+      { id: "ProfileTests/testAvatar", status: "passed", duration: 0.003, message: null },
+    ]);
+  });
+
+  it("should parse Swift Testing results", () => {
+    const collector = collect([
+      "✔ Test testLogin() passed after 0.001 seconds.",
+      "✘ Test testLogout() failed after 0.002 seconds with 1 issue.",
+      '➜ Test testSignUp() skipped: "Not ready"',
+      "􁁛 Test testAvatar() passed after 0.004 seconds.",
+    ]);
+    expect(collector.getResults()).toEqual([
+      { id: "testLogin()", status: "passed", duration: 0.001, message: null },
+      { id: "testLogout()", status: "failed", duration: 0.002, message: null },
+      { id: "testSignUp()", status: "skipped", duration: null, message: null },
+      { id: "testAvatar()", status: "passed", duration: 0.004, message: null },
+    ]);
+  });
+
+  it("should keep the name of the parameterized test", () => {
+    const collector = collect([
+      "✔ Test testLogin(user:) with 3 test cases passed after 0.005 seconds.",
+      '✘ Test "Sign up with email" with 1 test case failed after 0.003 seconds with 2 issues.',
+    ]);
+    expect(collector.getResults()).toEqual([
+      { id: "testLogin(user:)", status: "passed", duration: 0.005, message: null },
+      { id: '"Sign up with email"', status: "failed", duration: 0.003, message: null },
+    ]);
+  });
+
+  it("should keep the last status of the retried test", () => {
+    const collector = collect([
+      "Test Case '-[MyAppTests.LoginTests testLogin]' failed (0.001 seconds).",
+      "Test Case '-[MyAppTests.LoginTests testLogin]' passed (0.001 seconds).",
+    ]);
+    expect(collector.total).toBe(1);
+    expect(collector.failedCount).toBe(0);
+  });
+});
@@ -0,0 +1,178 @@
+import type { TaskTerminal } from "../common/tasks";
+
+type TestStatus = "passed" | "failed" | "skipped";
+
+type TestResult = {
+  // ex: "LoginTests/testLogin"
+  id: string;
+  status: TestStatus;
+  duration: number | null;
+  message: string | null;
+};
+
+// "Test Case '-[MyAppTests.LoginTests testLogin]' passed (0.001 seconds)."
+const METHOD_STATUS_REGEXP_MACOS = /Test Case '-\[(\S+) (\S+)\]' (passed|failed|skipped) \((\d+(?:\.\d+)?) seconds\)/;
+
+// "Test case 'LoginTests.testLogin()' passed on 'Clone 1 of iPhone 15 - MyApp (27767)' (0.154 seconds)"
+const METHOD_STATUS_REGEXP_IOS =
+  /Test case '(.+)\.(.+)\(\)' (passed|failed|skipped) on '.*' \((\d+(?:\.\d+)?) seconds\)/;
+
+// "/Users/user/MyApp/MyAppTests/LoginTests.swift:10: error: -[MyAppTests.LoginTests testLogin] : XCTAssertTrue failed"
+const INLINE_ERROR_REGEXP = /^(.*):(\d+): error: -\[(\S+) (\S+)\] : (.*)$/;
+
+// Lines formatted by xcbeautify, they don't contain class name, so we use the last seen suite
+// "    ✔ testLogin (0.001 seconds)"
+// "    ✔ [LoginTests] testLogin on 'Clone 1 of iPhone 15' (0.001 seconds)"
+// "    ✖ testLogin, XCTAssertTrue failed"
+const XCBEAUTIFY_PASSED_REGEXP = /^\s*✔ (?:\[(.+?)\] )?(\S+?)(?:\(\))? (?:on '.*' )?\((\d+(?:\.\d+)?) seconds\)/;
+const XCBEAUTIFY_FAILED_REGEXP = /^\s*✖ (?:\[(.+?)\] )?(\S+?)(?:\(\))?(?:, | on '.*' )(.*)$/;
+const XCBEAUTIFY_SKIPPED_REGEXP = /^\s*⊘ (?:\[(.+?)\] )?(\S+?)(?:\(\))? /;
+
+// "Test Suite 'LoginTests' started at 2024-01-01 00:00:00.000"
+const SUITE_STARTED_REGEXP = /Test Suite '(.+)' started/;
+
+// Swift Testing: "✔ Test testLogin() passed after 0.001 seconds."
+// Parameterized: "✔ Test testLogin(user:) with 3 test cases passed after 0.002 seconds."
+// Skipped: "➜ Test testLogout() skipped: "Not ready""
+// On macOS the symbols are from SF Symbols: "􁁛" passed, "􀢄" failed, "􀙟" skipped
+const SWIFT_TESTING_REGEXP =
+  /^[✔✘➜􁁛􀢄􀙟] Test (.+?)(?: with \d+ test cases?)? (passed|failed|skipped)(?: after (\d+(?:\.\d+)?) seconds)?/u;
+
+// The module name is printed on macOS, but not on the iOS simulator: "MyAppTests.LoginTests" -> "LoginTests"
+function stripModuleName(className: string): string {
+  return className.slice(className.lastIndexOf(".") + 1);
+}
+
+// biome-ignore lint/suspicious/noControlCharactersInRegex: xcbeautify might color the output
+const ANSI_ESCAPE_REGEXP = /\x1b\[[0-9;]*m/g;
+
+/**
+ * Collect test results from the `xcodebuild test` output (raw or formatted by xcbeautify) line by line
+ * and print a short summary at the end of the run.
+ */
+export class TestResultsCollector {
+  private results = new Map<string, TestResult>();
+  private inlineErrors = new Map<string, string>();
+  private currentSuite: string | null = null;
+
+  parseLine(rawLine: string): void {
+    const line = rawLine.replace(ANSI_ESCAPE_REGEXP, "").trimEnd();
+
+    const inlineErrorMatch = line.match(INLINE_ERROR_REGEXP);
+    if (inlineErrorMatch) {
+      const [, filePath, lineNumber, className, methodName, message] = inlineErrorMatch;
+      this.inlineErrors.set(`${stripModuleName(className)}/${methodName}`, `${filePath}:${lineNumber}: ${message}`);
+      return;
+    }
+
+    const macOSMatch = line.match(METHOD_STATUS_REGEXP_MACOS);
+    if (macOSMatch) {
+      const [, className, methodName, status, duration] = macOSMatch;
+      this.addResult(`${stripModuleName(className)}/${methodName}`, status as TestStatus, duration);
+      return;
+    }
+
+    const iOSMatch = line.match(METHOD_STATUS_REGEXP_IOS);
+    if (iOSMatch) {
+      const [, className, methodName, status, duration] = iOSMatch;
+      this.addResult(`${stripModuleName(className)}/${methodName}`, status as TestStatus, duration);
+      return;
+    }
+
+    const suiteMatch = line.match(SUITE_STARTED_REGEXP);
+    if (suiteMatch) {
+      this.currentSuite = suiteMatch[1];
+      return;
+    }
+
+    const swiftTestingMatch = line.match(SWIFT_TESTING_REGEXP);
+    if (swiftTestingMatch) {
+      const [, testName, status, duration] = swiftTestingMatch;
+      this.addResult(testName, status as TestStatus, duration ?? null);
+      return;
+    }
+
+    const passedMatch = line.match(XCBEAUTIFY_PASSED_REGEXP);
+    if (passedMatch) {
+      const [, suite, methodName, duration] = passedMatch;
+      this.addResult(this.formatId(suite, methodName), "passed", duration);
+      return;
+    }
+
+    const failedMatch = line.match(XCBEAUTIFY_FAILED_REGEXP);
+    if (failedMatch) {
+      const [, suite, methodName, message] = failedMatch;
+      this.addResult(this.formatId(suite, methodName), "failed", null, message);
+      return;
+    }
+
+    const skippedMatch = line.match(XCBEAUTIFY_SKIPPED_REGEXP);
+    if (skippedMatch) {
+      const [, suite, methodName] = skippedMatch;
+      this.addResult(this.formatId(suite, methodName), "skipped", null);
+    }
+  }
+
+  private formatId(suite: string | undefined, methodName: string): string {
+    const className = suite ?? this.currentSuite;
+    return className ? `${className}/${methodName}` : methodName;
+  }
+
+  private addResult(id: string, status: TestStatus, duration: string | null, message?: string): void {
+    // Retried tests are reported several times, the last status wins
+    this.results.set(id, {
+      id: id,
+      status: status,
+      duration: duration ? Number.parseFloat(duration) : null,
+      message: message ?? null,
+    });
+  }
+
+  get total(): number {
+    return this.results.size;
+  }
+
+  get failedCount(): number {
+    return this.getResults("failed").length;
+  }
+
+  getResults(status?: TestStatus): TestResult[] {
+    // The assertion message printed before the status line is more precise than the xcbeautify one
+    const results = [...this.results.values()].map((result) => ({
+      ...result,
+      message: this.inlineErrors.get(result.id) ?? result.message,
+    }));
+    return status ? results.filter((result) => result.status === status) : results;
+  }
+
+  printSummary(terminal: TaskTerminal): void {
+    const passed = this.getResults("passed");
+    const failed = this.getResults("failed");
+    const skipped = this.getResults("skipped");
+
+    terminal.write("🧪 Test summary:", { newLine: true });
+    if (this.results.size === 0) {
+      terminal.write("   No test results found in the output", { newLine: true, color: "yellow" });
+      return;
+    }
+
+    for (const result of this.getResults()) {
+      const duration = result.duration !== null ? ` (${result.duration.toFixed(3)}s)` : "";
+      if (result.status === "passed") {
+        terminal.write(`   ✅ ${result.id}${duration}`, { newLine: true, color: "green" });
+      } else if (result.status === "failed") {
+        terminal.write(`   ❌ ${result.id}${duration}`, { newLine: true, color: "red" });
+        if (result.message) {
+          terminal.write(`      ${result.message}`, { newLine: true });
+        }
+      } else {
+        terminal.write(`   ⏭️  ${result.id}`, { newLine: true, color: "yellow" });
+      }
+    }
+
+    terminal.write(
+      `Executed ${this.results.size} tests: ${passed.length} passed, ${failed.length} failed, ${skipped.length} skipped`,
+      { newLine: true, color: failed.length > 0 ? "red" : "green" },
+    );
+  }
+}
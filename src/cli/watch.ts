@@ -0,0 +1,185 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { CliReporter } from "./output";
+import { CliTaskTerminal } from "./terminal";
+
+const WATCH_DEBOUNCE_MS = 300;
+
+const WATCHED_EXTENSIONS = new Set([
+  ".swift",
+  ".m",
+  ".mm",
+  ".h",
+  ".c",
+  ".cpp",
+  ".xcconfig",
+  ".pbxproj",
+  ".xcscheme",
+  ".plist",
+  ".entitlements",
+  ".strings",
+  ".xcstrings",
+  ".storyboard",
+  ".xib",
+]);
+
+// Build products and tool directories, changes inside them are made by the build itself
+const IGNORED_DIRECTORIES = new Set([
+  ".git",
+  ".build",
+  ".sweetpad",
+  ".swiftpm",
+  "DerivedData",
+  "build",
+  "node_modules",
+  "xcuserdata",
+]);
+
+export function isWatchedFile(relativePath: string): boolean {
+  const parts = relativePath.split(path.sep);
+  if (parts.some((part) => IGNORED_DIRECTORIES.has(part))) {
+    return false;
+  }
+  // Any file inside the asset catalog: images, colors and their Contents.json
+  if (parts.some((part) => part.endsWith(".xcassets"))) {
+    return true;
+  }
+  return WATCHED_EXTENSIONS.has(path.extname(relativePath));
+}
+
+type WatchCycle = (options: { terminal: CliTaskTerminal; onBuilt: () => void }) => Promise<void>;
+
+/**
+ * Run the cycle (build and launch) and re-run it every time when the source files change.
+ * The in-flight cycle is cancelled by terminating its terminal, it also stops the previously launched app.
+ */
+export async function watchAndRun(options: {
+  workspacePath: string;
+  reporter: CliReporter;
+  cycle: WatchCycle;
+}): Promise<void> {
+  const { workspacePath, reporter } = options;
+
+  let cycleNumber = 0;
+  let startRequests = 0;
+  let current: { terminal: CliTaskTerminal; promise: Promise<void>; isCancelled: boolean } | null = null;
+  let pendingChanges = new Set<string>();
+  let debounceTimer: NodeJS.Timeout | null = null;
+  let isStopped = false;
+
+  const writeStatus = (icon: string, message: string) => {
+    if (reporter.isJson) {
+      return;
+    }
+    const time = new Date().toLocaleTimeString();
+    process.stdout.write(`\n${icon} [#${cycleNumber} ${time}] ${message}\n\n`);
+  };
+
+  const cancelCurrent = async () => {
+    if (!current) {
+      return;
+    }
+    current.isCancelled = true;
+    current.terminal.terminate();
+    // Let the previous cycle finish its cleanup before starting a new one
+    await current.promise;
+  };
+
+  const startCycle = async (changes: string[]) => {
+    const request = ++startRequests;
+    await cancelCurrent();
+    // Another change came while waiting for the cancellation, the newer request starts the cycle
+    if (isStopped || request !== startRequests) {
+      return;
+    }
+
+    cycleNumber++;
+    const number = cycleNumber;
+    const startedAt = Date.now();
+    const terminal = new CliTaskTerminal({ workspacePath, reporter, detached: true });
+
+    reporter.emit({ type: "watch", cycle: number, status: "started", changes });
+    if (changes.length > 0) {
+      writeStatus("🔁", `Changes detected: ${formatChanges(changes)}`);
+    }
+
+    const cycle = { terminal, promise: Promise.resolve(), isCancelled: false };
+    cycle.promise = options
+      .cycle({
+        terminal,
+        onBuilt: () => {
+          const durationMs = Date.now() - startedAt;
+          reporter.emit({ type: "watch", cycle: number, status: "built", durationMs });
+          writeStatus("✅", `Built in ${formatDuration(durationMs)}`);
+        },
+      })
+      .then(
+        () => {
+          if (!cycle.isCancelled) {
+            writeStatus("💤", "Finished, watching for changes...");
+          }
+        },
+        (error) => {
+          const durationMs = Date.now() - startedAt;
+          if (cycle.isCancelled) {
+            reporter.emit({ type: "watch", cycle: number, status: "cancelled", durationMs });
+            writeStatus("⏹️ ", "Cancelled");
+            return;
+          }
+          const message = error instanceof Error ? error.message : String(error);
+          reporter.emit({ type: "watch", cycle: number, status: "failed", durationMs, error: message });
+          writeStatus("❌", `Failed in ${formatDuration(durationMs)}: ${message}`);
+        },
+      );
+    current = cycle;
+  };
+
+  const onChange = (relativePath: string) => {
+    if (!isWatchedFile(relativePath)) {
+      return;
+    }
+    pendingChanges.add(relativePath);
+
+    if (debounceTimer) {
+      clearTimeout(debounceTimer);
+    }
+    debounceTimer = setTimeout(() => {
+      const changes = [...pendingChanges];
+      pendingChanges = new Set();
+      void startCycle(changes);
+    }, WATCH_DEBOUNCE_MS);
+  };
+
+  const watcher = fs.watch(workspacePath, { recursive: true }, (_event, filename) => {
+    if (filename) {
+      onChange(filename.toString());
+    }
+  });
+
+  writeStatus("👀", `Watching ${workspacePath} for changes, press Ctrl+C to stop`);
+  await startCycle([]);
+
+  await new Promise<void>((resolve) => {
+    const stop = () => {
+      isStopped = true;
+      if (debounceTimer) {
+        clearTimeout(debounceTimer);
+      }
+      watcher.close();
+      process.off("SIGINT", stop);
+      process.off("SIGTERM", stop);
+      void cancelCurrent().then(() => resolve());
+    };
+    process.on("SIGINT", stop);
+    process.on("SIGTERM", stop);
+  });
+}
+
+function formatChanges(changes: string[]): string {
+  const shown = changes.slice(0, 3).join(", ");
+  return changes.length > 3 ? `${shown} and ${changes.length - 3} more` : shown;
+}
+
+function formatDuration(durationMs: number): string {
+  return `${(durationMs / 1000).toFixed(1)}s`;
+}
@@ -159,6 +159,12 @@ export class XcodeBuildSettings {
     return this.settings.PRODUCT_BUNDLE_IDENTIFIER;
   }
 
+  get developmentTeam(): string | undefined {
+    // Example:
+    // - "ABCDE12345"
+    return this.settings.DEVELOPMENT_TEAM || undefined;
+  }
+
   get supportedPlatforms(): DestinationPlatform[] | undefined {
     // ex: ["iphonesimulator", "iphoneos"]
     const platformsRaw = this.settings.SUPPORTED_PLATFORMS; // ex: "iphonesimulator iphoneos"
@@ -169,6 +175,18 @@ export class XcodeBuildSettings {
       return platform as DestinationPlatform;
     });
   }
+
+  /**
+   * Replace "$(VAR)" and "${VAR}" references with the build setting values, the same way as Xcode does
+   * for the scheme launch arguments. Unknown settings are replaced with an empty string.
+   */
+  expandVariables(value: string): string {
+    // Example:
+    // - "$(SRCROOT)/Fixtures" -> "/Users/hyzyla/Developer/ControlRoom/Fixtures"
+    return value.replace(/\$(?:\(([A-Za-z0-9_]+)\)|\{([A-Za-z0-9_]+)\})/g, (_, parenName, braceName) => {
+      return this.settings[parenName ?? braceName] ?? "";
+    });
+  }
 }
 
 /**
@@ -653,6 +671,35 @@ export async function getXcodeVersionInstalled(): Promise<{
   };
 }
 
+/**
+ * Get the version of the Swift toolchain of the selected Xcode, sourcekit-lsp has the same version
+ */
+export async function getSwiftVersionInstalled(): Promise<{
+  major: number;
+  minor: number;
+}> {
+  //~ xcrun swift --version
+  // swift-driver version: 1.120.5 Apple Swift version 6.1 (swiftlang-6.1.0.110.21 clang-1700.0.13.3)
+  // Target: arm64-apple-macosx15.0
+  const stdout = await exec({
+    command: "xcrun",
+    args: ["swift", "--version"],
+  });
+
+  const versionMatch = stdout.match(/Swift version (\d+)\.(\d+)/);
+  if (!versionMatch) {
+    throw new ExtensionError("Error parsing swift version", {
+      context: {
+        stdout: stdout,
+      },
+    });
+  }
+  return {
+    major: Number.parseInt(versionMatch[1]),
+    minor: Number.parseInt(versionMatch[2]),
+  };
+}
+
 /**
  * Get the Xcode version installed on the system using pgkutils
  *
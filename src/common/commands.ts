@@ -2,6 +2,7 @@ import { AsyncLocalStorage } from "node:async_hooks";
 import * as crypto from "node:crypto";
 import * as events from "node:events";
 import * as vscode from "vscode";
+import type { BuildHistoryEntry, BuildHistoryManager } from "../build/history";
 import type { BuildManager } from "../build/manager";
 import type { DestinationsManager } from "../destination/manager";
 import type { DestinationType, SelectedDestination } from "../destination/types";
@@ -48,6 +49,8 @@ type WorkspaceTypes = {
   "build.xcodeSdk": string;
   "build.lastLaunchedApp": LastLaunchedAppContext;
   "build.xcodeBuildServerAutogenreateInfoShown": boolean;
+  "build.history": BuildHistoryEntry[];
+  "build.xcodeFileTargets": Record<string, string>; // targets of the file -> selected target
   "testing.xcodeTarget": string;
   "testing.xcodeConfiguration": string;
   "testing.xcodeDestination": SelectedDestination;
@@ -71,6 +74,7 @@ export class ExtensionContext {
   public destinationsManager: DestinationsManager;
   public toolsManager: ToolsManager;
   public buildManager: BuildManager;
+  public buildHistoryManager: BuildHistoryManager;
   public testingManager: TestingManager;
   public formatter: SwiftFormattingProvider;
   public progressStatusBar: ProgressStatusBar;
@@ -85,6 +89,7 @@ export class ExtensionContext {
     context: vscode.ExtensionContext;
     destinationsManager: DestinationsManager;
     buildManager: BuildManager;
+    buildHistoryManager: BuildHistoryManager;
     toolsManager: ToolsManager;
     testingManager: TestingManager;
     formatter: SwiftFormattingProvider;
@@ -93,6 +98,7 @@ export class ExtensionContext {
     this._context = options.context;
     this.destinationsManager = options.destinationsManager;
     this.buildManager = options.buildManager;
+    this.buildHistoryManager = options.buildHistoryManager;
     this.toolsManager = options.toolsManager;
     this.testingManager = options.testingManager;
     this.formatter = options.formatter;
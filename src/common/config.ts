@@ -1,10 +1,16 @@
 import * as vscode from "vscode";
+import type { ExportOptions } from "../build/archive";
+import type { BuildServerProvider } from "../build/build-server";
+import type { BuildHookCommand } from "../build/hooks";
+import { type ConfigOverride, type ConfigScope, getConfigOverride } from "../build/overrides";
+import { expandSettingVariables } from "./settings";
 
 type Config = {
   "format.path": string;
   "format.args": string[] | null;
   "format.selectionArgs": string[] | null;
   "build.xcbeautifyEnabled": boolean;
+  "build.outputFormatter": "sweetpad" | "xcbeautify" | "raw";
   "build.xcodeWorkspacePath": string;
   "build.derivedDataPath": string;
   "build.configuration": string;
@@ -18,6 +24,14 @@ type Config = {
   "build.bringSimulatorToForeground": boolean;
   "build.autoRefreshSchemes": boolean;
   "build.autoRefreshSchemesDelay": number;
+  "build.typecheckOnSave": boolean;
+  "build.compileCommands.autogenerate": boolean;
+  "build.exportOptionsPath": string;
+  "build.exportOptions": ExportOptions;
+  "build.hooks.preBuild": BuildHookCommand[];
+  "build.hooks.postBuild": BuildHookCommand[];
+  "build.hooks.preLaunch": BuildHookCommand[];
+  "build.hooks.postLaunch": BuildHookCommand[];
   "system.taskExecutor": "v1" | "v2";
   "system.logLevel": "debug" | "info" | "warn" | "error";
   "system.enableSentry": boolean;
@@ -27,9 +41,12 @@ type Config = {
   "xcodegen.autogenerate": boolean;
   "xcodebuildserver.autogenerate": boolean;
   "xcodebuildserver.path": string;
+  "xcodebuildserver.provider": BuildServerProvider;
+  "xcodebuildserver.overwriteExisting": boolean;
   "tuist.autogenerate": boolean;
   "tuist.generate.env": { [key: string]: string | null };
   "testing.configuration": string;
+  overrides: ConfigOverride[];
 };
 
 type ConfigKey = keyof Config;
@@ -38,7 +55,19 @@ export function getWorkspaceConfig<K extends ConfigKey>(key: K): Config[K] | und
   const config = vscode.workspace.getConfiguration("sweetpad");
   const value = config.get<Config[K]>(key);
 
-  return expandConfigEnvVars(value);
+  // VS Code doesn't expand variables in settings, so we do it the same way as the CLI does
+  return expandSettingVariables(value, { workspaceFolder: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath });
+}
+
+/**
+ * Same as "getWorkspaceConfig", but the "overrides" blocks that match the scheme, configuration and
+ * destination are applied on top of the setting
+ */
+export function getScopedWorkspaceConfig<K extends ConfigKey>(
+  key: K,
+  scope: ConfigScope | undefined,
+): Config[K] | undefined {
+  return getConfigOverride<Config[K]>(getWorkspaceConfig("overrides"), scope, key) ?? getWorkspaceConfig(key);
 }
 
 export function isWorkspaceConfigIsDefined<K extends ConfigKey>(key: K): boolean {
@@ -49,45 +78,3 @@ export async function updateWorkspaceConfig<K extends ConfigKey>(key: K, value:
   const config = vscode.workspace.getConfiguration("sweetpad");
   return await config.update(key, value, vscode.ConfigurationTarget.Workspace);
 }
-
-/**
- * Recursively expands environment variables in the config object
- *
- * Example: { key: "Hello ${env:USER}" } -> { key: "Hello john" }
- *
- * We expand only strings. Array and objects are processed recursively. Other types are
- * returned as is.
- */
-function expandConfigEnvVars<T>(value: T): T {
-  if (typeof value === "string") {
-    return value.replace(
-      // Match ${env:VAR_NAME}, fallback and recursive expansion is not supported yet
-      /\${env:([A-Za-z0-9_]+)}/g,
-      (match: string, envName: string) => {
-        const envValue = process.env[envName];
-        // note: empty string is a valid value, so ENV_VAR_NAME="" will be resolved to empty string
-        if (envValue !== undefined) {
-          return envValue;
-        }
-
-        // if no env value is found, return the original ${env:VAR_NAME} string
-        return match;
-      },
-    ) as T;
-  }
-
-  if (Array.isArray(value)) {
-    return value.map((v) => expandConfigEnvVars(v)) as T;
-  }
-
-  if (value && typeof value === "object") {
-    const result: Record<string, any> = {};
-    for (const [k, v] of Object.entries(value)) {
-      result[k] = expandConfigEnvVars(v);
-    }
-    return result as T;
-  }
-
-  // numbers, booleans, null, undefined, etc. are returned as is
-  return value;
-}
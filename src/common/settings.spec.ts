@@ -0,0 +1,55 @@
+import { expandSettingVariables, parseJsonc } from "./settings";
+
+describe("parse settings.json", () => {
+  it("should ignore comments and trailing commas", () => {
+    const settings = parseJsonc<Record<string, unknown>>(`{
+      // line comment
+      "sweetpad.build.args": ["-quiet",],
+      /* block
+         comment */
+      "sweetpad.build.derivedDataPath": "/tmp/dd", // after value
+    }`);
+    expect(settings).toEqual({
+      "sweetpad.build.args": ["-quiet"],
+      "sweetpad.build.derivedDataPath": "/tmp/dd",
+    });
+  });
+
+  it("should keep comment-like sequences inside strings", () => {
+    const settings = parseJsonc<Record<string, unknown>>(`{
+      "url": "https://example.com/*path*/",
+      "quoted": "say \\"hi\\", // not a comment",
+    }`);
+    expect(settings).toEqual({
+      url: "https://example.com/*path*/",
+      quoted: 'say "hi", // not a comment',
+    });
+  });
+
+  it("should throw on invalid JSON", () => {
+    expect(() => parseJsonc("{ /* unterminated }")).toThrow();
+    expect(() => parseJsonc('{ "a": }')).toThrow();
+  });
+});
+
+describe("expand setting variables", () => {
+  it("should expand workspace folder and env variables", () => {
+    process.env.SWEETPAD_TEST_VAR = "value";
+    const value = expandSettingVariables(
+      {
+        path: "${workspaceFolder}/build",
+        name: "${workspaceFolderBasename}",
+        args: ["${env:SWEETPAD_TEST_VAR}", "${env:SWEETPAD_MISSING_VAR}", "${unknown}"],
+        count: 1,
+      },
+      { workspaceFolder: "/Users/john/MyApp" },
+    );
+    expect(value).toEqual({
+      path: "/Users/john/MyApp/build",
+      name: "MyApp",
+      args: ["value", "${env:SWEETPAD_MISSING_VAR}", "${unknown}"],
+      count: 1,
+    });
+    Reflect.deleteProperty(process.env, "SWEETPAD_TEST_VAR");
+  });
+});
@@ -0,0 +1,249 @@
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { ExtensionError } from "./errors";
+import { isFileExists } from "./files";
+
+type SettingsMap = Record<string, unknown>;
+
+export type SettingsVariables = {
+  workspaceFolder?: string;
+};
+
+/**
+ * Parse JSON with comments and trailing commas, the format VS Code uses for settings.json and
+ * *.code-workspace files
+ */
+export function parseJsonc<T = unknown>(text: string): T {
+  let result = "";
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    const next = text[i + 1];
+
+    if (char === '"') {
+      // Copy the string as is, including escaped quotes and comment-like sequences
+      const end = findStringEnd(text, i);
+      result += text.slice(i, end);
+      i = end;
+      continue;
+    }
+
+    if (char === "/" && next === "/") {
+      const end = text.indexOf("\n", i);
+      i = end === -1 ? text.length : end;
+      continue;
+    }
+
+    if (char === "/" && next === "*") {
+      const end = text.indexOf("*/", i + 2);
+      if (end === -1) {
+        throw new SyntaxError("Unterminated block comment");
+      }
+      // Keep the whitespace, so "1/* */2" is still invalid
+      result += " ";
+      i = end + 2;
+      continue;
+    }
+
+    result += char;
+    i++;
+  }
+
+  return JSON.parse(removeTrailingCommas(result)) as T;
+}
+
+/**
+ * Index right after the closing quote of the string that starts at the given index
+ */
+function findStringEnd(text: string, start: number): number {
+  let end = start + 1;
+  while (end < text.length && text[end] !== '"') {
+    end += text[end] === "\\" ? 2 : 1;
+  }
+  return end + 1;
+}
+
+/**
+ * Expects the text without comments
+ */
+function removeTrailingCommas(text: string): string {
+  let result = "";
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '"') {
+      const end = findStringEnd(text, i);
+      result += text.slice(i, end);
+      i = end;
+      continue;
+    }
+
+    if (char === ",") {
+      const rest = text.slice(i + 1).trimStart();
+      if (rest.startsWith("}") || rest.startsWith("]")) {
+        i++;
+        continue;
+      }
+    }
+
+    result += char;
+    i++;
+  }
+  return result;
+}
+
+/**
+ * Recursively expands variables in the setting value, the same subset VS Code supports in
+ * tasks and launch configurations:
+ *  - ${env:VAR_NAME}
+ *  - ${userHome}
+ *  - ${workspaceFolder} and ${workspaceFolderBasename}
+ *
+ * Example: { key: "${workspaceFolder}/build" } -> { key: "/Users/john/MyApp/build" }
+ *
+ * Unknown variables and variables without value are left as is. Only strings are expanded,
+ * arrays and objects are processed recursively, other types are returned as is.
+ */
+export function expandSettingVariables<T>(value: T, variables: SettingsVariables = {}): T {
+  if (typeof value === "string") {
+    return value.replace(/\${([A-Za-z]+)(?::([A-Za-z0-9_]+))?}/g, (match: string, name: string, arg?: string) => {
+      const resolved = resolveVariable(name, arg, variables);
+      return resolved ?? match;
+    }) as T;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((v) => expandSettingVariables(v, variables)) as T;
+  }
+
+  if (value && typeof value === "object") {
+    const result: Record<string, any> = {};
+    for (const [k, v] of Object.entries(value)) {
+      result[k] = expandSettingVariables(v, variables);
+    }
+    return result as T;
+  }
+
+  // numbers, booleans, null, undefined, etc. are returned as is
+  return value;
+}
+
+function resolveVariable(name: string, arg: string | undefined, variables: SettingsVariables): string | undefined {
+  if (name === "env") {
+    // note: empty string is a valid value, so ENV_VAR_NAME="" will be resolved to empty string
+    return arg ? process.env[arg] : undefined;
+  }
+  if (arg !== undefined) {
+    return undefined;
+  }
+  switch (name) {
+    case "userHome":
+      return os.homedir();
+    case "workspaceFolder":
+      return variables.workspaceFolder;
+    case "workspaceFolderBasename":
+      return variables.workspaceFolder ? path.basename(variables.workspaceFolder) : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Location of the VS Code user settings.json. SWEETPAD_USER_SETTINGS_PATH overrides it, ex. for
+ * Cursor, VSCodium or Insiders, which keep settings in a different directory
+ */
+export function getUserSettingsPath(): string {
+  const override = process.env.SWEETPAD_USER_SETTINGS_PATH;
+  if (override) {
+    return override;
+  }
+
+  const home = os.homedir();
+  switch (process.platform) {
+    case "darwin":
+      return path.join(home, "Library", "Application Support", "Code", "User", "settings.json");
+    case "win32":
+      return path.join(process.env.APPDATA ?? path.join(home, "AppData", "Roaming"), "Code", "User", "settings.json");
+    default:
+      return path.join(process.env.XDG_CONFIG_HOME ?? path.join(home, ".config"), "Code", "User", "settings.json");
+  }
+}
+
+/**
+ * Find *.code-workspace file in the workspace root. When there are several of them we can't know
+ * which one the user opens in VS Code, so the first one in alphabetical order is used
+ */
+export async function findCodeWorkspacePath(workspacePath: string): Promise<string | null> {
+  let files: string[];
+  try {
+    files = await fs.readdir(workspacePath);
+  } catch (error) {
+    return null;
+  }
+  const workspaceFiles = files.filter((file) => file.endsWith(".code-workspace")).sort();
+  return workspaceFiles.length > 0 ? path.join(workspacePath, workspaceFiles[0]) : null;
+}
+
+async function readSettingsFile(filePath: string): Promise<SettingsMap> {
+  if (!(await isFileExists(filePath))) {
+    return {};
+  }
+  const text = await fs.readFile(filePath, "utf-8");
+  if (!text.trim()) {
+    return {};
+  }
+
+  let settings: unknown;
+  try {
+    settings = parseJsonc(text);
+  } catch (error) {
+    throw new ExtensionError(`Failed to parse settings file: ${filePath}`, {
+      context: { filePath, error: error instanceof Error ? error.message : String(error) },
+    });
+  }
+  return isPlainObject(settings) ? settings : {};
+}
+
+/**
+ * Read settings outside of VS Code the same way VS Code resolves them, later layers override
+ * the earlier ones:
+ *  1. user settings.json
+ *  2. "settings" of the *.code-workspace file in the workspace root
+ *  3. .vscode/settings.json of the workspace folder
+ *
+ * Returned values are not expanded, use expandSettingVariables for that.
+ */
+export async function resolveSettings(options: {
+  workspacePath: string;
+  userSettingsPath?: string | null;
+}): Promise<SettingsMap> {
+  const userSettingsPath = options.userSettingsPath === undefined ? getUserSettingsPath() : options.userSettingsPath;
+  const userSettings = userSettingsPath ? await readSettingsFile(userSettingsPath) : {};
+
+  const codeWorkspacePath = await findCodeWorkspacePath(options.workspacePath);
+  const codeWorkspace = codeWorkspacePath ? await readSettingsFile(codeWorkspacePath) : {};
+  const codeWorkspaceSettings = isPlainObject(codeWorkspace.settings) ? codeWorkspace.settings : {};
+
+  const folderSettings = await readSettingsFile(path.join(options.workspacePath, ".vscode", "settings.json"));
+
+  return [userSettings, codeWorkspaceSettings, folderSettings].reduce(mergeSettings, {});
+}
+
+function isPlainObject(value: unknown): value is SettingsMap {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * VS Code merges object values from different layers (ex. "build.env" from user and workspace
+ * settings), while other values are replaced
+ */
+function mergeSettings(base: SettingsMap, override: SettingsMap): SettingsMap {
+  const result: SettingsMap = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    const baseValue = result[key];
+    result[key] = isPlainObject(baseValue) && isPlainObject(value) ? mergeSettings(baseValue, value) : value;
+  }
+  return result;
+}
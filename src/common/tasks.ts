@@ -1,11 +1,18 @@
 import { type ChildProcess, spawn } from "node:child_process";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { StringDecoder } from "node:string_decoder";
 import { quote } from "shell-quote";
 import * as vscode from "vscode";
 import { getWorkspacePath } from "../build/utils";
+import { getIsXcbeautifyInstalled } from "./cli/scripts";
 import type { ExtensionContext } from "./commands";
 import { getWorkspaceConfig } from "./config";
 import { TaskError } from "./errors";
 import { prepareEnvVars } from "./helpers";
+import { commonLogger } from "./logger";
 
 type TaskExecutor = "v1" | "v2";
 
@@ -14,15 +21,37 @@ export type Command = {
   args?: string[];
 };
 
+type TerminalTextColor = "green" | "red" | "blue" | "yellow" | "magenta" | "cyan" | "white";
+
+export type FormattedOutputLine = {
+  text: string;
+  color?: TerminalTextColor;
+};
+
+/**
+ * Formats the command output line by line before it's written to the terminal, ex. to pretty-print
+ * the xcodebuild output. Lines formatted as null are hidden.
+ */
+export interface OutputFormatter {
+  formatLine(line: string): FormattedOutputLine | null;
+  flush(): void;
+}
+
 export type CommandOptions = {
   command: string;
   args?: (string | null)[];
   pipes?: Command[];
   env?: { [key: string]: string | null };
+  // Working directory, the workspace root by default
+  cwd?: string;
+  outputFormatter?: OutputFormatter;
+  // Raw stdout and stderr of the command are appended to this file
+  outputLogPath?: string;
   onOutputLine?: (data: { value: string; type: "stdout" | "stderr" }) => Promise<void>;
+  // PID of the command, or of the shell running it when there are pipes
+  onProcessStart?: (pid: number) => void;
 };
 
-type TerminalTextColor = "green" | "red" | "blue" | "yellow" | "magenta" | "cyan" | "white";
 type TerminalWriteOptions = {
   color?: TerminalTextColor;
   newLine?: boolean;
@@ -80,6 +109,14 @@ export function setTaskPresentationOptions(task: vscode.Task): void {
   };
 }
 
+function endStream(stream: fs.WriteStream | null, callback: () => void): void {
+  if (stream) {
+    stream.end(callback);
+  } else {
+    callback();
+  }
+}
+
 /**
  * Collect stdout or stderr output and send it line by line to the callback
  */
@@ -122,7 +159,8 @@ class LineBuffer {
 export class TaskTerminalV2 implements vscode.Pseudoterminal, TaskTerminal {
   private writeEmitter = new vscode.EventEmitter<string>();
   private closeEmitter = new vscode.EventEmitter<number>();
-  private process: ChildProcess | null = null;
+  // The postLaunch hooks run while the app is still running, so several commands can run at once
+  private processes = new Set<ChildProcess>();
 
   constructor(
     private context: ExtensionContext,
@@ -142,8 +180,9 @@ export class TaskTerminalV2 implements vscode.Pseudoterminal, TaskTerminal {
     const args = cleanCommandArgs(options.args);
     const mainCommand = quote([options.command, ...args]);
 
+    // "exec" replaces the shell with the command, so the reported PID is the command's one
     if (!options.pipes) {
-      return mainCommand;
+      return `exec ${mainCommand}`;
     }
 
     // Combine them into a big pipe with error propagation
@@ -174,18 +213,31 @@ export class TaskTerminalV2 implements vscode.Pseudoterminal, TaskTerminal {
     });
   }
 
+  private writeFormattedLine(formatter: OutputFormatter | undefined, line: string): void {
+    const formatted = formatter?.formatLine(line);
+    if (formatted) {
+      this.writeLine(formatted.text, { color: formatted.color });
+    }
+  }
+
   handleInput(data: string): void {
     if (data === "\x03") {
       // Handle Ctrl+C
       this.writeLine("^C");
-      this.terminateProcess();
+      this.terminateProcesses();
     } else {
       this.write(data);
     }
   }
 
-  private terminateProcess(): void {
-    const pid = this.process?.pid;
+  private terminateProcesses(): void {
+    for (const childProcess of this.processes) {
+      this.terminateProcess(childProcess);
+    }
+  }
+
+  private terminateProcess(childProcess: ChildProcess): void {
+    const pid = childProcess.pid;
     if (!pid) {
       return;
     }
@@ -211,7 +263,7 @@ export class TaskTerminalV2 implements vscode.Pseudoterminal, TaskTerminal {
     let timeout = 5000; // 5 seconds
 
     const _sigkill = () => {
-      if (!this.process || this.process.exitCode !== null) {
+      if (childProcess.exitCode !== null || childProcess.signalCode !== null) {
         return; // the process is already terminated
       }
 
@@ -246,49 +298,64 @@ export class TaskTerminalV2 implements vscode.Pseudoterminal, TaskTerminal {
 
       // Collect lines and send them to the callback
       // This is usefull when you need to listen to task output and make some actions based on it
+      const formatter = options.outputFormatter;
       const stdouBuffer = new LineBuffer({
-        enabled: !!options.onOutputLine,
+        enabled: !!options.onOutputLine || !!formatter,
         callback: (line) => {
+          this.writeFormattedLine(formatter, line);
           options.onOutputLine?.({ value: line, type: "stdout" });
         },
       });
       const stderrBuffer = new LineBuffer({
-        enabled: !!options.onOutputLine,
+        enabled: !!options.onOutputLine || !!formatter,
         callback: (line) => {
+          this.writeFormattedLine(formatter, line);
           options.onOutputLine?.({ value: line, type: "stderr" });
         },
       });
 
+      const outputLog = options.outputLogPath ? fs.createWriteStream(options.outputLogPath, { flags: "a" }) : null;
+
       const env = { ...process.env, ...prepareEnvVars(options.env) };
-      this.process = spawn(command, {
+      const childProcess = spawn(command, {
         // run command in shell to support pipes
         shell: true,
         // in order to be able to kill the whole process group
         // run it in a separate process group
         detached: true,
         env: env,
-        cwd: workspacePath,
+        cwd: options.cwd ?? workspacePath,
       });
-      this.process.stderr?.on("data", (data: string | Buffer): void => {
+      this.processes.add(childProcess);
+      if (childProcess.pid !== undefined) {
+        options.onProcessStart?.(childProcess.pid);
+      }
+      childProcess.stderr?.on("data", (data: string | Buffer): void => {
         const output = data.toString();
-        this.write(output, { color: "yellow" });
+        if (!formatter) {
+          this.write(output, { color: "yellow" });
+        }
         hasOutput = true;
+        outputLog?.write(output);
 
         stderrBuffer.append(output);
       });
-      this.process.stdout?.on("data", (data: string | Buffer): void => {
+      childProcess.stdout?.on("data", (data: string | Buffer): void => {
         const output = data.toString();
-        this.write(output);
+        if (!formatter) {
+          this.write(output);
+        }
         hasOutput = true;
+        outputLog?.write(output);
 
         stdouBuffer.append(output);
       });
-      this.process.stdin?.on("data", (data: string | Buffer): void => {
+      childProcess.stdin?.on("data", (data: string | Buffer): void => {
         const input = data.toString();
         this.write(input);
         hasOutput = true;
       });
-      this.process.on("close", (code) => {
+      childProcess.on("close", (code) => {
         // make space between command output and next command or error message
         // when we don't have any output, we already have a new line after command
         if (hasOutput) {
@@ -297,23 +364,29 @@ export class TaskTerminalV2 implements vscode.Pseudoterminal, TaskTerminal {
 
         stdouBuffer.flush();
         stderrBuffer.flush();
-
-        this.process = null;
-        if (code !== 0) {
-          reject(
-            new ExecuteTaskError("Command returned non-zero exit code", { command: commandPrint, errorCode: code }),
-          );
-        } else {
-          resolve();
-        }
+        formatter?.flush();
+
+        this.processes.delete(childProcess);
+        // The log is read right after the command, so it must be written completely
+        endStream(outputLog, () => {
+          if (code !== 0) {
+            reject(
+              new ExecuteTaskError("Command returned non-zero exit code", { command: commandPrint, errorCode: code }),
+            );
+          } else {
+            resolve();
+          }
+        });
       });
-      this.process.on("error", (error) => {
+      childProcess.on("error", (error) => {
         if (hasOutput) {
           this.writeLine();
         }
 
-        reject(new ExecuteTaskError("Error running command", { command: commandPrint, errorCode: null }));
-        this.process = null;
+        this.processes.delete(childProcess);
+        endStream(outputLog, () => {
+          reject(new ExecuteTaskError("Error running command", { command: commandPrint, errorCode: null }));
+        });
       });
     });
   }
@@ -323,7 +396,7 @@ export class TaskTerminalV2 implements vscode.Pseudoterminal, TaskTerminal {
   }
 
   close(): void {
-    this.terminateProcess();
+    this.terminateProcesses();
     this.closeSuccessfully();
   }
 
@@ -389,57 +462,169 @@ export class TaskTerminalV1 implements TaskTerminal {
     return quote([command, ...(args ?? [])]);
   }
 
-  private commandLine(options: CommandOptions): string {
+  private commandLine(options: CommandOptions, outputPath: string | null, useXcbeautify: boolean): string {
     const args = cleanCommandArgs(options.args);
-    const mainCommand = quote([options.command, ...args]);
+    let mainCommand = quote([options.command, ...args]);
+    const pipes = [...(options.pipes ?? [])];
+    const outputFiles = [outputPath, options.outputLogPath].filter((file) => !!file) as string[];
+    if (outputFiles.length > 0) {
+      // The raw output, with the errors, is saved for the formatter and the log before the other pipes
+      mainCommand = `${mainCommand} 2>&1`;
+      pipes.unshift({ command: "tee", args: ["-a", ...outputFiles] });
+    }
+    if (useXcbeautify) {
+      pipes.push({ command: "xcbeautify", args: [] });
+    }
 
-    if (!options.pipes) {
+    if (pipes.length === 0) {
       return mainCommand;
     }
 
     // Combine them into a big pipe with error propagation
     const commands = [mainCommand];
-    commands.push(...options.pipes.map((pipe) => this.command(pipe.command, pipe.args)));
+    commands.push(...pipes.map((pipe) => this.command(pipe.command, pipe.args)));
     return `set -o pipefail;  ${commands.join(" | ")}`;
   }
 
   async execute(options: CommandOptions): Promise<void> {
-    const command = this.commandLine(options);
+    const outputPath =
+      options.outputFormatter || options.onOutputLine
+        ? path.join(os.tmpdir(), `sweetpad-output-${crypto.randomUUID()}.log`)
+        : null;
+    // The built-in formatter can't format the shell task output on the fly, so it's shown the same way as
+    // before it, with xcbeautify
+    const useXcbeautify = !!options.outputFormatter && (await getIsXcbeautifyInstalled());
+    const command = this.commandLine(options, outputPath, useXcbeautify);
 
     const task = new vscode.Task(
       { type: "shell" },
       vscode.TaskScope.Workspace,
       this.options.name,
       this.options.source ?? "sweetpad",
-      new vscode.ShellExecution(command),
+      new vscode.ShellExecution(command, options.cwd ? { cwd: options.cwd } : undefined),
       this.options.problemMatchers,
     );
     setTaskPresentationOptions(task);
 
-    const execution = await vscode.tasks.executeTask(task);
-
-    return new Promise((resolve, reject) => {
-      const disposable = vscode.tasks.onDidEndTaskProcess((e) => {
-        if (e.execution === execution) {
-          disposable.dispose();
-          if (e.exitCode !== 0) {
-            const message = this.options.error ?? `Error running task '${this.options.name}'`;
-            const args = cleanCommandArgs(options.args);
-            const error = new TaskError(message, {
-              name: this.options.name,
-              soruce: this.options.source,
-              command: options.command,
-              args: args,
-              errorCode: e.exitCode,
-            });
-            reject(error);
-          } else {
-            resolve();
-          }
-        }
+    const outputReader = outputPath ? new TaskOutputReader(outputPath, options) : null;
+
+    // The listeners are added before the task is executed to not miss the events of the quick commands,
+    // the events received before the execution is known are checked once it is
+    let execution: vscode.TaskExecution | null = null;
+    const startEvents: vscode.TaskProcessStartEvent[] = [];
+    const endEvents: vscode.TaskProcessEndEvent[] = [];
+    let resolveExitCode: (exitCode: number | undefined) => void = () => {};
+    const exitCodePromise = new Promise<number | undefined>((resolve) => {
+      resolveExitCode = resolve;
+    });
+    const handleStart = (e: vscode.TaskProcessStartEvent) => {
+      if (e.execution === execution) {
+        options.onProcessStart?.(e.processId);
+      }
+    };
+    const handleEnd = (e: vscode.TaskProcessEndEvent) => {
+      if (e.execution === execution) {
+        resolveExitCode(e.exitCode);
+      }
+    };
+    const startDisposable = vscode.tasks.onDidStartTaskProcess((e) =>
+      execution ? handleStart(e) : startEvents.push(e),
+    );
+    const endDisposable = vscode.tasks.onDidEndTaskProcess((e) => (execution ? handleEnd(e) : endEvents.push(e)));
+
+    let exitCode: number | undefined;
+    try {
+      outputReader?.start();
+      execution = await vscode.tasks.executeTask(task);
+      startEvents.forEach(handleStart);
+      endEvents.forEach(handleEnd);
+      exitCode = await exitCodePromise;
+    } finally {
+      startDisposable.dispose();
+      endDisposable.dispose();
+      await outputReader?.stop();
+    }
+
+    if (exitCode !== 0) {
+      const message = this.options.error ?? `Error running task '${this.options.name}'`;
+      const args = cleanCommandArgs(options.args);
+      throw new TaskError(message, {
+        name: this.options.name,
+        soruce: this.options.source,
+        command: options.command,
+        args: args,
+        errorCode: exitCode,
       });
+    }
+  }
+}
+
+/**
+ * The shell task output can't be read from its terminal, so it's saved to a file, and the new lines of
+ * the file are passed to the formatter and the callback while the command is running
+ */
+class TaskOutputReader {
+  private offset = 0;
+  private decoder = new StringDecoder("utf-8");
+  private buffer: LineBuffer;
+  private timer: NodeJS.Timeout | null = null;
+  private reading: Promise<void> = Promise.resolve();
+
+  constructor(
+    private outputPath: string,
+    private options: CommandOptions,
+  ) {
+    this.buffer = new LineBuffer({
+      enabled: true,
+      callback: (line) => {
+        options.outputFormatter?.formatLine(line);
+        options.onOutputLine?.({ value: line, type: "stdout" });
+      },
     });
   }
+
+  start(): void {
+    this.timer = setInterval(() => {
+      this.reading = this.reading.then(() => this.read());
+    }, 200);
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.reading;
+    await this.read();
+    this.buffer.append(this.decoder.end());
+    this.buffer.flush();
+    this.options.outputFormatter?.flush();
+    await fs.promises.rm(this.outputPath, { force: true });
+  }
+
+  private async read(): Promise<void> {
+    let file: fs.promises.FileHandle;
+    try {
+      file = await fs.promises.open(this.outputPath, "r");
+    } catch (error) {
+      // The file is created by the command once it starts
+      return;
+    }
+    try {
+      const { size } = await file.stat();
+      if (size <= this.offset) {
+        return;
+      }
+      const data = Buffer.alloc(size - this.offset);
+      const { bytesRead } = await file.read(data, 0, data.length, this.offset);
+      this.offset += bytesRead;
+      this.buffer.append(this.decoder.write(data.subarray(0, bytesRead)));
+    } catch (error) {
+      commonLogger.debug("Failed to read the task output", { outputPath: this.outputPath, error: error });
+    } finally {
+      await file.close();
+    }
+  }
 }
 
 export class TaskTerminalV1Parent implements vscode.Pseudoterminal {
@@ -1,5 +1,10 @@
 import path from "node:path";
-import { XcodeProject as XcodeProjectParsed } from "@bacons/xcode";
+import {
+  PBXFileReference,
+  PBXNativeTarget,
+  PBXSourcesBuildPhase,
+  XcodeProject as XcodeProjectParsed,
+} from "@bacons/xcode";
 import { type XcodeProject as XcodeProjectRaw, parse as parseChevrotain } from "@bacons/xcode/json";
 import { type XmlDocument, XmlElement, type XmlNode, parseXml } from "@rgrove/parse-xml";
 import { findFiles, findFilesRecursive, isFileExists, readFile, readTextFile, statFile } from "../files";
@@ -13,10 +18,29 @@ export interface XcodeProject {
   projectPath: string;
   getConfigurations(): string[];
   getTargets(): string[];
+  getTargetsForFile(filePath: string): string[];
   getSchemes(): Promise<XcodeScheme[]>;
   getScheme(name: string): Promise<XcodeScheme | null>;
 }
 
+/**
+ * Argument from the "Arguments Passed On Launch" list of the scheme "Run" action. One entry might
+ * contain several space-separated arguments, like "-FIRDebugEnabled 1"
+ */
+export type XcodeSchemeLaunchArgument = {
+  argument: string;
+  isEnabled: boolean;
+};
+
+/**
+ * Variable from the "Environment Variables" list of the scheme "Run" action
+ */
+export type XcodeSchemeEnvironmentVariable = {
+  key: string;
+  value: string;
+  isEnabled: boolean;
+};
+
 export class XcodeScheme {
   public name: string;
   public path: string;
@@ -72,25 +96,8 @@ export class XcodeScheme {
      *  <ArchiveAction ...> ... </ArchiveAction>
      * </Scheme>
      */
-    const schemeContent = await this.getXml();
-
     // When there is no scheme file it means that it should use default target name
-    if (!schemeContent) {
-      return null;
-    }
-
-    const schemeRoot = schemeContent.root;
-    if (!schemeRoot) {
-      return null;
-    }
-
-    /**
-     * <LaunchAction> configures the Run phase of the scheme (the action that launches the app).
-     * In Xcode’s UI this is labeled “Run” in the scheme editor, but in the file it’s called
-     * LaunchAction​. This element defines how the app or executable is launched when you run
-     * the scheme.
-     */
-    const launchAction = schemeRoot.children.filter(isXMLElement).find((element) => element.name === "LaunchAction");
+    const launchAction = await this.getLaunchAction();
     if (!launchAction) {
       return null;
     }
@@ -129,6 +136,88 @@ export class XcodeScheme {
     return buildableReference.attributes.BlueprintName || "";
   }
 
+  /**
+   * Get arguments passed to the app on launch, including the disabled ones
+   */
+  async getLaunchArguments(): Promise<XcodeSchemeLaunchArgument[]> {
+    /** Example:
+     * <LaunchAction ...>
+     *  <CommandLineArguments>
+     *   <CommandLineArgument
+     *    argument = "-FIRDebugEnabled"
+     *    isEnabled = "YES">
+     *   </CommandLineArgument>
+     *  </CommandLineArguments>
+     * </LaunchAction>
+     */
+    const launchAction = await this.getLaunchAction();
+    if (!launchAction) {
+      return [];
+    }
+
+    return this.getLaunchActionItems(launchAction, "CommandLineArguments", "CommandLineArgument").map((element) => ({
+      argument: element.attributes.argument ?? "",
+      isEnabled: element.attributes.isEnabled === "YES",
+    }));
+  }
+
+  /**
+   * Get environment variables passed to the app on launch, including the disabled ones
+   */
+  async getLaunchEnvironment(): Promise<XcodeSchemeEnvironmentVariable[]> {
+    /** Example:
+     * <LaunchAction ...>
+     *  <EnvironmentVariables>
+     *   <EnvironmentVariable
+     *    key = "API_URL"
+     *    value = "https://staging.example.com"
+     *    isEnabled = "YES">
+     *   </EnvironmentVariable>
+     *  </EnvironmentVariables>
+     * </LaunchAction>
+     */
+    const launchAction = await this.getLaunchAction();
+    if (!launchAction) {
+      return [];
+    }
+
+    return this.getLaunchActionItems(launchAction, "EnvironmentVariables", "EnvironmentVariable")
+      .filter((element) => !!element.attributes.key)
+      .map((element) => ({
+        key: element.attributes.key,
+        value: element.attributes.value ?? "",
+        isEnabled: element.attributes.isEnabled === "YES",
+      }));
+  }
+
+  /**
+   * <LaunchAction> configures the Run phase of the scheme (the action that launches the app).
+   * In Xcode’s UI this is labeled “Run” in the scheme editor, but in the file it’s called
+   * LaunchAction​. This element defines how the app or executable is launched when you run
+   * the scheme.
+   */
+  private async getLaunchAction(): Promise<XmlElement | null> {
+    const schemeContent = await this.getXml();
+    if (!schemeContent) {
+      return null;
+    }
+
+    const schemeRoot = schemeContent.root;
+    if (!schemeRoot) {
+      return null;
+    }
+
+    return schemeRoot.children.filter(isXMLElement).find((element) => element.name === "LaunchAction") ?? null;
+  }
+
+  private getLaunchActionItems(launchAction: XmlElement, listName: string, itemName: string): XmlElement[] {
+    const list = launchAction.children.filter(isXMLElement).find((element) => element.name === listName);
+    if (!list) {
+      return [];
+    }
+    return list.children.filter(isXMLElement).filter((element) => element.name === itemName);
+  }
+
   static fromFile(options: { schemePath: string; project: XcodeProject }): XcodeScheme {
     let name: string;
     const match = options.schemePath.match(/xcschemes\/(.+)\.xcscheme$/);
@@ -242,6 +331,36 @@ export class XcodeProjectBaconParser implements XcodeProject {
     return targets.map((target) => target.props?.name).filter((name) => !!name);
   }
 
+  /**
+   * Find the targets which "Compile Sources" build phase contains the given file
+   */
+  getTargetsForFile(filePath: string): string[] {
+    const resolvedPath = path.resolve(filePath);
+    const targets: string[] = [];
+    for (const target of this.parsed.rootObject.props.targets) {
+      if (!PBXNativeTarget.is(target)) {
+        continue;
+      }
+      const sourcesPhase = target.getBuildPhase(PBXSourcesBuildPhase);
+      const isSource = (sourcesPhase?.props.files ?? []).some((buildFile) => {
+        const fileRef = buildFile.props.fileRef;
+        if (!fileRef || !PBXFileReference.is(fileRef)) {
+          return false;
+        }
+        try {
+          return path.resolve(fileRef.getRealPath()) === resolvedPath;
+        } catch {
+          // Broken references, like the file without the parent group, can't be resolved
+          return false;
+        }
+      });
+      if (isSource) {
+        targets.push(target.props.name);
+      }
+    }
+    return targets;
+  }
+
   async getSchemes(): Promise<XcodeScheme[]> {
     return await XcodeScheme.getSchemes(this);
   }
@@ -289,6 +408,82 @@ export class XcodeProjectFallbackParser implements XcodeProject {
       .filter(uniqueFilter);
   }
 
+  /**
+   * Find the targets which "Compile Sources" build phase contains the given file. Unlike the bacon
+   * parser, it also supports the folders synchronized with the file system (Xcode 16+), where the
+   * target compiles every file of the folder except the membership exceptions.
+   */
+  getTargetsForFile(filePath: string): string[] {
+    const objects: { [uuid: string]: any } = this.parsed.objects ?? {};
+    const resolvedPath = path.resolve(filePath);
+
+    // Groups reference their children, but not the parent, so let's build the reverse index first
+    const parents = new Map<string, string>();
+    for (const [uuid, obj] of Object.entries(objects)) {
+      for (const child of obj.children ?? []) {
+        parents.set(child, uuid);
+      }
+    }
+
+    const projectObject = this.parsed.rootObject ? objects[this.parsed.rootObject] : undefined;
+    const projectRoot = path.join(path.dirname(this.projectPath), projectObject?.projectDirPath ?? "");
+
+    const getRealPath = (uuid: string): string | null => {
+      const obj = objects[uuid];
+      if (!obj) {
+        return null;
+      }
+      const objPath: string = obj.path ?? "";
+      switch (obj.sourceTree) {
+        case "<group>": {
+          const parent = parents.get(uuid);
+          const parentPath = parent ? getRealPath(parent) : projectRoot;
+          return parentPath === null ? null : path.join(parentPath, objPath);
+        }
+        case "SOURCE_ROOT":
+          return path.join(path.dirname(this.projectPath), objPath);
+        case "<absolute>":
+          return objPath;
+        default:
+          // Files relative to BUILT_PRODUCTS_DIR, SDKROOT, etc. are not the sources of the project
+          return null;
+      }
+    };
+
+    const isSynchronizedSource = (targetId: string, groupId: string): boolean => {
+      const groupPath = getRealPath(groupId);
+      if (!groupPath || !resolvedPath.startsWith(`${groupPath}${path.sep}`)) {
+        return false;
+      }
+      const relativePath = path.relative(groupPath, resolvedPath);
+      const exceptions: string[] = (objects[groupId].exceptions ?? [])
+        .map((exceptionId: string) => objects[exceptionId])
+        .filter((exception: any) => exception?.target === targetId)
+        .flatMap((exception: any) => exception.membershipExceptions ?? []);
+      return !exceptions.includes(relativePath);
+    };
+
+    const targets: string[] = [];
+    for (const [targetId, target] of Object.entries(objects)) {
+      if (target.isa !== "PBXNativeTarget") {
+        continue;
+      }
+      const isSource = (target.buildPhases ?? [])
+        .map((phaseId: string) => objects[phaseId])
+        .filter((phase: any) => phase?.isa === "PBXSourcesBuildPhase")
+        .flatMap((phase: any) => phase.files ?? [])
+        .map((buildFileId: string) => objects[buildFileId]?.fileRef)
+        .some((fileRefId: string | undefined) => !!fileRefId && getRealPath(fileRefId) === resolvedPath);
+      const isSynchronized = (target.fileSystemSynchronizedGroups ?? []).some((groupId: string) =>
+        isSynchronizedSource(targetId, groupId),
+      );
+      if (isSource || isSynchronized) {
+        targets.push(target.name);
+      }
+    }
+    return targets.filter(uniqueFilter);
+  }
+
   async getSchemes(): Promise<XcodeScheme[]> {
     return await XcodeScheme.getSchemes(this);
   }
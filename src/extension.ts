@@ -1,28 +1,43 @@
 import * as vscode from "vscode";
 import {
+  archiveCommand,
   buildCommand,
+  buildCurrentTargetCommand,
+  buildWithTimingCommand,
   cleanCommand,
+  clearBuildHistoryCommand,
+  copyBuildHistoryCommandCommand,
   debuggingBuildCommand,
   debuggingLaunchCommand,
   debuggingRunCommand,
   diagnoseBuildSetupCommand,
   generateBuildServerConfigCommand,
+  generateCompileCommandsCommand,
   launchCommand,
+  openBuildHistoryLogCommand,
   openXcodeCommand,
   refreshSchemesCommand,
   removeBundleDirCommand,
+  rerunBuildHistoryEntryCommand,
   resolveDependenciesCommand,
   runCommand,
   selectConfigurationForBuildCommand,
   selectXcodeSchemeForBuildCommand,
   selectXcodeWorkspaceCommand,
+  showArchiveHistoryCommand,
+  showBuildTimingCommand,
+  showResolvedBuildCommand,
   testCommand,
+  typecheckCurrentFileCommand,
 } from "./build/commands.js";
+import { BuildHistoryTreeProvider } from "./build/history-tree.js";
+import { BuildHistoryManager } from "./build/history.js";
 import { BuildManager } from "./build/manager.js";
 import { XcodeBuildTaskProvider } from "./build/provider.js";
 import { createSchemeWatcher } from "./build/scheme-watcher.js";
 import { DefaultSchemeStatusBar } from "./build/status-bar.js";
 import { BuildTreeProvider } from "./build/tree.js";
+import { createTypecheckOnSaveWatcher } from "./build/typecheck-watcher.js";
 import { ExtensionContext } from "./common/commands.js";
 import { errorReporting } from "./common/error-reporting.js";
 import { Logger } from "./common/logger.js";
@@ -90,6 +105,7 @@ export function activate(context: vscode.ExtensionContext) {
   // "DestinationsManager" have methods to get the list of current ios devices and simulators, and it also have an
   // event emitter that emits an event when the list of devices or simulators changes.
   const buildManager = new BuildManager();
+  const buildHistoryManager = new BuildHistoryManager();
   const devicesManager = new DevicesManager();
   const simulatorsManager = new SimulatorsManager();
   const destinationsManager = new DestinationsManager({
@@ -106,6 +122,7 @@ export function activate(context: vscode.ExtensionContext) {
     context: context,
     destinationsManager: destinationsManager,
     buildManager: buildManager,
+    buildHistoryManager: buildHistoryManager,
     toolsManager: toolsManager,
     testingManager: testingManager,
     formatter: formatter,
@@ -113,6 +130,7 @@ export function activate(context: vscode.ExtensionContext) {
   });
   // Here is circular dependency, but I don't care
   buildManager.context = _context;
+  buildHistoryManager.context = _context;
   devicesManager.context = _context;
   destinationsManager.context = _context;
   testingManager.context = _context;
@@ -123,6 +141,9 @@ export function activate(context: vscode.ExtensionContext) {
     context: _context,
     buildManager: buildManager,
   });
+  const buildHistoryTreeProvider = new BuildHistoryTreeProvider({
+    manager: buildHistoryManager,
+  });
   const toolsTreeProvider = new ToolTreeProvider({
     manager: toolsManager,
   });
@@ -145,21 +166,35 @@ export function activate(context: vscode.ExtensionContext) {
     context: _context,
   });
   d(schemeStatusBar);
+  d(buildManager);
   d(tree("sweetpad.build.view", buildTreeProvider));
+  d(tree("sweetpad.build.historyView", buildHistoryTreeProvider));
   d(command("sweetpad.build.refreshSchemes", refreshSchemesCommand));
   d(command("sweetpad.build.launch", launchCommand));
   d(command("sweetpad.build.run", runCommand));
   d(command("sweetpad.build.build", buildCommand));
+  d(command("sweetpad.build.buildCurrentTarget", buildCurrentTargetCommand));
+  d(command("sweetpad.build.typecheckFile", typecheckCurrentFileCommand));
+  d(command("sweetpad.build.buildWithTiming", buildWithTimingCommand));
+  d(command("sweetpad.build.showBuildTiming", showBuildTimingCommand));
   d(command("sweetpad.build.clean", cleanCommand));
   d(command("sweetpad.build.test", testCommand));
   d(command("sweetpad.build.resolveDependencies", resolveDependenciesCommand));
   d(command("sweetpad.build.removeBundleDir", removeBundleDirCommand));
   d(command("sweetpad.build.generateBuildServerConfig", generateBuildServerConfigCommand));
+  d(command("sweetpad.build.generateCompileCommands", generateCompileCommandsCommand));
   d(command("sweetpad.build.openXcode", openXcodeCommand));
   d(command("sweetpad.build.selectXcodeWorkspace", selectXcodeWorkspaceCommand));
   d(command("sweetpad.build.setDefaultScheme", selectXcodeSchemeForBuildCommand));
   d(command("sweetpad.build.selectConfiguration", selectConfigurationForBuildCommand));
   d(command("sweetpad.build.diagnoseSetup", diagnoseBuildSetupCommand));
+  d(command("sweetpad.build.showResolvedCommand", showResolvedBuildCommand));
+  d(command("sweetpad.build.archive", archiveCommand));
+  d(command("sweetpad.build.showArchiveHistory", showArchiveHistoryCommand));
+  d(command("sweetpad.build.history.rerun", rerunBuildHistoryEntryCommand));
+  d(command("sweetpad.build.history.openLog", openBuildHistoryLogCommand));
+  d(command("sweetpad.build.history.copyCommand", copyBuildHistoryCommandCommand));
+  d(command("sweetpad.build.history.clear", clearBuildHistoryCommand));
 
   // Testing
   d(command("sweetpad.testing.buildForTesting", buildForTestingCommand));
@@ -189,6 +224,7 @@ export function activate(context: vscode.ExtensionContext) {
 
   // Scheme Auto-Refresh Watcher
   d(createSchemeWatcher(_context));
+  d(createTypecheckOnSaveWatcher(_context));
 
   // Format
   d(createFormatStatusItem());
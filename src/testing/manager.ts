@@ -376,13 +376,14 @@ export class TestingManager {
    * Execute separate command to build the project before running tests
    */
   async buildForTestingCommand(context: ExtensionContext) {
-    const { scheme, destination, xcworkspace } = await this.askTestingConfigurations();
+    const { scheme, configuration, destination, xcworkspace } = await this.askTestingConfigurations();
 
     // before testing we need to build the project to avoid runnning tests on old code or
     // building every time we run selected tests
     await this.buildForTesting({
       destination: destination,
       scheme: scheme,
+      configuration: configuration,
       xcworkspace: xcworkspace,
     });
   }
@@ -392,11 +393,18 @@ export class TestingManager {
    */
   async buildForTesting(options: {
     scheme: string;
+    configuration: string;
     destination: Destination;
     xcworkspace: string;
   }) {
     this.context.updateProgressStatus("Building for testing");
-    const runtime = await createExtensionBuildRuntimeContext(this.context);
+    const runtime = await createExtensionBuildRuntimeContext(this.context, {
+      configScope: {
+        scheme: options.scheme,
+        configuration: options.configuration,
+        destinationType: options.destination.type,
+      },
+    });
     const destinationRaw = getXcodeBuildDestinationString(runtime, { destination: options.destination });
 
     // todo: add xcodebeautify command to format output
@@ -668,6 +676,7 @@ export class TestingManager {
     xcworkspace: string;
     destination: Destination;
     scheme: string;
+    configuration: string;
     token: vscode.CancellationToken;
   }) {
     const { xcworkspace, scheme, token, run, request } = options;
@@ -708,6 +717,7 @@ export class TestingManager {
           xcworkspace: xcworkspace,
           destination: options.destination,
           scheme: scheme,
+          configuration: options.configuration,
           defaultTarget: defaultTarget,
         });
       } else {
@@ -715,6 +725,7 @@ export class TestingManager {
           run: run,
           classTest: test,
           scheme: scheme,
+          configuration: options.configuration,
           xcworkspace: xcworkspace,
           destination: options.destination,
           defaultTarget: defaultTarget,
@@ -730,7 +741,7 @@ export class TestingManager {
   async runTestsWithoutBuilding(request: vscode.TestRunRequest, token: vscode.CancellationToken) {
     const run = this.controller.createTestRun(request);
     try {
-      const { scheme, destination, xcworkspace } = await this.askTestingConfigurations();
+      const { scheme, configuration, destination, xcworkspace } = await this.askTestingConfigurations();
 
       // todo: add check if project is already built
 
@@ -741,6 +752,7 @@ export class TestingManager {
         xcworkspace: xcworkspace,
         destination: destination,
         scheme: scheme,
+        configuration: configuration,
         token: token,
       });
     } finally {
@@ -754,12 +766,13 @@ export class TestingManager {
   async buildAndRunTests(request: vscode.TestRunRequest, token: vscode.CancellationToken) {
     const run = this.controller.createTestRun(request);
     try {
-      const { scheme, destination, xcworkspace } = await this.askTestingConfigurations();
+      const { scheme, configuration, destination, xcworkspace } = await this.askTestingConfigurations();
 
       // before testing we need to build the project to avoid runnning tests on old code or
       // building every time we run selected tests
       await this.buildForTesting({
         scheme: scheme,
+        configuration: configuration,
         destination: destination,
         xcworkspace: xcworkspace,
       });
@@ -770,6 +783,7 @@ export class TestingManager {
         xcworkspace: xcworkspace,
         destination: destination,
         scheme: scheme,
+        configuration: configuration,
         token: token,
       });
     } finally {
@@ -781,6 +795,7 @@ export class TestingManager {
     run: vscode.TestRun;
     classTest: vscode.TestItem;
     scheme: string;
+    configuration: string;
     xcworkspace: string;
     destination: Destination;
     defaultTarget: string | null;
@@ -792,7 +807,13 @@ export class TestingManager {
       methodTests: [...classTest.children],
     });
 
-    const runtime = await createExtensionBuildRuntimeContext(this.context);
+    const runtime = await createExtensionBuildRuntimeContext(this.context, {
+      configScope: {
+        scheme: options.scheme,
+        configuration: options.configuration,
+        destinationType: options.destination.type,
+      },
+    });
     const destinationRaw = getXcodeBuildDestinationString(runtime, { destination: options.destination });
 
     // Some test items like SPM packages have a separate target for tests, in other case we use
@@ -866,6 +887,7 @@ export class TestingManager {
     methodTest: vscode.TestItem;
     xcworkspace: string;
     scheme: string;
+    configuration: string;
     destination: Destination;
     defaultTarget: string | null;
   }): Promise<void> {
@@ -884,7 +906,13 @@ export class TestingManager {
       throw new Error("Test target is not defined");
     }
 
-    const runtime = await createExtensionBuildRuntimeContext(this.context);
+    const runtime = await createExtensionBuildRuntimeContext(this.context, {
+      configScope: {
+        scheme: options.scheme,
+        configuration: options.configuration,
+        destinationType: options.destination.type,
+      },
+    });
     const destinationRaw = getXcodeBuildDestinationString(runtime, { destination: options.destination });
 
     // Run "xcodebuild" command as a task to see the test output